@@ -1,42 +1,532 @@
-import React, { useState, useCallback } from 'react';
-import type { Presentation, RecordingState, UploadedImage } from './types';
-import { generatePresentationFromText } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { AiProviderSettings, GenerationOptions, Outline, Presentation, Project, RecordingState, Slide, Theme, TranscriptSegment, UploadedImage } from './types';
+import { AI_PROVIDERS, defaultProviderSettings, generateOutline, generatePresentationFromText, generateSlideImage, getProviderSettings, rewriteSlide, setProviderSettings } from './services/aiService';
+import { isAbortError } from './services/aiProvider';
+import { AiError } from './services/aiErrors';
 import AudioRecorder from './components/AudioRecorder';
 import PresentationViewer from './components/PresentationViewer';
-  import PresentationIcon from './icons/PresentationIcon';
+import ModelSettings from './components/ModelSettings';
+import SlideThumbnailRail from './components/SlideThumbnailRail';
+import ProjectLibrary from './components/ProjectLibrary';
+import ThemePicker from './components/ThemePicker';
+import ThemeEditor from './components/ThemeEditor';
+import OutlineEditor from './components/OutlineEditor';
+import { useHistory } from './hooks/useHistory';
+import { useAutosave } from './hooks/useAutosave';
+import { usePresentationHost } from './hooks/usePresentationHost';
+import { presentationViewUrl } from './services/presentationChannel';
+import { DEFAULT_PROJECT_NAME, createEmptyProject, getProject, saveProject } from './services/projectStore';
+import { PROJECT_FILE_EXTENSION, parseProjectFile, serializeProject } from './services/projectFile';
+import { MARKDOWN_FILE_EXTENSIONS, parseMarkdownDeck } from './services/markdownDeck';
+import { DEFAULT_THEME, loadCustomThemes, normalizeTheme, saveCustomThemes } from './services/themeService';
+import { loadGenerationOptions, saveGenerationOptions } from './services/generationOptions';
+import { downloadBlob } from './utils/download';
+import { transcriptFromSegments } from './utils/transcript';
+import { deleteSlide, duplicateSlide, insertSlide, moveSlide } from './utils/slideOperations';
+import { imageFromDataUrl, indexToPlaceholder } from './utils/slideImages';
+import { changeSlideLayout, getSlideLayout, usesImage } from './utils/slideLayouts';
+import PresentationIcon from './icons/PresentationIcon';
+
+const LAST_PROJECT_STORAGE_KEY = 'ppt-audio.last-project';
+const OUTLINE_FIRST_STORAGE_KEY = 'ppt-audio.outline-first';
+
+// Shown in the theme editor before a deck has been generated.
+const THEME_PREVIEW_SLIDE: Slide = {
+  title: 'Your slide title',
+  content: ['A first key point', 'A second key point', 'A third key point'],
+  speakerNotes: '',
+};
+
+// Typed AI errors already say what went wrong; anything else gets context.
+const describeError = (action: string, e: unknown) =>
+  e instanceof AiError ? e.message : `An error occurred while ${action}: ${e instanceof Error ? e.message : String(e)}`;
+
+const AUTOSAVE_LABELS = {
+  idle: '',
+  pending: 'Unsaved changes',
+  saving: 'Saving...',
+  saved: 'All changes saved',
+  error: 'Autosave failed',
+};
+
 const App: React.FC = () => {
   const [recordingState, setRecordingState] = useState<RecordingState>('idle');
   const [transcript, setTranscript] = useState<string>('');
+  // Set while the transcript is a timed high-accuracy transcription; the
+  // plain transcript is then derived from it.
+  const [transcriptSegments, setTranscriptSegments] = useState<TranscriptSegment[] | null>(null);
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
-  const [presentation, setPresentation] = useState<Presentation | null>(null);
+  // Deck edits go through an undo/redo history; a fresh generation resets it
+  // once the new deck has arrived.
+  const {
+    state: savedPresentation,
+    set: updatePresentation,
+    reset: setPresentation,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useHistory<Presentation | null>(null);
+  // Slides of a generation in progress, shown in place of the deck. They stay
+  // out of the history so a failed or cancelled run leaves it untouched.
+  const [streamingSlides, setStreamingSlides] = useState<Presentation | null>(null);
+  const presentation = streamingSlides ? (streamingSlides.length > 0 ? streamingSlides : null) : savedPresentation;
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  // With outline-first generation the AI drafts an outline the user edits
+  // before the slides are written.
+  const [outlineFirst, setOutlineFirst] = useState<boolean>(() => localStorage.getItem(OUTLINE_FIRST_STORAGE_KEY) === 'true');
+  const [outline, setOutline] = useState<Outline | null>(null);
+  const [isDraftingOutline, setIsDraftingOutline] = useState<boolean>(false);
+  // Shown while a failed AI request is being retried.
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(loadGenerationOptions);
   const [error, setError] = useState<string | null>(null);
   const [currentSlide, setCurrentSlide] = useState<number>(0);
+  const [isRewriting, setIsRewriting] = useState<boolean>(false);
+  const [isGeneratingImage, setIsGeneratingImage] = useState<boolean>(false);
+  const [aiSettings, setAiSettings] = useState<AiProviderSettings>(getProviderSettings);
+  const [projectMeta, setProjectMeta] = useState(() => {
+    const { id, name, createdAt } = createEmptyProject();
+    return { id, name, createdAt };
+  });
+  const [recordedAudio, setRecordedAudio] = useState<Blob | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState<boolean>(false);
+  const [theme, setTheme] = useState<Theme>(DEFAULT_THEME);
+  const [customThemes, setCustomThemes] = useState<Theme[]>(loadCustomThemes);
+  const [isThemeEditorOpen, setIsThemeEditorOpen] = useState<boolean>(false);
+  // Autosave stays off until the last session has been restored, so the empty
+  // startup state never overwrites a saved project.
+  const [isRestoring, setIsRestoring] = useState<boolean>(true);
+  const generationRef = useRef<AbortController | null>(null);
+  // What is on screen now, for handlers that resume after an await and must
+  // not act on a deck or project that has since been replaced.
+  const latestRef = useRef({ projectId: projectMeta.id, presentation, images: uploadedImages });
+  latestRef.current = { projectId: projectMeta.id, presentation, images: uploadedImages };
 
-  const handleGeneratePresentation = useCallback(async () => {
-    if (!transcript.trim() && uploadedImages.length === 0) {
-      setError('A transcript or at least one image must be provided.');
+  const project = useMemo<Project>(() => ({
+    ...projectMeta,
+    updatedAt: Date.now(),
+    transcript,
+    transcriptSegments,
+    images: uploadedImages,
+    presentation,
+    theme,
+    audio: recordedAudio,
+  }), [projectMeta, transcript, transcriptSegments, uploadedImages, presentation, theme, recordedAudio]);
+
+  const hasContent = !!(transcript.trim() || uploadedImages.length > 0 || presentation || recordedAudio);
+  const { status: autosaveStatus, flush: flushAutosave, discard: discardAutosave } = useAutosave(
+    project,
+    useCallback(async (value: Project) => {
+      await saveProject({ ...value, updatedAt: Date.now() });
+      localStorage.setItem(LAST_PROJECT_STORAGE_KEY, value.id);
+    }, []),
+    // Paused while generating, so a half-streamed or failed deck never
+    // overwrites the saved one.
+    !isRestoring && hasContent && !isLoading
+  );
+
+  const applyProject = useCallback((loaded: Project) => {
+    setProjectMeta({ id: loaded.id, name: loaded.name, createdAt: loaded.createdAt });
+    setTranscript(loaded.transcript);
+    // Projects saved before timed transcripts existed have none.
+    setTranscriptSegments(loaded.transcriptSegments ?? null);
+    setUploadedImages(loaded.images);
+    setPresentation(loaded.presentation);
+    // Projects saved before themes existed have none.
+    setTheme(normalizeTheme(loaded.theme));
+    setRecordedAudio(loaded.audio);
+    setCurrentSlide(0);
+    setOutline(null);
+    setError(null);
+    localStorage.setItem(LAST_PROJECT_STORAGE_KEY, loaded.id);
+  }, [setPresentation]);
+
+  const handleTranscriptSegmentsChange = useCallback((segments: TranscriptSegment[] | null) => {
+    setTranscriptSegments(segments);
+    if (segments) setTranscript(transcriptFromSegments(segments));
+  }, []);
+
+  useEffect(() => {
+    const lastProjectId = localStorage.getItem(LAST_PROJECT_STORAGE_KEY);
+    if (!lastProjectId) {
+      setIsRestoring(false);
+      return;
+    }
+    getProject(lastProjectId)
+      .then(loaded => { if (loaded) applyProject(loaded); })
+      .catch(e => console.error("Could not restore last project:", e))
+      .finally(() => setIsRestoring(false));
+  }, [applyProject]);
+
+  const handleOpenProject = useCallback(async (id: string) => {
+    try {
+      const loaded = await getProject(id);
+      if (loaded) {
+        flushAutosave();
+        applyProject(loaded);
+        setIsLibraryOpen(false);
+      }
+    } catch (e) {
+      console.error(e);
+      setError(`Could not open project: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, [applyProject, flushAutosave]);
+
+  const handleNewProject = useCallback(() => {
+    flushAutosave();
+    applyProject(createEmptyProject());
+    setIsLibraryOpen(false);
+  }, [applyProject, flushAutosave]);
+
+  usePresentationHost(projectMeta.id, projectMeta.name, presentation, uploadedImages, theme, currentSlide, setCurrentSlide);
+
+  // Opens the presenter window and the audience window; both sync with this
+  // window, which stays the editor.
+  const handleStartPresentation = () => {
+    const presenter = window.open(presentationViewUrl('presenter', projectMeta.id), 'ppt-audio-presenter', 'width=1200,height=800');
+    const audience = window.open(presentationViewUrl('audience', projectMeta.id), 'ppt-audio-audience');
+    if (!presenter || !audience) {
+      alert('Please allow pop-ups for this site to start the presentation. The presenter window can also reopen the audience window.');
+    }
+  };
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExportProject = () => {
+    const json = serializeProject(project, { providerId: aiSettings.providerId, model: aiSettings.model, options: generationOptions });
+    const fileName = `${project.name.replace(/[^\w\- ]+/g, '').trim() || 'presentation'}${PROJECT_FILE_EXTENSION}`;
+    downloadBlob(new Blob([json], { type: 'application/json' }), fileName);
+  };
+
+  // A Markdown outline becomes this project's deck as is, without the AI.
+  const handleImportMarkdown = async (file: File) => {
+    try {
+      const { slides, droppedImages } = parseMarkdownDeck(await file.text(), uploadedImages.length);
+      if (presentation && !confirm(`Replace the current ${presentation.length}-slide deck with the ${slides.length} slides from "${file.name}"?`)) return;
+      setPresentation(slides);
+      setCurrentSlide(0);
+      setOutline(null);
+      // Only uploaded images (IMAGE_n) can be shown, so say which pictures were left out.
+      setError(droppedImages.length > 0
+        ? `Imported "${file.name}" without ${droppedImages.length === 1 ? 'an image that is' : `${droppedImages.length} images that are`} not among the uploaded images:\n${droppedImages.map(({ slide, reference }) => `• Slide ${slide}: ${reference}`).join('\n')}`
+        : null);
+    } catch (e) {
+      console.error(e);
+      setError(`Could not import Markdown: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleImportProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (MARKDOWN_FILE_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
+      await handleImportMarkdown(file);
+      return;
+    }
+    try {
+      const { project: imported, generation } = parseProjectFile(await file.text());
+      flushAutosave();
+      applyProject(imported);
+      if (generation && AI_PROVIDERS.some(provider => provider.id === generation.providerId)) {
+        const current = getProviderSettings();
+        handleAiSettingsChange(
+          current.providerId === generation.providerId
+            ? { ...current, model: generation.model }
+            : { ...defaultProviderSettings(generation.providerId), model: generation.model }
+        );
+      }
+      if (generation?.options) handleGenerationOptionsChange(generation.options);
+    } catch (e) {
+      console.error(e);
+      setError(`Could not import project: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleActiveProjectChanged = useCallback(({ renamedTo, deleted }: { renamedTo?: string; deleted?: boolean }) => {
+    if (deleted) {
+      discardAutosave();
+      applyProject(createEmptyProject());
+    } else if (renamedTo) {
+      setProjectMeta(meta => ({ ...meta, name: renamedTo }));
+    }
+  }, [applyProject, discardAutosave]);
+
+  // Saving from the editor applies the theme and adds it to (or updates it in)
+  // the custom theme library shared by all projects.
+  const handleSaveCustomTheme = (saved: Theme) => {
+    const next = customThemes.some(custom => custom.id === saved.id)
+      ? customThemes.map(custom => (custom.id === saved.id ? saved : custom))
+      : [...customThemes, saved];
+    try {
+      saveCustomThemes(next);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
       return;
     }
+    setCustomThemes(next);
+    setTheme(saved);
+    setIsThemeEditorOpen(false);
+  };
+
+  const handleDeleteCustomTheme = (id: string) => {
+    const next = customThemes.filter(custom => custom.id !== id);
+    saveCustomThemes(next);
+    setCustomThemes(next);
+  };
+
+  const handleAiSettingsChange = (settings: AiProviderSettings) => {
+    setProviderSettings(settings);
+    setAiSettings(settings);
+  };
+
+  const handleGenerationOptionsChange = (options: GenerationOptions) => {
+    saveGenerationOptions(options);
+    setGenerationOptions(options);
+  };
+
+  const handleOutlineFirstChange = (enabled: boolean) => {
+    localStorage.setItem(OUTLINE_FIRST_STORAGE_KEY, String(enabled));
+    setOutlineFirst(enabled);
+  };
+
+  // Writes the deck, optionally following an approved outline. If nothing
+  // comes back the previous deck and its undo history are still there, and
+  // the outline is restored; autosave is paused until then.
+  const generateDeck = useCallback(async (approvedOutline?: Outline) => {
+    const controller = new AbortController();
+    generationRef.current = controller;
     setIsLoading(true);
     setError(null);
-    setPresentation(null);
+    setOutline(null);
+    setStreamingSlides([]);
     setCurrentSlide(0);
 
+    // Slides are shown as they stream in; the final parse then replaces them.
+    const streamed: Slide[] = [];
+    const nameFrom = (slides: Presentation) =>
+      setProjectMeta(meta => (meta.name === DEFAULT_PROJECT_NAME && slides[0] ? { ...meta, name: slides[0].title } : meta));
+
     try {
-      const result = await generatePresentationFromText(transcript, uploadedImages);
-      if (result && result.length > 0) {
-        setPresentation(result);
+      const result = await generatePresentationFromText(transcript, uploadedImages, {
+        generation: generationOptions,
+        outline: approvedOutline,
+        signal: controller.signal,
+        onSlide: slide => {
+          streamed.push(slide);
+          setStreamingSlides([...streamed]);
+        },
+        // A retried request streams the deck again from the first slide.
+        onRetry: (_attempt, retryError) => {
+          streamed.length = 0;
+          setStreamingSlides([]);
+          setRetryNotice(`${retryError.message.split('\n')[0]} Retrying...`);
+        },
+      });
+      // Validation guarantees at least one slide.
+      setPresentation(result);
+      nameFrom(result);
+    } catch (e) {
+      if (isAbortError(e)) {
+        // Keep whatever arrived before the user cancelled.
+        if (streamed.length > 0) setPresentation([...streamed]);
+        nameFrom(streamed);
+        if (streamed.length === 0 && approvedOutline) setOutline(approvedOutline);
       } else {
-        setError('The AI could not generate a presentation from the provided text. Please try again with a more detailed transcript.');
+        console.error(e);
+        if (approvedOutline) setOutline(approvedOutline);
+        setError(describeError('generating the presentation', e));
       }
+    } finally {
+      generationRef.current = null;
+      setStreamingSlides(null);
+      setRetryNotice(null);
+      setIsLoading(false);
+    }
+  }, [transcript, uploadedImages, generationOptions, setPresentation]);
+
+  const draftOutline = useCallback(async () => {
+    const controller = new AbortController();
+    generationRef.current = controller;
+    setIsLoading(true);
+    setIsDraftingOutline(true);
+    setError(null);
+    try {
+      setOutline(await generateOutline(transcript, uploadedImages, {
+        generation: generationOptions,
+        signal: controller.signal,
+        onRetry: (_attempt, retryError) => setRetryNotice(`${retryError.message.split('\n')[0]} Retrying...`),
+      }));
     } catch (e) {
-      console.error(e);
-      setError(`An error occurred while generating the presentation: ${e instanceof Error ? e.message : String(e)}`);
+      if (!isAbortError(e)) {
+        console.error(e);
+        setError(describeError('drafting the outline', e));
+      }
     } finally {
+      generationRef.current = null;
+      setRetryNotice(null);
+      setIsDraftingOutline(false);
       setIsLoading(false);
     }
-  }, [transcript, uploadedImages]);
+  }, [transcript, uploadedImages, generationOptions]);
+
+  const handleGeneratePresentation = useCallback(() => {
+    if (!transcript.trim() && uploadedImages.length === 0) {
+      setError('A transcript or at least one image must be provided.');
+      return;
+    }
+    if (outlineFirst) {
+      draftOutline();
+    } else {
+      generateDeck();
+    }
+  }, [transcript, uploadedImages, outlineFirst, draftOutline, generateDeck]);
+
+  const handleCancelGeneration = useCallback(() => {
+    generationRef.current?.abort();
+  }, []);
+
+  const handleSlideChange = useCallback((index: number, slide: Slide, coalesceKey?: string) => {
+    updatePresentation(
+      previous => previous && previous.map((existing, i) => (i === index ? slide : existing)),
+      coalesceKey
+    );
+  }, [updatePresentation]);
+
+  // Rewrites one slide in place; a split returns several slides that take its spot.
+  const handleRewriteSlide = useCallback(async (index: number, instruction: string): Promise<boolean> => {
+    const slide = presentation?.[index];
+    if (!presentation || !slide) return false;
+    const projectId = projectMeta.id;
+    setIsRewriting(true);
+    setError(null);
+    try {
+      const replacement = await rewriteSlide({
+        slide,
+        previousSlide: presentation[index - 1],
+        nextSlide: presentation[index + 1],
+        transcript,
+        instruction,
+        images: uploadedImages,
+      });
+      // The rail and library stay usable meanwhile, so the slide is found
+      // again by identity; a rewrite of a slide that was since edited or
+      // removed, or of another project, is dropped.
+      const latest = latestRef.current;
+      if (latest.projectId !== projectId || !latest.presentation?.includes(slide)) return false;
+      updatePresentation(previous => {
+        const at = previous ? previous.indexOf(slide) : -1;
+        return previous && at >= 0 ? [...previous.slice(0, at), ...replacement, ...previous.slice(at + 1)] : previous;
+      });
+      return true;
+    } catch (e) {
+      console.error(e);
+      setError(describeError('rewriting the slide', e));
+      return false;
+    } finally {
+      setIsRewriting(false);
+    }
+  }, [presentation, projectMeta.id, transcript, uploadedImages, updatePresentation]);
+
+  // Adds a picture to the uploaded images and shows it on `slide`, switching
+  // to a layout with room for it when needed. Slides have no ids, so the slide
+  // is found again by identity: edits elsewhere in the deck are kept, but if
+  // this slide was edited or removed, or another project was opened while the
+  // picture was being prepared, the picture is dropped. Resolves to whether it
+  // was added.
+  const attachSlideImage = useCallback(async (slide: Slide, projectId: string, dataUrl: string, description: string): Promise<boolean> => {
+    let image: UploadedImage;
+    try {
+      image = await imageFromDataUrl(dataUrl, 'slide-visual', description);
+    } catch (e) {
+      console.error(e);
+      setError(describeError('adding the picture', e));
+      return false;
+    }
+    const latest = latestRef.current;
+    if (latest.projectId !== projectId || !latest.presentation?.includes(slide)) return false;
+    const withRoom = usesImage(getSlideLayout(slide)) ? slide : changeSlideLayout(slide, 'image-right');
+    const updated = { ...withRoom, imagePlaceholder: indexToPlaceholder(latest.images.length) };
+    setUploadedImages(previous => [...previous, image]);
+    updatePresentation(previous => previous && previous.map(item => (item === slide ? updated : item)));
+    return true;
+  }, [updatePresentation]);
+
+  // Draws a picture for the slide at `index` from `prompt` and adds it.
+  const handleGenerateSlideImage = useCallback(async (index: number, prompt: string): Promise<boolean> => {
+    const slide = presentation?.[index];
+    if (!slide) return false;
+    const projectId = projectMeta.id;
+    setIsGeneratingImage(true);
+    setError(null);
+    try {
+      const dataUrl = await generateSlideImage(prompt);
+      return await attachSlideImage(slide, projectId, dataUrl, prompt);
+    } catch (e) {
+      console.error(e);
+      setError(describeError('generating the image', e));
+      return false;
+    } finally {
+      setIsGeneratingImage(false);
+    }
+  }, [presentation, projectMeta.id, attachSlideImage]);
+
+  // Adds a picture picked from the bundled illustration packs.
+  const handlePickSlideImage = useCallback((index: number, dataUrl: string, description: string): Promise<boolean> => {
+    const slide = presentation?.[index];
+    return slide ? attachSlideImage(slide, projectMeta.id, dataUrl, description) : Promise.resolve(false);
+  }, [presentation, projectMeta.id, attachSlideImage]);
+
+  const handleMoveSlide = useCallback((from: number, to: number) => {
+    updatePresentation(previous => previous && moveSlide(previous, from, to));
+    setCurrentSlide(to);
+  }, [updatePresentation]);
+
+  const handleInsertSlide = useCallback((index: number) => {
+    updatePresentation(previous => previous && insertSlide(previous, index));
+    setCurrentSlide(index);
+  }, [updatePresentation]);
+
+  const handleDuplicateSlide = useCallback((index: number) => {
+    updatePresentation(previous => previous && duplicateSlide(previous, index));
+    setCurrentSlide(index + 1);
+  }, [updatePresentation]);
+
+  const handleDeleteSlide = useCallback((index: number) => {
+    if (!presentation || presentation.length <= 1) return;
+    const lastIndex = presentation.length - 2;
+    updatePresentation(previous => previous && deleteSlide(previous, index));
+    // Clamped here rather than only in the effect below, which runs after a
+    // render that would already be past the end of the deck.
+    setCurrentSlide(current => Math.min(index < current ? current - 1 : current, lastIndex));
+  }, [presentation, updatePresentation]);
+
+  // Undo/redo can change the deck length, so keep the cursor in range. The
+  // viewer clamps its own index until this has run.
+  useEffect(() => {
+    if (presentation && currentSlide >= presentation.length) {
+      setCurrentSlide(Math.max(0, presentation.length - 1));
+    }
+  }, [presentation, currentSlide]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = event.key.toLowerCase();
+      if (!(event.ctrlKey || event.metaKey) || (key !== 'z' && key !== 'y')) return;
+      // Leave native text undo alone in fields outside the deck editor.
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select') && !target.closest('[data-deck-editor]')) return;
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   const handleNextSlide = () => {
     if (presentation && currentSlide < presentation.length - 1) {
@@ -63,48 +553,172 @@ const App: React.FC = () => {
         <p className="mt-2 text-lg text-gray-300">
           Record your thoughts, confirm the transcript, and let AI build your slides.
         </p>
+        <div className="mt-2 flex items-center justify-center gap-3 text-sm">
+          <button
+            onClick={() => setIsLibraryOpen(true)}
+            className="py-1 px-3 rounded-lg bg-white/10 hover:bg-white/20 text-gray-200 transition-colors"
+          >
+            📁 Projects
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="py-1 px-3 rounded-lg bg-white/10 hover:bg-white/20 text-gray-200 transition-colors"
+            title="Open a project file, or load a Markdown outline as the deck"
+          >
+            Import
+          </button>
+          <button
+            onClick={handleExportProject}
+            disabled={!hasContent}
+            className="py-1 px-3 rounded-lg bg-white/10 hover:bg-white/20 text-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Save this project as a portable file"
+          >
+            Export
+          </button>
+          <input
+            type="file"
+            ref={importInputRef}
+            onChange={handleImportProject}
+            accept={['.json', 'application/json', ...MARKDOWN_FILE_EXTENSIONS].join(',')}
+            className="hidden"
+          />
+          <ThemePicker
+            theme={theme}
+            customThemes={customThemes}
+            onThemeChange={setTheme}
+            onCustomize={() => setIsThemeEditorOpen(true)}
+            onDeleteCustomTheme={handleDeleteCustomTheme}
+          />
+          <span className="text-gray-300 font-medium">{projectMeta.name}</span>
+          <span className="text-gray-500">{AUTOSAVE_LABELS[autosaveStatus]}</span>
+        </div>
       </header>
+
+      {isLibraryOpen && (
+        <ProjectLibrary
+          activeProjectId={projectMeta.id}
+          onOpenProject={handleOpenProject}
+          onNewProject={handleNewProject}
+          onClose={() => setIsLibraryOpen(false)}
+          onActiveProjectChanged={handleActiveProjectChanged}
+        />
+      )}
+
+      {isThemeEditorOpen && (
+        <ThemeEditor
+          theme={theme}
+          previewSlide={presentation?.[currentSlide] ?? THEME_PREVIEW_SLIDE}
+          images={uploadedImages}
+          onSave={handleSaveCustomTheme}
+          onClose={() => setIsThemeEditorOpen(false)}
+        />
+      )}
       
       <main className="flex-1 flex gap-4">
         <div className="w-80 bg-black/30 backdrop-blur-xl border border-cyan-500/30 rounded-2xl shadow-lg p-4 flex flex-col">
+          <ModelSettings
+            settings={aiSettings}
+            onSettingsChange={handleAiSettingsChange}
+            disabled={isLoading || recordingState === 'recording' || recordingState === 'paused'}
+          />
           <AudioRecorder
             recordingState={recordingState}
             setRecordingState={setRecordingState}
             onStopRecording={handleStopRecording}
             transcript={transcript}
             onTranscriptChange={setTranscript}
+            transcriptSegments={transcriptSegments}
+            onTranscriptSegmentsChange={handleTranscriptSegmentsChange}
             onGenerate={handleGeneratePresentation}
             isLoading={isLoading}
             images={uploadedImages}
             onImagesChange={setUploadedImages}
+            recordedAudio={recordedAudio}
+            onAudioRecorded={setRecordedAudio}
+            generationOptions={generationOptions}
+            onGenerationOptionsChange={handleGenerationOptionsChange}
+            outlineFirst={outlineFirst}
+            onOutlineFirstChange={handleOutlineFirstChange}
           />
         </div>
         
-        <div className="flex-1 bg-black/30 backdrop-blur-xl border border-cyan-500/30 rounded-2xl shadow-lg p-6 flex flex-col">
-          {error && <div className="text-red-400 bg-red-900/50 p-4 rounded-lg">{error}</div>}
-          {isLoading && !presentation && (
-            <div className="flex flex-col items-center text-center">
-                <h2 className="text-2xl font-semibold mb-4 text-gray-200">Generating your presentation...</h2>
-                <p className="text-gray-400">AI is crafting your slides. This might take a moment.</p>
-            </div>
-          )}
-          {presentation ? (
-            <PresentationViewer 
+        <div className="flex-1 bg-black/30 backdrop-blur-xl border border-cyan-500/30 rounded-2xl shadow-lg p-6 flex">
+          {presentation && !outline && !isDraftingOutline && (
+            <SlideThumbnailRail
               presentation={presentation}
               currentSlide={currentSlide}
-              onNextSlide={handleNextSlide}
-              onPrevSlide={handlePrevSlide}
               images={uploadedImages}
+              theme={theme}
+              readOnly={isLoading}
+              onSelectSlide={setCurrentSlide}
+              onMoveSlide={handleMoveSlide}
+              onInsertSlide={handleInsertSlide}
+              onDuplicateSlide={handleDuplicateSlide}
+              onDeleteSlide={handleDeleteSlide}
             />
-          ) : (
-            !isLoading && !error && (
-              <div className="text-center text-gray-500 flex flex-col items-center">
-                <PresentationIcon />
-                <h2 className="text-2xl font-semibold mt-6 mb-2 text-gray-300">Your Presentation Will Appear Here</h2>
-                <p>Start by recording your voice or typing a transcript on the left.</p>
-              </div>
-            )
           )}
+          <div className="flex-1 flex flex-col">
+            {error && <div className="text-red-400 bg-red-900/50 p-4 rounded-lg whitespace-pre-line">{error}</div>}
+            {isLoading && (!presentation || isDraftingOutline) && (
+              <div className="flex flex-col items-center text-center">
+                  <h2 className="text-2xl font-semibold mb-4 text-gray-200">
+                    {isDraftingOutline ? 'Drafting an outline...' : 'Generating your presentation...'}
+                  </h2>
+                  <p className="text-gray-400">
+                    {isDraftingOutline
+                      ? 'AI is planning the slides. You can adjust the outline before any slides are written.'
+                      : 'AI is crafting your slides. They will appear here one by one.'}
+                  </p>
+                  {retryNotice && <p className="mt-2 text-sm text-yellow-300">{retryNotice}</p>}
+                  <button
+                    onClick={handleCancelGeneration}
+                    className="mt-4 py-2 px-4 rounded-lg bg-white/10 hover:bg-red-600 text-gray-200 transition-colors"
+                  >
+                    Cancel
+                  </button>
+              </div>
+            )}
+            {outline && !isLoading ? (
+              <OutlineEditor
+                outline={outline}
+                images={uploadedImages}
+                onOutlineChange={setOutline}
+                onGenerate={() => generateDeck(outline)}
+                onDiscard={() => setOutline(null)}
+              />
+            ) : presentation && !isDraftingOutline ? (
+              <PresentationViewer 
+                presentation={presentation}
+                currentSlide={currentSlide}
+                onNextSlide={handleNextSlide}
+                onPrevSlide={handlePrevSlide}
+                images={uploadedImages}
+                theme={theme}
+                onImagesChange={setUploadedImages}
+                onSlideChange={handleSlideChange}
+                onUndo={undo}
+                onRedo={redo}
+                canUndo={canUndo}
+                canRedo={canRedo}
+                onRewriteSlide={handleRewriteSlide}
+                isRewriting={isRewriting}
+                onGenerateSlideImage={handleGenerateSlideImage}
+                onPickSlideImage={handlePickSlideImage}
+                isGeneratingImage={isGeneratingImage}
+                onPresent={handleStartPresentation}
+                isGenerating={isLoading}
+                onCancelGeneration={handleCancelGeneration}
+              />
+            ) : (
+              !isLoading && !error && (
+                <div className="text-center text-gray-500 flex flex-col items-center">
+                  <PresentationIcon />
+                  <h2 className="text-2xl font-semibold mt-6 mb-2 text-gray-300">Your Presentation Will Appear Here</h2>
+                  <p>Start by recording your voice or typing a transcript on the left.</p>
+                </div>
+              )
+            )}
+          </div>
         </div>
       </main>
     </div>
@@ -0,0 +1,78 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { usePresentationClient } from '../hooks/usePresentationClient';
+import { useSlideNavigation } from '../hooks/useSlideNavigation';
+import ScaledSlide from './ScaledSlide';
+
+interface AudienceViewProps {
+  sessionId: string;
+}
+
+// The window shown to the audience: only the slide, full screen.
+const AudienceView: React.FC<AudienceViewProps> = ({ sessionId }) => {
+  const { state, goTo, hasEnded, isSupported } = usePresentationClient(sessionId);
+  const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  useEffect(() => {
+    if (hasEnded) window.close();
+  }, [hasEnded]);
+
+  useEffect(() => {
+    if (state) document.title = state.title;
+  }, [state?.title]);
+
+  const toggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined);
+    } else {
+      document.documentElement.requestFullscreen().catch(error => console.warn("Fullscreen was refused:", error));
+    }
+  }, []);
+
+  const current = state?.currentSlide ?? 0;
+  useSlideNavigation({
+    onNext: () => goTo(current + 1),
+    onPrev: () => goTo(current - 1),
+    onFirst: () => goTo(0),
+    onLast: () => state && goTo(state.presentation.length - 1),
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'f' || event.key === 'F') toggleFullscreen();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [toggleFullscreen]);
+
+  if (!isSupported) {
+    return <div className="h-screen flex items-center justify-center text-gray-400">This browser cannot sync presentation windows.</div>;
+  }
+
+  if (!state) {
+    return <div className="h-screen flex items-center justify-center text-gray-400">Waiting for the presentation…</div>;
+  }
+
+  const slide = state.presentation[current];
+
+  return (
+    <div className="h-screen w-screen bg-black cursor-none" onClick={() => goTo(current + 1)}>
+      {slide && <ScaledSlide slide={slide} images={state.images} theme={state.theme} slideNumber={current + 1} />}
+      {!isFullscreen && (
+        <button
+          onClick={(e) => { e.stopPropagation(); toggleFullscreen(); }}
+          className="absolute bottom-4 right-4 cursor-pointer bg-black/70 text-gray-200 text-sm py-2 px-4 rounded-lg border border-white/20 hover:bg-black/90"
+        >
+          Enter full screen (F)
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AudienceView;
@@ -0,0 +1,94 @@
+import React, { useRef, useState } from 'react';
+import { AUDIO_FILE_ACCEPT, MAX_AUDIO_FILE_BYTES, MAX_AUDIO_FILE_SECONDS, checkAudioFile, formatFileSize, readAudioFileDuration } from '../utils/audioFiles';
+import { formatDuration } from '../utils/time';
+
+interface AudioFileDropZoneProps {
+  onFileAccepted: (file: File) => void;
+  disabled?: boolean;
+}
+
+interface AcceptedFile {
+  name: string;
+  size: number;
+  duration: number | null;
+}
+
+// Drag-and-drop (or click-to-pick) input for existing recordings. Files are
+// checked against the size and duration limits before they are handed on.
+const AudioFileDropZone: React.FC<AudioFileDropZoneProps> = ({ onFileAccepted, disabled }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [accepted, setAccepted] = useState<AcceptedFile | null>(null);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setProblem(null);
+    const rejection = checkAudioFile(file);
+    if (rejection) {
+      setProblem(rejection);
+      return;
+    }
+    let duration: number | null;
+    try {
+      duration = await readAudioFileDuration(file);
+    } catch (error) {
+      setProblem(`"${file.name}" could not be read: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    // A file whose length cannot be measured at all is held to the size limit
+    // checked above.
+    if (duration !== null && duration > MAX_AUDIO_FILE_SECONDS) {
+      setProblem(`"${file.name}" is ${formatDuration(duration)} long; the limit is ${formatDuration(MAX_AUDIO_FILE_SECONDS)}.`);
+      return;
+    }
+    setAccepted({ name: file.name, size: file.size, duration });
+    onFileAccepted(file);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file && !disabled) handleFile(file);
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) handleFile(file);
+  };
+
+  return (
+    <div className="mb-4">
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        onDragOver={(e) => { e.preventDefault(); if (!disabled) setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        disabled={disabled}
+        className={`w-full border-2 border-dashed rounded-lg py-3 px-4 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed
+          ${isDragging ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-gray-600 text-gray-400 hover:border-cyan-500 hover:text-cyan-400'}`}
+      >
+        <span className="font-bold">Drop an audio or video file</span> or click to choose
+        <span className="block text-xs text-gray-500 mt-1">
+          MP3, M4A, WAV, WebM or MP4 · up to {formatFileSize(MAX_AUDIO_FILE_BYTES)} and {MAX_AUDIO_FILE_SECONDS / 60} minutes
+        </span>
+      </button>
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleInputChange}
+        accept={AUDIO_FILE_ACCEPT}
+        className="hidden"
+      />
+      {accepted && !problem && (
+        <p className="mt-1 text-xs text-gray-400 truncate" title={accepted.name}>
+          {accepted.name} · {accepted.duration !== null ? formatDuration(accepted.duration) : 'unknown length'} · {formatFileSize(accepted.size)}
+        </p>
+      )}
+      {problem && <p className="mt-1 text-xs text-red-400">{problem}</p>}
+    </div>
+  );
+};
+
+export default AudioFileDropZone;
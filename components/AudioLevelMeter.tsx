@@ -0,0 +1,59 @@
+import React, { useEffect, useRef } from 'react';
+import { rmsLevel } from '../hooks/useInputMonitor';
+
+interface AudioLevelMeterProps {
+  analyser: AnalyserNode | null;
+  paused?: boolean;
+}
+
+// The level bar spans this range of dBFS.
+const MIN_DECIBELS = -60;
+
+const levelToPercent = (level: number) => {
+  const decibels = 20 * Math.log10(Math.max(level, 1e-6));
+  return Math.min(100, Math.max(0, ((decibels - MIN_DECIBELS) / -MIN_DECIBELS) * 100));
+};
+
+// Live waveform and input level. Drawn straight to the canvas and bar on
+// every animation frame rather than through React state.
+const AudioLevelMeter: React.FC<AudioLevelMeterProps> = ({ analyser, paused }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !analyser) return;
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+
+    const draw = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const { width, height } = canvas;
+      context.clearRect(0, 0, width, height);
+      context.strokeStyle = '#22d3ee';
+      context.lineWidth = 2;
+      context.beginPath();
+      for (let x = 0; x < width; x++) {
+        const y = (1 - samples[Math.floor((x / width) * samples.length)]) * height / 2;
+        if (x === 0) context.moveTo(x, y); else context.lineTo(x, y);
+      }
+      context.stroke();
+      if (barRef.current) barRef.current.style.width = `${levelToPercent(rmsLevel(samples))}%`;
+      frame = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [analyser]);
+
+  return (
+    <div className={`transition-opacity ${paused ? 'opacity-40' : ''}`} aria-hidden="true">
+      <canvas ref={canvasRef} width={240} height={40} className="w-full h-10 rounded-md bg-black/30" />
+      <div className="mt-1 h-1.5 rounded-full bg-gray-700 overflow-hidden">
+        <div ref={barRef} className="h-full w-0 bg-green-400" />
+      </div>
+    </div>
+  );
+};
+
+export default AudioLevelMeter;
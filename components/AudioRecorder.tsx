@@ -1,10 +1,22 @@
 import React, { useState, useRef, useEffect } from 'react';
-import type { RecordingState, UploadedImage, TranscriptionMode } from '../types';
-import { transcribeAudio } from '../services/geminiService';
+import type { GenerationOptions, RecordingState, TakePlacement, TranscriptionChunk, TranscriptSegment, UploadedImage, TranscriptionMode } from '../types';
+import { splitRecording, stitchChunks, transcribeChunks } from '../services/chunkedTranscription';
 import MicrophoneIcon from '../icons/MicrophoneIcon';
 import StopIcon from '../icons/StopIcon';
 import LoadingSpinner from '../icons/LoadingSpinner';
 import ImageUploader from './ImageUploader';
+import GenerationSettings from './GenerationSettings';
+import TranscriptionProgress from './TranscriptionProgress';
+import AudioFileDropZone from './AudioFileDropZone';
+import TranscriptEditor from './TranscriptEditor';
+import AudioLevelMeter from './AudioLevelMeter';
+import { useInputMonitor } from '../hooks/useInputMonitor';
+import { useAudioInputDevices } from '../hooks/useAudioInputDevices';
+import { SILENCE_STOP_CHOICES, loadRecordingPreferences, saveRecordingPreferences, type RecordingPreferences } from '../services/recordingPreferences';
+import { formatDuration } from '../utils/time';
+import { appendRecording, extractAudioTrack, isVideoFile } from '../utils/audioFiles';
+import { insertTake, transcriptFromSegments } from '../utils/transcript';
+import { TRANSCRIPTION_LANGUAGES, loadTranscriptionLanguage, saveTranscriptionLanguage } from '../services/transcriptionLanguage';
 
 interface AudioRecorderProps {
   recordingState: RecordingState;
@@ -12,22 +24,74 @@ interface AudioRecorderProps {
   onStopRecording: () => void;
   transcript: string;
   onTranscriptChange: (transcript: string) => void;
+  // Timed segments of a high-accuracy transcript; null for plain text.
+  transcriptSegments: TranscriptSegment[] | null;
+  onTranscriptSegmentsChange: (segments: TranscriptSegment[] | null) => void;
   onGenerate: () => void;
   isLoading: boolean;
   images: UploadedImage[];
   onImagesChange: (images: UploadedImage[]) => void;
+  recordedAudio: Blob | null;
+  onAudioRecorded: (audio: Blob) => void;
+  generationOptions: GenerationOptions;
+  onGenerationOptionsChange: (options: GenerationOptions) => void;
+  outlineFirst: boolean;
+  onOutlineFirstChange: (enabled: boolean) => void;
 }
 
+// A recording added to an existing transcript instead of replacing it.
+interface Take {
+  // Transcript text on either side of where the take goes.
+  before: string;
+  after: string;
+  // When appending to a timed transcript: its segments, and where the take
+  // starts in the combined recording.
+  segments: TranscriptSegment[] | null;
+  offset: number;
+}
+
+// Live recognition errors worth telling the user about. "no-speech" and
+// "aborted" are left out: silence and our own stop calls end sessions too.
+const SPEECH_ERROR_MESSAGES: Record<string, string> = {
+  'audio-capture': 'No microphone was found. Check that one is connected.',
+  'not-allowed': 'Microphone access was denied. Allow it in the browser to use live transcription.',
+  'service-not-allowed': "The browser's speech service is not available. Try High-Accuracy mode.",
+  'network': 'The speech service could not be reached. Reconnecting...',
+  'language-not-supported': 'Live transcription does not support this language. Pick another one or use High-Accuracy mode.',
+};
+const FATAL_SPEECH_ERRORS = new Set(['audio-capture', 'not-allowed', 'service-not-allowed', 'language-not-supported']);
+
+// Sessions that end this soon after starting count as failed restarts; after
+// too many in a row live transcription gives up instead of looping.
+const QUICK_SESSION_MS = 2000;
+const MAX_QUICK_RESTARTS = 5;
+
+const selectClassName = "p-1 bg-black/20 border border-gray-600 rounded-md text-xs focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-gray-200 disabled:opacity-50";
+
+const TAKE_PLACEMENTS: { id: TakePlacement; label: string }[] = [
+  { id: 'replace', label: 'Replace' },
+  { id: 'append', label: 'Append' },
+  { id: 'insert', label: 'Insert at cursor' },
+];
+
 const AudioRecorder: React.FC<AudioRecorderProps> = ({
   recordingState,
   setRecordingState,
   onStopRecording,
   transcript,
   onTranscriptChange,
+  transcriptSegments,
+  onTranscriptSegmentsChange,
   onGenerate,
   isLoading,
   images,
   onImagesChange,
+  recordedAudio,
+  onAudioRecorded,
+  generationOptions,
+  onGenerationOptionsChange,
+  outlineFirst,
+  onOutlineFirstChange,
 }) => {
   const [isLiveTranscriptionSupported, setIsLiveTranscriptionSupported] = useState(false);
   const [transcriptionMode, setTranscriptionMode] = useState<TranscriptionMode>('live');
@@ -36,6 +100,33 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
   const audioChunksRef = useRef<Blob[]>([]);
   const [isTranscribing, setIsTranscribing] = useState<boolean>(false);
   const finalTranscriptRef = useRef<string>('');
+  // Segments of the last high-accuracy transcription, and their audio.
+  const [chunks, setChunks] = useState<TranscriptionChunk[]>([]);
+  const chunkBlobsRef = useRef<Blob[]>([]);
+  // Where the next recording goes in an existing transcript.
+  const [takePlacement, setTakePlacement] = useState<TakePlacement>('append');
+  const takeRef = useRef<Take | null>(null);
+  const cursorRef = useRef<number | null>(null);
+  const [language, setLanguage] = useState<string>(loadTranscriptionLanguage);
+  // Live recognition ends on its own after long pauses or network hiccups.
+  // While this is set, sessions are restarted until the user stops or pauses.
+  const keepListeningRef = useRef(false);
+  const sessionStartedAtRef = useRef(0);
+  const quickRestartsRef = useRef(0);
+  // Problems shown under the recorder: live recognition errors and failed
+  // transcriptions. Fatal ones are shown in red.
+  const [notice, setNotice] = useState<{ message: string; fatal: boolean } | null>(null);
+  const [recordingPreferences, setRecordingPreferences] = useState<RecordingPreferences>(loadRecordingPreferences);
+  // The open microphone while recording. In live mode recognition listens by
+  // itself and this stream only feeds the level meter.
+  const [inputStream, setInputStream] = useState<MediaStream | null>(null);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const microphones = useAudioInputDevices(inputStream);
+  const { analyser, isQuietStart } = useInputMonitor(inputStream, {
+    active: recordingState === 'recording',
+    silenceSeconds: recordingPreferences.silenceStopSeconds,
+    onSilence: () => stopRecording(),
+  });
   
   // Check for Web Speech API support on component mount
   useEffect(() => {
@@ -48,6 +139,14 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
   }, []);
 
 
+  // Starts a recognition session. Each session reports its results afresh, so
+  // the text finished so far is kept apart from what the new one hears.
+  const startListening = (recognition: SpeechRecognition) => {
+    if (finalTranscriptRef.current && !/\s$/.test(finalTranscriptRef.current)) finalTranscriptRef.current += ' ';
+    sessionStartedAtRef.current = Date.now();
+    recognition.start();
+  };
+
   useEffect(() => {
     if (!isLiveTranscriptionSupported || transcriptionMode !== 'live') {
       if (speechRecognitionRef.current) {
@@ -61,7 +160,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     const recognition = new SpeechRecognitionAPI();
     recognition.continuous = true;
     recognition.interimResults = true;
-    recognition.lang = 'en-US';
+    recognition.lang = language;
 
     recognition.onresult = (event: SpeechRecognitionEvent) => {
       let interimTranscript = '';
@@ -74,15 +173,33 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
         }
       }
       finalTranscriptRef.current = finalTranscript;
-      onTranscriptChange(finalTranscript + interimTranscript);
+      setNotice(current => (current?.fatal ? current : null));
+      const take = takeRef.current;
+      onTranscriptChange(take ? insertTake(take.before, finalTranscript + interimTranscript, take.after) : finalTranscript + interimTranscript);
     };
     
+    recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      console.error("Speech recognition error:", event.error, event.message);
+      const fatal = FATAL_SPEECH_ERRORS.has(event.error);
+      if (fatal) keepListeningRef.current = false;
+      setNotice({ message: SPEECH_ERROR_MESSAGES[event.error] ?? `Live transcription error: ${event.error}.`, fatal });
+    };
+
     recognition.onend = () => {
-      // This can be triggered by the browser on long pauses. The main stop logic
-      // is handled by the user clicking the stop button.
-      if (recordingState === 'recording') {
-          setRecordingState('stopped');
-          onStopRecording();
+      if (!keepListeningRef.current) return;
+      quickRestartsRef.current = Date.now() - sessionStartedAtRef.current < QUICK_SESSION_MS ? quickRestartsRef.current + 1 : 0;
+      if (quickRestartsRef.current > MAX_QUICK_RESTARTS) {
+        keepListeningRef.current = false;
+        setNotice({ message: 'Live transcription keeps stopping. Check your connection, or use High-Accuracy mode.', fatal: true });
+        return;
+      }
+      try {
+        startListening(recognition);
+      } catch (e) {
+        console.error("Error restarting speech recognition:", e);
+        keepListeningRef.current = false;
+        setNotice({ message: 'Live transcription stopped and could not be restarted.', fatal: true });
       }
     };
 
@@ -91,7 +208,104 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     return () => {
         speechRecognitionRef.current?.abort();
     };
-  }, [transcriptionMode, isLiveTranscriptionSupported, onTranscriptChange]);
+  }, [transcriptionMode, isLiveTranscriptionSupported, onTranscriptChange, language]);
+
+  // Errors the recognition cannot recover from end the recording here, where
+  // the props are current rather than those captured by the handlers above.
+  useEffect(() => {
+    if (notice?.fatal && (recordingState === 'recording' || recordingState === 'paused')) {
+      setRecordingState('stopped');
+      onStopRecording();
+    }
+  }, [notice]);
+
+  // The microphone is released whenever the recording ends, however it ended.
+  useEffect(() => {
+    if (recordingState !== 'recording' && recordingState !== 'paused') setInputStream(null);
+  }, [recordingState]);
+
+  useEffect(() => () => inputStream?.getTracks().forEach(track => track.stop()), [inputStream]);
+
+  // Elapsed recording time, not counting pauses.
+  useEffect(() => {
+    if (recordingState !== 'recording') return;
+    const startedAt = Date.now() - elapsedSeconds * 1000;
+    const timer = setInterval(() => setElapsedSeconds((Date.now() - startedAt) / 1000), 250);
+    return () => clearInterval(timer);
+  }, [recordingState]);
+
+  const updateRecordingPreferences = (changes: Partial<RecordingPreferences>) => {
+    const next = { ...recordingPreferences, ...changes };
+    setRecordingPreferences(next);
+    saveRecordingPreferences(next);
+  };
+
+  const handleLanguageChange = (code: string) => {
+    setLanguage(code);
+    saveTranscriptionLanguage(code);
+  };
+
+  // Transcribes the chunks at `indices` and rebuilds the transcript from every
+  // chunk finished so far, so a retry only resends the segments that failed.
+  const runChunks = async (initial: TranscriptionChunk[], indices: number[]) => {
+    const current = [...initial];
+    setChunks(current);
+    setNotice(null);
+    await transcribeChunks(current, chunkBlobsRef.current, indices, (index, update) => {
+      current[index] = { ...current[index], ...update };
+      setChunks([...current]);
+    }, language);
+
+    if (!current.some(chunk => chunk.status === 'done')) {
+      // A failed take leaves the existing transcript alone; otherwise only the
+      // "please wait" text is cleared, so the error never ends up in the deck.
+      if (!takeRef.current) onTranscriptChange('');
+      setNotice({ message: `Error during transcription: ${current.find(chunk => chunk.error)?.error ?? 'Unknown error'}`, fatal: true });
+      return;
+    }
+    applyTranscription(stitchChunks(current));
+  };
+
+  const applyTranscription = (segments: TranscriptSegment[]) => {
+    const take = takeRef.current;
+    if (!take) {
+      onTranscriptSegmentsChange(segments);
+    } else if (take.segments) {
+      const shifted = segments.map(segment => ({ ...segment, start: segment.start + take.offset, end: segment.end + take.offset }));
+      onTranscriptSegmentsChange([...take.segments, ...shifted]);
+    } else {
+      // Takes inserted mid-text, or added to a plain transcript, stay plain text.
+      onTranscriptSegmentsChange(null);
+      onTranscriptChange(insertTake(take.before, transcriptFromSegments(segments), take.after));
+    }
+  };
+
+  const transcribeBlob = async (audioBlob: Blob) => {
+    setIsTranscribing(true);
+    setChunks([]);
+    if (!takeRef.current) {
+      onTranscriptSegmentsChange(null);
+      onTranscriptChange('Transcribing audio with AI, please wait...');
+    }
+    try {
+      const { chunks: planned, blobs } = await splitRecording(audioBlob);
+      chunkBlobsRef.current = blobs;
+      await runChunks(planned, planned.map((_, index) => index));
+    } finally {
+      setIsTranscribing(false);
+      onStopRecording();
+    }
+  };
+
+  const retryFailedChunks = async () => {
+    setIsTranscribing(true);
+    try {
+      const failed = chunks.flatMap((chunk, index) => (chunk.status === 'error' ? [index] : []));
+      await runChunks(chunks, failed);
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
 
   const handleGeminiTranscription = async () => {
     if (audioChunksRef.current.length === 0) {
@@ -99,53 +313,108 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
       return;
     };
 
-    setIsTranscribing(true);
-    onTranscriptChange('Transcribing audio with Gemini AI, please wait...');
-
     const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
     audioChunksRef.current = [];
+    // Hand the recording to the project so it is saved and can be re-transcribed
+    // later. A take is added to the end of the earlier recording.
+    const take = takeRef.current;
+    if (take && recordedAudio) {
+      setIsTranscribing(true);
+      try {
+        const { audio, offset } = await appendRecording(recordedAudio, audioBlob);
+        take.offset = offset;
+        onAudioRecorded(audio);
+      } catch (error) {
+        console.error('Error joining recordings:', error);
+        // Without the earlier audio the existing timings no longer line up.
+        take.segments = null;
+        onAudioRecorded(audioBlob);
+      }
+    } else {
+      if (take) take.segments = null;
+      onAudioRecorded(audioBlob);
+    }
+    transcribeBlob(audioBlob);
+  };
+
+  const retranscribeRecording = (audio: Blob) => {
+    takeRef.current = null;
+    transcribeBlob(audio);
+  };
 
-    const reader = new FileReader();
-    reader.readAsDataURL(audioBlob);
-    reader.onloadend = async () => {
-      const base64Audio = reader.result as string;
+  // Uploaded files go through the same path as a finished recording; videos
+  // are reduced to their soundtrack first.
+  const handleAudioFile = async (file: File) => {
+    takeRef.current = null;
+    setNotice(null);
+    let audio: Blob = file;
+    if (isVideoFile(file)) {
+      setIsTranscribing(true);
+      onTranscriptChange('Extracting audio from the video, please wait...');
       try {
-        const transcribedText = await transcribeAudio(base64Audio, 'audio/webm');
-        onTranscriptChange(transcribedText);
+        audio = await extractAudioTrack(file);
       } catch (error) {
-        console.error(error);
-        const errorMessage = `Error during transcription: ${error instanceof Error ? error.message : 'Unknown error'}`;
-        onTranscriptChange(errorMessage);
-        alert(errorMessage);
-      } finally {
+        console.error('Error extracting audio:', error);
+        onTranscriptChange('');
+        setNotice({ message: `Could not extract audio from "${file.name}". The browser may not support its format.`, fatal: true });
         setIsTranscribing(false);
-        onStopRecording();
+        return;
       }
-    };
-    reader.onerror = (error) => {
-      console.error('FileReader error:', error);
-      const errorMessage = 'Error reading audio file for transcription.';
-      onTranscriptChange(errorMessage);
-      alert(errorMessage);
-      setIsTranscribing(false);
-      onStopRecording();
+    }
+    setRecordingState('stopped');
+    onAudioRecorded(audio);
+    transcribeBlob(audio);
+  };
+
+  // Works out where the next take goes; null when it replaces the transcript.
+  // Timed transcripts have no cursor, so takes are appended to them.
+  const beginTake = (): Take | null => {
+    if (takePlacement === 'replace' || !transcript.trim()) return null;
+    const inserting = takePlacement === 'insert' && !transcriptSegments;
+    const at = inserting ? Math.min(cursorRef.current ?? transcript.length, transcript.length) : transcript.length;
+    return {
+      before: transcript.slice(0, at),
+      after: transcript.slice(at),
+      segments: inserting ? null : transcriptSegments,
+      offset: 0,
     };
   };
 
   const startRecording = async () => {
-    onTranscriptChange('');
+    const take = beginTake();
+    takeRef.current = take;
+    if (!take) {
+      onTranscriptSegmentsChange(null);
+      onTranscriptChange('');
+    } else if (transcriptionMode === 'live') {
+      // Live takes are untimed, so the transcript becomes plain text.
+      onTranscriptSegmentsChange(null);
+    }
     finalTranscriptRef.current = '';
+    setChunks([]);
+    setNotice(null);
+    setElapsedSeconds(0);
     setRecordingState('recording');
 
     if (transcriptionMode === 'live') {
       if (speechRecognitionRef.current) {
+        keepListeningRef.current = true;
+        quickRestartsRef.current = 0;
         try {
-            speechRecognitionRef.current.start();
+            startListening(speechRecognitionRef.current);
         } catch(e) {
             console.error("Error starting speech recognition:", e);
+            keepListeningRef.current = false;
             alert('Could not start live transcription. Please try again.');
             setRecordingState('idle');
+            return;
         }
+        navigator.mediaDevices.getUserMedia({ audio: true })
+          .then(stream => {
+            if (keepListeningRef.current) setInputStream(stream);
+            else stream.getTracks().forEach(track => track.stop());
+          })
+          .catch(error => console.warn("Level meter unavailable:", error));
       } else {
          alert('Live transcription is not available. Try High-Accuracy mode.');
          setRecordingState('idle');
@@ -153,7 +422,10 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     } else {
       // High-Accuracy mode
       try {
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        const stream = await navigator.mediaDevices.getUserMedia({
+          audio: recordingPreferences.deviceId ? { deviceId: recordingPreferences.deviceId } : true,
+        });
+        setInputStream(stream);
         audioChunksRef.current = [];
         const recorder = new MediaRecorder(stream, { mimeType: 'audio/webm' });
         recorder.ondataavailable = (event) => {
@@ -172,11 +444,12 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
 
   const stopRecording = () => {
     if (transcriptionMode === 'live') {
+      keepListeningRef.current = false;
       if (speechRecognitionRef.current) {
         speechRecognitionRef.current.stop();
       }
     } else {
-      if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
+      if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
         mediaRecorderRef.current.stop();
         mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
       }
@@ -185,8 +458,41 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     onStopRecording();
   };
   
+  const pauseRecording = () => {
+    if (transcriptionMode === 'live') {
+      keepListeningRef.current = false;
+      speechRecognitionRef.current?.stop();
+    } else {
+      mediaRecorderRef.current?.pause();
+    }
+    setRecordingState('paused');
+  };
+
+  const resumeRecording = () => {
+    if (transcriptionMode === 'live' && speechRecognitionRef.current) {
+      keepListeningRef.current = true;
+      quickRestartsRef.current = 0;
+      try {
+        startListening(speechRecognitionRef.current);
+      } catch (e) {
+        // A session still winding down after the pause is restarted by onend.
+        if (!(e instanceof DOMException && e.name === 'InvalidStateError')) {
+          console.error("Error resuming speech recognition:", e);
+          keepListeningRef.current = false;
+          alert('Could not resume live transcription. Please try again.');
+          return;
+        }
+      }
+    } else {
+      mediaRecorderRef.current?.resume();
+    }
+    setRecordingState('recording');
+  };
+
+  const isCapturing = recordingState === 'recording' || recordingState === 'paused';
+
   const handleRecordClick = () => {
-    if (recordingState === 'recording') {
+    if (isCapturing) {
       stopRecording();
     } else {
       startRecording();
@@ -198,20 +504,29 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
   return (
     <div className="flex flex-col h-full">
       <h2 className="text-2xl font-semibold mb-4 text-gray-200">1. Input Your Content</h2>
-      <div className="flex justify-center items-center mb-2">
+      <div className="relative flex justify-center items-center mb-2">
         <button
           onClick={handleRecordClick}
           disabled={isBusy}
           title='Start/Stop Recording'
           className={`relative w-24 h-24 rounded-full flex justify-center items-center transition-all duration-300 ease-in-out focus:outline-none focus:ring-4 focus:ring-offset-2 focus:ring-offset-gray-800
-            ${recordingState === 'recording' ? 'bg-gradient-to-br from-red-500 to-pink-600 hover:from-red-600 hover:to-pink-700 focus:ring-red-400 shadow-[0_0_15px_rgba(239,68,68,0.4)]' : 'bg-gradient-to-br from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700 focus:ring-cyan-400 shadow-[0_0_15px_rgba(0,255,255,0.3)]'}
+            ${isCapturing ? 'bg-gradient-to-br from-red-500 to-pink-600 hover:from-red-600 hover:to-pink-700 focus:ring-red-400 shadow-[0_0_15px_rgba(239,68,68,0.4)]' : 'bg-gradient-to-br from-cyan-500 to-blue-600 hover:from-cyan-600 hover:to-blue-700 focus:ring-cyan-400 shadow-[0_0_15px_rgba(0,255,255,0.3)]'}
             ${isBusy ? 'cursor-not-allowed opacity-50' : ''}`}
         >
           {recordingState === 'recording' && (
             <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
           )}
-          {recordingState === 'recording' ? <StopIcon /> : <MicrophoneIcon />}
+          {isCapturing ? <StopIcon /> : <MicrophoneIcon />}
         </button>
+        {isCapturing && (
+          <button
+            onClick={recordingState === 'paused' ? resumeRecording : pauseRecording}
+            className="absolute right-4 px-3 py-1 rounded-full text-sm bg-gray-700 hover:bg-gray-600 text-gray-200"
+            title={recordingState === 'paused' ? 'Resume recording' : 'Pause recording'}
+          >
+            {recordingState === 'paused' ? '▶ Resume' : '⏸ Pause'}
+          </button>
+        )}
       </div>
 
       {/* Transcription Mode Toggle */}
@@ -220,7 +535,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
           <span className={`text-sm font-medium ${transcriptionMode === 'live' ? 'text-cyan-400' : 'text-gray-400'}`}>Live</span>
           <button
               onClick={() => setTranscriptionMode(prev => prev === 'live' ? 'high-accuracy' : 'live')}
-              disabled={isBusy || recordingState === 'recording' || !isLiveTranscriptionSupported}
+              disabled={isBusy || isCapturing || !isLiveTranscriptionSupported}
               className="relative inline-flex items-center h-6 rounded-full w-11 transition-colors duration-300 ease-in-out focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed"
               title={isLiveTranscriptionSupported ? 'Toggle transcription mode' : 'Live transcription not supported on this browser'}
           >
@@ -232,9 +547,73 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
         {!isLiveTranscriptionSupported && (
             <p className="text-xs text-gray-500 mt-2">Live mode not supported by your browser.</p>
         )}
+        <label className="mt-2 flex items-center gap-2 text-xs text-gray-400">
+          Spoken language
+          <select
+            value={language}
+            onChange={(e) => handleLanguageChange(e.target.value)}
+            disabled={isBusy || isCapturing}
+            className={selectClassName}
+          >
+            {TRANSCRIPTION_LANGUAGES.map(candidate => <option key={candidate.code} value={candidate.code}>{candidate.label}</option>)}
+          </select>
+        </label>
+        <div className="mt-2 flex items-center gap-3 text-xs text-gray-400">
+          <label className="flex items-center gap-2">
+            Mic
+            <select
+              value={recordingPreferences.deviceId}
+              onChange={(e) => updateRecordingPreferences({ deviceId: e.target.value })}
+              disabled={isBusy || isCapturing || transcriptionMode === 'live'}
+              title={transcriptionMode === 'live' ? 'Live transcription always uses the system default microphone' : undefined}
+              className={`${selectClassName} max-w-[9rem]`}
+            >
+              <option value="">System default</option>
+              {microphones.map((device, index) => (
+                <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${index + 1}`}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Auto-stop
+            <select
+              value={recordingPreferences.silenceStopSeconds}
+              onChange={(e) => updateRecordingPreferences({ silenceStopSeconds: Number(e.target.value) })}
+              disabled={isBusy || isCapturing}
+              className={selectClassName}
+            >
+              {SILENCE_STOP_CHOICES.map(seconds => (
+                <option key={seconds} value={seconds}>{seconds === 0 ? 'Off' : `After ${seconds} s of silence`}</option>
+              ))}
+            </select>
+          </label>
+        </div>
       </div>
 
 
+      {transcript.trim() && !isCapturing && (
+        <div className="flex items-center justify-center gap-2 mb-4 text-xs text-gray-400">
+          <span>Next recording:</span>
+          <div className="flex rounded-md border border-gray-700 overflow-hidden">
+            {TAKE_PLACEMENTS.map(placement => (
+              <button
+                key={placement.id}
+                onClick={() => setTakePlacement(placement.id)}
+                disabled={isBusy || (placement.id === 'insert' && !!transcriptSegments)}
+                title={placement.id === 'insert' && transcriptSegments ? 'Edit the transcript as plain text to insert at the cursor' : undefined}
+                className={`px-2 py-1 disabled:opacity-50 disabled:cursor-not-allowed ${takePlacement === placement.id ? 'bg-cyan-600 text-white' : 'hover:bg-gray-700'}`}
+              >
+                {placement.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!isCapturing && (
+        <AudioFileDropZone onFileAccepted={handleAudioFile} disabled={isBusy} />
+      )}
+
       <p className="text-center text-gray-400 mb-4 min-h-[24px]">
         {isTranscribing ? (
           <span className="flex items-center justify-center text-yellow-400">
@@ -244,29 +623,80 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
           'Click the microphone to start recording'
         ) : recordingState === 'recording' ? (
           'Recording... Click to stop'
+        ) : recordingState === 'paused' ? (
+          'Paused. Resume, or click to stop'
         ) : (
           'Recording finished. Review transcript below.'
         )}
       </p>
 
-      <div className="flex-grow flex flex-col">
-        <label htmlFor="transcript" className="mb-2 font-medium text-gray-300">
-          Speech Transcript
-        </label>
-        <textarea
-          id="transcript"
-          value={transcript}
-          onChange={(e) => onTranscriptChange(e.target.value)}
-          placeholder={
-            transcriptionMode === 'live'
-              ? 'Your live transcript will appear here as you speak.'
-              : 'Record your audio first. Your transcript will appear here after you stop.'
-          }
-          className="w-full p-3 bg-black/20 border border-gray-700 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition duration-200 resize-none text-gray-200"
-          rows={8}
+      {isCapturing && (
+        <div className="mb-4">
+          <div className="mb-1 flex justify-between items-center text-xs text-gray-400">
+            <span className="font-mono text-sm text-gray-200" aria-label="Elapsed recording time">{formatDuration(elapsedSeconds)}</span>
+            {recordingPreferences.silenceStopSeconds > 0 && (
+              <span>Stops after {recordingPreferences.silenceStopSeconds} s of silence</span>
+            )}
+          </div>
+          <AudioLevelMeter analyser={analyser} paused={recordingState === 'paused'} />
+          {isQuietStart && (
+            <p className="mt-1 text-xs text-yellow-400" role="alert">
+              Almost no sound is coming in. Check that the right microphone is selected and not muted.
+            </p>
+          )}
+        </div>
+      )}
+
+      {notice && (
+        <p className={`-mt-2 mb-4 text-center text-xs ${notice.fatal ? 'text-red-400' : 'text-yellow-400'}`} role="alert">
+          {notice.message}
+        </p>
+      )}
+
+      {chunks.length > 0 && (
+        <TranscriptionProgress chunks={chunks} isTranscribing={isTranscribing} onRetryFailed={retryFailedChunks} />
+      )}
+
+      {recordedAudio && !isCapturing && (
+        <button
+          onClick={() => retranscribeRecording(recordedAudio)}
           disabled={isBusy}
+          className="mb-4 text-sm text-purple-300 hover:text-purple-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Send the saved recording through transcription again"
+        >
+          ↻ Re-transcribe saved recording
+        </button>
+      )}
+
+      {transcriptSegments ? (
+        <TranscriptEditor
+          segments={transcriptSegments}
+          audio={recordedAudio}
+          onSegmentsChange={onTranscriptSegmentsChange}
+          onEditAsPlainText={() => onTranscriptSegmentsChange(null)}
+          disabled={isBusy || isCapturing}
         />
-      </div>
+      ) : (
+        <div className="flex-grow flex flex-col">
+          <label htmlFor="transcript" className="mb-2 font-medium text-gray-300">
+            Speech Transcript
+          </label>
+          <textarea
+            id="transcript"
+            value={transcript}
+            onChange={(e) => onTranscriptChange(e.target.value)}
+            onSelect={(e) => { cursorRef.current = e.currentTarget.selectionStart; }}
+            placeholder={
+              transcriptionMode === 'live'
+                ? 'Your live transcript will appear here as you speak.'
+                : 'Record your audio first. Your transcript will appear here after you stop.'
+            }
+            className="w-full p-3 bg-black/20 border border-gray-700 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition duration-200 resize-none text-gray-200"
+            rows={8}
+            disabled={isBusy || isCapturing}
+          />
+        </div>
+      )}
 
       <ImageUploader 
         images={images}
@@ -274,10 +704,27 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
         disabled={isBusy}
       />
 
+      <GenerationSettings
+        options={generationOptions}
+        onOptionsChange={onGenerationOptionsChange}
+        disabled={isBusy}
+      />
+
+      <label className="mt-4 flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={outlineFirst}
+          onChange={(e) => onOutlineFirstChange(e.target.checked)}
+          disabled={isBusy}
+          className="accent-cyan-500"
+        />
+        Review an outline before writing slides
+      </label>
+
       <button
         onClick={onGenerate}
         disabled={isBusy || (!transcript.trim() && images.length === 0)}
-        className="w-full mt-6 bg-gradient-to-r from-cyan-500 to-purple-600 hover:from-cyan-600 hover:to-purple-700 text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-105 shadow-[0_0_15px_rgba(0,255,255,0.2)]"
+        className="w-full mt-4 bg-gradient-to-r from-cyan-500 to-purple-600 hover:from-cyan-600 hover:to-purple-700 text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-105 shadow-[0_0_15px_rgba(0,255,255,0.2)]"
       >
         {isLoading ? (
           <>
@@ -285,7 +732,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
             Generating...
           </>
         ) : (
-          '✨ Generate Presentation'
+          outlineFirst ? '✨ Draft Outline' : '✨ Generate Presentation'
         )}
       </button>
     </div>
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import type { BulletDensity, GenerationOptions, GenerationTone } from '../types';
+import { BULLET_DENSITIES, GENERATION_TONES, MAX_SLIDE_COUNT, MIN_SLIDE_COUNT, normalizeGenerationOptions } from '../services/generationOptions';
+
+interface GenerationSettingsProps {
+  options: GenerationOptions;
+  onOptionsChange: (options: GenerationOptions) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = "w-full p-2 bg-black/20 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-gray-200 disabled:opacity-50";
+
+const LANGUAGE_SUGGESTIONS = ['English', 'Spanish', 'French', 'German', 'Portuguese', 'Italian', 'Dutch', 'Japanese', 'Chinese', 'Korean', 'Hindi', 'Arabic'];
+
+const GenerationSettings: React.FC<GenerationSettingsProps> = ({ options, onOptionsChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const tone = GENERATION_TONES.find(candidate => candidate.id === options.tone);
+
+  const update = (changes: Partial<GenerationOptions>) => {
+    onOptionsChange(normalizeGenerationOptions({ ...options, ...changes }));
+  };
+
+  // Keeps the range valid while either end is being edited.
+  const updateRange = (field: 'minSlides' | 'maxSlides', value: number) => {
+    if (!Number.isFinite(value)) return;
+    const next = { ...options, [field]: value };
+    if (field === 'minSlides' && next.maxSlides < value) next.maxSlides = value;
+    if (field === 'maxSlides' && next.minSlides > value) next.minSlides = value;
+    onOptionsChange(normalizeGenerationOptions(next));
+  };
+
+  return (
+    <div className="mt-4 border border-gray-700 rounded-lg bg-black/20">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex justify-between items-center px-3 py-2 text-sm text-gray-300 hover:text-cyan-400 transition-colors"
+        aria-expanded={isOpen}
+      >
+        <span>
+          🎛 {tone?.label} · <span className="text-gray-400">{options.minSlides === options.maxSlides ? options.minSlides : `${options.minSlides}–${options.maxSlides}`} slides{options.language.trim() && ` · ${options.language.trim()}`}</span>
+        </span>
+        <span>{isOpen ? '▴' : '▾'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-2">
+          <label className="block text-xs text-gray-400">
+            Audience
+            <input
+              type="text"
+              value={options.audience}
+              onChange={(e) => update({ audience: e.target.value })}
+              placeholder="e.g. new hires, board of directors"
+              disabled={disabled}
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <div className="flex gap-2">
+            <label className="block flex-1 text-xs text-gray-400">
+              Tone
+              <select
+                value={options.tone}
+                onChange={(e) => update({ tone: e.target.value as GenerationTone })}
+                disabled={disabled}
+                className={`${inputClassName} mt-1`}
+              >
+                {GENERATION_TONES.map(candidate => <option key={candidate.id} value={candidate.id}>{candidate.label}</option>)}
+              </select>
+            </label>
+            <label className="block flex-1 text-xs text-gray-400">
+              Bullets
+              <select
+                value={options.bulletDensity}
+                onChange={(e) => update({ bulletDensity: e.target.value as BulletDensity })}
+                disabled={disabled}
+                className={`${inputClassName} mt-1`}
+              >
+                {BULLET_DENSITIES.map(density => <option key={density.id} value={density.id}>{density.label}</option>)}
+              </select>
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <label className="block flex-1 text-xs text-gray-400">
+              Min slides
+              <input
+                type="number"
+                min={MIN_SLIDE_COUNT}
+                max={MAX_SLIDE_COUNT}
+                value={options.minSlides}
+                onChange={(e) => updateRange('minSlides', e.target.valueAsNumber)}
+                disabled={disabled}
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <label className="block flex-1 text-xs text-gray-400">
+              Max slides
+              <input
+                type="number"
+                min={MIN_SLIDE_COUNT}
+                max={MAX_SLIDE_COUNT}
+                value={options.maxSlides}
+                onChange={(e) => updateRange('maxSlides', e.target.valueAsNumber)}
+                disabled={disabled}
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+          </div>
+          <label className="block text-xs text-gray-400">
+            Output language
+            <input
+              type="text"
+              list="generation-languages"
+              value={options.language}
+              onChange={(e) => update({ language: e.target.value })}
+              placeholder="Same as the transcript"
+              disabled={disabled}
+              className={`${inputClassName} mt-1`}
+            />
+            <datalist id="generation-languages">
+              {LANGUAGE_SUGGESTIONS.map(language => <option key={language} value={language} />)}
+            </datalist>
+          </label>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-300">
+            {([
+              ['includeTitleSlide', 'Title slide'],
+              ['includeAgenda', 'Agenda'],
+              ['includeSummary', 'Summary'],
+            ] as const).map(([field, label]) => (
+              <label key={field} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={options[field]}
+                  onChange={(e) => update({ [field]: e.target.checked })}
+                  disabled={disabled}
+                  className="accent-cyan-500"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <label className="block text-xs text-gray-400">
+            Creativity ({options.temperature.toFixed(1)})
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.1}
+              value={options.temperature}
+              onChange={(e) => update({ temperature: e.target.valueAsNumber })}
+              disabled={disabled}
+              className="w-full mt-1 accent-cyan-500"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationSettings;
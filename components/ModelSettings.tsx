@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import type { AiProviderId, AiProviderSettings } from '../types';
+import { AI_PROVIDERS, defaultProviderSettings, getProviderDefinition } from '../services/aiService';
+
+interface ModelSettingsProps {
+  settings: AiProviderSettings;
+  onSettingsChange: (settings: AiProviderSettings) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = "w-full p-2 bg-black/20 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-gray-200 disabled:opacity-50";
+
+const ModelSettings: React.FC<ModelSettingsProps> = ({ settings, onSettingsChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const definition = getProviderDefinition(settings.providerId);
+
+  const handleProviderChange = (providerId: AiProviderId) => {
+    onSettingsChange(defaultProviderSettings(providerId));
+  };
+
+  const update = (changes: Partial<AiProviderSettings>) => {
+    onSettingsChange({ ...settings, ...changes });
+  };
+
+  return (
+    <div className="mb-4 border border-gray-700 rounded-lg bg-black/20">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex justify-between items-center px-3 py-2 text-sm text-gray-300 hover:text-cyan-400 transition-colors"
+        aria-expanded={isOpen}
+      >
+        <span>⚙ {definition.label} · <span className="text-gray-400">{settings.model}</span></span>
+        <span>{isOpen ? '▴' : '▾'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-2">
+          <label className="block text-xs text-gray-400">
+            Provider
+            <select
+              value={settings.providerId}
+              onChange={(e) => handleProviderChange(e.target.value as AiProviderId)}
+              disabled={disabled}
+              className={`${inputClassName} mt-1`}
+            >
+              {AI_PROVIDERS.map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-xs text-gray-400">
+            Model
+            <input
+              type="text"
+              value={settings.model}
+              onChange={(e) => update({ model: e.target.value })}
+              placeholder={definition.defaultModel}
+              disabled={disabled || settings.providerId === 'mock'}
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          {definition.needsBaseUrl && (
+            <label className="block text-xs text-gray-400">
+              Endpoint URL
+              <input
+                type="url"
+                value={settings.baseUrl}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                disabled={disabled}
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+          )}
+          {settings.providerId !== 'mock' && (
+            <label className="block text-xs text-gray-400">
+              API key {settings.providerId === 'gemini' && '(optional, overrides VITE_API_KEY)'}
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                autoComplete="off"
+                disabled={disabled}
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelSettings;
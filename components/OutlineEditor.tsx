@@ -0,0 +1,140 @@
+import React from 'react';
+import type { Outline, OutlineEntry, UploadedImage } from '../types';
+import { SLIDE_LAYOUTS, isSlideLayout } from '../utils/slideLayouts';
+
+interface OutlineEditorProps {
+  outline: Outline;
+  images: UploadedImage[];
+  onOutlineChange: (outline: Outline) => void;
+  onGenerate: () => void;
+  onDiscard: () => void;
+}
+
+const fieldClassName = "p-2 bg-black/20 border border-gray-700 rounded-lg text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+const iconButtonClassName = "w-7 h-7 rounded-md bg-white/10 hover:bg-white/20 text-gray-300 text-xs disabled:opacity-30 disabled:cursor-not-allowed";
+
+// First stage of outline-first generation: the user shapes the deck's
+// structure here before the slides themselves are written.
+const OutlineEditor: React.FC<OutlineEditorProps> = ({ outline, images, onOutlineChange, onGenerate, onDiscard }) => {
+  const updateEntry = (index: number, changes: Partial<OutlineEntry>) => {
+    onOutlineChange(outline.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  const moveEntry = (from: number, to: number) => {
+    if (to < 0 || to >= outline.length) return;
+    const next = [...outline];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onOutlineChange(next);
+  };
+
+  const handleLayoutChange = (index: number, value: string) => {
+    const { layout: _previous, ...entry } = outline[index];
+    onOutlineChange(outline.map((existing, i) => (i === index ? (isSlideLayout(value) ? { ...entry, layout: value } : entry) : existing)));
+  };
+
+  const handleImageChange = (index: number, value: string) => {
+    const { imagePlaceholder: _previous, ...entry } = outline[index];
+    onOutlineChange(outline.map((existing, i) => (i === index ? (value ? { ...entry, imagePlaceholder: value } : entry) : existing)));
+  };
+
+  const hasUntitled = outline.some(entry => !entry.title.trim());
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="mb-4">
+        <h2 className="text-2xl font-semibold text-gray-200">Review the outline</h2>
+        <p className="text-gray-400 text-sm">Rename, reorder, add or drop slides, then generate the full deck from this structure.</p>
+      </div>
+
+      <ol className="flex-1 overflow-y-auto space-y-3 pr-1">
+        {outline.map((entry, index) => (
+          <li key={index} className="flex gap-3 items-start p-3 bg-black/20 border border-gray-700 rounded-lg">
+            <span className="w-6 pt-2 text-right text-gray-500 font-mono">{index + 1}.</span>
+            <div className="flex-1 flex flex-col gap-2">
+              <input
+                type="text"
+                value={entry.title}
+                onChange={(e) => updateEntry(index, { title: e.target.value })}
+                placeholder="Slide title"
+                aria-label={`Title of slide ${index + 1}`}
+                className={`font-semibold ${fieldClassName}`}
+              />
+              <input
+                type="text"
+                value={entry.intent}
+                onChange={(e) => updateEntry(index, { intent: e.target.value })}
+                placeholder="What should this slide get across?"
+                aria-label={`Intent of slide ${index + 1}`}
+                className={fieldClassName}
+              />
+              <div className="flex gap-2">
+                <select
+                  value={entry.layout ?? ''}
+                  onChange={(e) => handleLayoutChange(index, e.target.value)}
+                  aria-label={`Layout of slide ${index + 1}`}
+                  className={fieldClassName}
+                >
+                  <option value="">Any layout</option>
+                  {SLIDE_LAYOUTS.map(layout => <option key={layout.id} value={layout.id}>{layout.label}</option>)}
+                </select>
+                {images.length > 0 && (
+                  <select
+                    value={entry.imagePlaceholder ?? ''}
+                    onChange={(e) => handleImageChange(index, e.target.value)}
+                    aria-label={`Image for slide ${index + 1}`}
+                    className={fieldClassName}
+                  >
+                    <option value="">No image</option>
+                    {images.map((image, i) => (
+                      <option key={i} value={`IMAGE_${i + 1}`}>IMAGE_{i + 1}: {image.file.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+            <div className="flex flex-col gap-1">
+              <button onClick={() => moveEntry(index, index - 1)} disabled={index === 0} className={iconButtonClassName} title="Move up" aria-label="Move up">↑</button>
+              <button onClick={() => moveEntry(index, index + 1)} disabled={index === outline.length - 1} className={iconButtonClassName} title="Move down" aria-label="Move down">↓</button>
+              <button
+                onClick={() => onOutlineChange(outline.filter((_, i) => i !== index))}
+                disabled={outline.length <= 1}
+                className={`${iconButtonClassName} hover:bg-red-600`}
+                title="Drop this slide"
+                aria-label="Drop this slide"
+              >
+                ✕
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <button
+        onClick={() => onOutlineChange([...outline, { title: 'New Slide', intent: '' }])}
+        className="mt-3 py-2 rounded-lg border border-dashed border-gray-600 text-gray-400 hover:text-gray-200 hover:border-gray-400 text-sm"
+      >
+        + Add slide
+      </button>
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          onClick={onDiscard}
+          className="py-2 px-4 rounded-lg bg-white/10 hover:bg-white/20 text-gray-300"
+        >
+          Discard outline
+        </button>
+        <button
+          onClick={onGenerate}
+          disabled={hasUntitled}
+          title={hasUntitled ? 'Every slide needs a title' : undefined}
+          className="bg-gradient-to-r from-cyan-500 to-purple-600 hover:from-cyan-600 hover:to-purple-700 text-white font-bold py-2 px-4 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          ✨ Generate {outline.length} {outline.length === 1 ? 'slide' : 'slides'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OutlineEditor;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import type { PdfExportOptions, PdfLayout } from '../services/pdfExporter';
+import { DEFAULT_PDF_EXPORT_OPTIONS, HANDOUT_SLIDES_PER_PAGE, PDF_LAYOUTS } from '../services/pdfExporter';
+import LoadingSpinner from '../icons/LoadingSpinner';
+
+interface PdfExportPanelProps {
+  isExporting: boolean;
+  onExport: (options: PdfExportOptions) => void;
+  onClose: () => void;
+}
+
+const selectClassName = "p-2 bg-black/20 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-gray-200 disabled:opacity-50";
+
+const PdfExportPanel: React.FC<PdfExportPanelProps> = ({ isExporting, onExport, onClose }) => {
+  const [options, setOptions] = useState<PdfExportOptions>(DEFAULT_PDF_EXPORT_OPTIONS);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onExport(options);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-4 p-3 bg-black/20 border border-cyan-500/40 rounded-lg flex flex-wrap items-center gap-3 text-sm text-gray-300">
+      <label className="flex items-center gap-2">
+        Layout
+        <select
+          value={options.layout}
+          onChange={(e) => setOptions(prev => ({ ...prev, layout: e.target.value as PdfLayout }))}
+          disabled={isExporting}
+          className={selectClassName}
+        >
+          {PDF_LAYOUTS.map(layout => <option key={layout.id} value={layout.id}>{layout.label}</option>)}
+        </select>
+      </label>
+      {options.layout === 'handout' && (
+        <label className="flex items-center gap-2">
+          Slides per page
+          <select
+            value={options.slidesPerPage}
+            onChange={(e) => setOptions(prev => ({ ...prev, slidesPerPage: Number(e.target.value) }))}
+            disabled={isExporting}
+            className={selectClassName}
+          >
+            {HANDOUT_SLIDES_PER_PAGE.map(count => <option key={count} value={count}>{count}</option>)}
+          </select>
+        </label>
+      )}
+      {options.layout !== 'slides' && (
+        <label className="flex items-center gap-2">
+          Paper
+          <select
+            value={options.paperSize}
+            onChange={(e) => setOptions(prev => ({ ...prev, paperSize: e.target.value as PdfExportOptions['paperSize'] }))}
+            disabled={isExporting}
+            className={selectClassName}
+          >
+            <option value="a4">A4</option>
+            <option value="letter">Letter</option>
+          </select>
+        </label>
+      )}
+      <div className="flex gap-2 ml-auto">
+        <button
+          type="submit"
+          disabled={isExporting}
+          className="bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-4 rounded-md flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isExporting ? (
+            <>
+              <LoadingSpinner />
+              Exporting...
+            </>
+          ) : (
+            'Export PDF'
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isExporting}
+          className="py-2 px-3 rounded-md bg-white/10 hover:bg-white/20 text-gray-300 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PdfExportPanel;
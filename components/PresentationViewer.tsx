@@ -1,12 +1,25 @@
 import React, { useState } from 'react';
-import type { Presentation, UploadedImage, Slide } from '../types';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
-import { createRoot } from 'react-dom/client';
+import type { Presentation, UploadedImage, Slide, Theme } from '../types';
+import { exportPresentationToPptx } from '../services/pptxExporter';
+import { exportPresentationToPdf, PdfExportOptions, PdfFontError } from '../services/pdfExporter';
+import { exportPresentationToHtml } from '../services/htmlExporter';
+import { presentationToMarkdown } from '../services/markdownDeck';
+import { exportContactSheet, exportSlideImage, exportSlideImagesZip, slideImageFileName, SlideImageOptions } from '../services/imageExporter';
+import { downloadBlob } from '../utils/download';
+import { fontStack, themeBackground } from '../utils/themeStyles';
 import ChevronLeftIcon from '../icons/ChevronLeftIcon';
 import ChevronRightIcon from '../icons/ChevronRightIcon';
 import DownloadIcon from '../icons/DownloadIcon';
 import LoadingSpinner from '../icons/LoadingSpinner';
+import PencilIcon from '../icons/PencilIcon';
+import UndoIcon from '../icons/UndoIcon';
+import RedoIcon from '../icons/RedoIcon';
+import SlideContent from './SlideContent';
+import SlideEditor from './SlideEditor';
+import SlideRewritePanel from './SlideRewritePanel';
+import SlideVisualsPanel from './SlideVisualsPanel';
+import PdfExportPanel from './PdfExportPanel';
+import SlideImageExportPanel from './SlideImageExportPanel';
 
 interface PresentationViewerProps {
   presentation: Presentation;
@@ -14,128 +27,143 @@ interface PresentationViewerProps {
   onNextSlide: () => void;
   onPrevSlide: () => void;
   images: UploadedImage[];
+  theme: Theme;
+  onImagesChange: (images: UploadedImage[]) => void;
+  onSlideChange: (index: number, slide: Slide, coalesceKey?: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onRewriteSlide: (index: number, instruction: string) => Promise<boolean>;
+  isRewriting: boolean;
+  // Both add the picture to the slide at `index` and resolve to whether they
+  // did; failures are reported by the app.
+  onGenerateSlideImage: (index: number, prompt: string) => Promise<boolean>;
+  onPickSlideImage: (index: number, dataUrl: string, description: string) => Promise<boolean>;
+  isGeneratingImage: boolean;
+  onPresent: () => void;
+  // True while slides are still streaming in; editing and exports wait for it.
+  isGenerating: boolean;
+  onCancelGeneration: () => void;
 }
 
-// A component that renders the visual content of a single slide.
-// This is shared between the on-screen viewer and the PDF generator.
-const SlideContent: React.FC<{ slide: Slide; images: UploadedImage[] }> = ({ slide, images }) => {
-  let slideImage: UploadedImage | undefined;
-  if (slide.imagePlaceholder) {
-    const match = slide.imagePlaceholder.match(/IMAGE_(\d+)/);
-    if (match) {
-      const imageIndex = parseInt(match[1], 10) - 1;
-      if (imageIndex >= 0 && imageIndex < images.length) {
-        slideImage = images[imageIndex];
-      }
-    }
-  }
-
-  return (
-    <>
-      <h3 className="text-4xl font-bold text-center mb-8 text-transparent bg-clip-text bg-gradient-to-r from-cyan-300 to-purple-400">{slide.title}</h3>
-      
-      {slideImage && (
-        <div className="mb-8 w-full max-w-lg mx-auto">
-          <img 
-            src={slideImage.base64} 
-            alt={slideImage.description || `Slide image`} 
-            className="w-full h-auto object-contain rounded-lg shadow-lg"
-            style={{ maxHeight: '40vh' }}
-          />
-        </div>
-      )}
-      
-      <div className="flex-grow space-y-6 px-8">
-        {slide.content.map((point, index) => (
-          <div key={index} className="flex items-start">
-            <span className="text-cyan-400 mr-4 mt-2 text-2xl">•</span>
-            <p className="text-gray-200 text-2xl flex-1 leading-relaxed">{point}</p>
-          </div>
-        ))}
-      </div>
-      
-      {slide.speakerNotes && (
-        <div className="mt-6 pt-4 border-t border-white/10">
-          <h4 className="font-semibold text-gray-400 mb-2">Speaker Notes:</h4>
-          <p className="text-gray-300 italic">{slide.speakerNotes}</p>
-        </div>
-      )}
-    </>
-  );
-};
-
-// A wrapper component specifically for rendering slides off-screen for PDF capture.
-const PrintableSlide: React.FC<{ slide: Slide; images: UploadedImage[] }> = ({ slide, images }) => {
-  return (
-    <div className="w-full h-full p-12 border border-cyan-500/20 flex flex-col relative text-gray-200 font-sans overflow-hidden" style={{background: "linear-gradient(135deg, #0f172a 0%, #1e293b 100%)"}}>
-      <SlideContent slide={slide} images={images} />
-    </div>
-  );
-};
-
 const PresentationViewer: React.FC<PresentationViewerProps> = ({
   presentation,
-  currentSlide,
+  currentSlide: requestedSlide,
   onNextSlide,
   onPrevSlide,
   images,
+  theme,
+  onImagesChange,
+  onSlideChange,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  onRewriteSlide,
+  isRewriting,
+  onGenerateSlideImage,
+  onPickSlideImage,
+  isGeneratingImage,
+  onPresent,
+  isGenerating,
+  onCancelGeneration,
 }) => {
+  // The app pulls its cursor back into range after the deck shrinks (e.g. on
+  // undo) one render late; until then the last slide is shown.
+  const currentSlide = Math.max(0, Math.min(requestedSlide, presentation.length - 1));
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isRewriteOpen, setIsRewriteOpen] = useState(false);
+  const [isPdfPanelOpen, setIsPdfPanelOpen] = useState(false);
+  const [isImagePanelOpen, setIsImagePanelOpen] = useState(false);
+  const [isVisualsOpen, setIsVisualsOpen] = useState(false);
 
-  const handleDownloadPdf = async () => {
-    setIsDownloading(true);
-    
-    const pdfWidth = 1280;
-    const pdfHeight = 720;
-    
-    const pdf = new jsPDF({
-      orientation: 'landscape',
-      unit: 'px',
-      format: [pdfWidth, pdfHeight],
-    });
-
-    const captureContainer = document.createElement('div');
-    captureContainer.style.position = 'absolute';
-    captureContainer.style.left = '-9999px';
-    captureContainer.style.width = `${pdfWidth}px`;
-    captureContainer.style.height = `${pdfHeight}px`;
-    captureContainer.style.fontFamily = "'Poppins', sans-serif";
-    document.body.appendChild(captureContainer);
-    
-    const captureRoot = createRoot(captureContainer);
+  const handleRewrite = async (instruction: string) => {
+    const succeeded = await onRewriteSlide(currentSlide, instruction);
+    if (succeeded) setIsRewriteOpen(false);
+  };
+
+  const handleGenerateVisual = async (prompt: string) => {
+    if (await onGenerateSlideImage(currentSlide, prompt)) setIsVisualsOpen(false);
+  };
+
+  const handlePickVisual = async (dataUrl: string, description: string) => {
+    if (await onPickSlideImage(currentSlide, dataUrl, description)) setIsVisualsOpen(false);
+  };
+
+  const handleImagePromptChange = (prompt: string) => {
+    const { imagePrompt: _removed, ...rest } = presentation[currentSlide];
+    onSlideChange(currentSlide, prompt ? { ...rest, imagePrompt: prompt } : rest, `slide-${currentSlide}-image-prompt`);
+  };
+
+  const [isExportingPptx, setIsExportingPptx] = useState(false);
+
+  const handleDownloadPptx = async () => {
+    setIsExportingPptx(true);
+    try {
+      const blob = await exportPresentationToPptx(presentation, images, theme);
+      downloadBlob(blob, 'presentation.pptx');
+    } catch (error) {
+      console.error("Failed to generate PPTX:", error);
+      alert("Sorry, there was an error creating the PowerPoint file.");
+    } finally {
+      setIsExportingPptx(false);
+    }
+  };
+
+  const [isExportingHtml, setIsExportingHtml] = useState(false);
+
+  const handleDownloadHtml = async () => {
+    setIsExportingHtml(true);
+    try {
+      const blob = await exportPresentationToHtml(presentation, images, theme);
+      downloadBlob(blob, 'presentation.html');
+    } catch (error) {
+      console.error("Failed to generate HTML:", error);
+      alert("Sorry, there was an error creating the HTML file.");
+    } finally {
+      setIsExportingHtml(false);
+    }
+  };
 
+  const handleDownloadMarkdown = () => {
+    downloadBlob(new Blob([presentationToMarkdown(presentation, images)], { type: 'text/markdown' }), 'presentation.md');
+  };
+
+  const [isExportingImages, setIsExportingImages] = useState(false);
+
+  const handleExportImages = async ({ target, format, width }: SlideImageOptions) => {
+    setIsExportingImages(true);
     try {
-      for (let i = 0; i < presentation.length; i++) {
-        const slide = presentation[i];
-        
-        captureRoot.render(<PrintableSlide slide={slide} images={images} />);
-        
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        const canvas = await html2canvas(captureContainer, {
-            scale: 2,
-            useCORS: true,
-            backgroundColor: "#0f172a",
-        });
-        
-        const imgData = canvas.toDataURL('image/png');
-        
-        if (i > 0) {
-          pdf.addPage([pdfWidth, pdfHeight], 'landscape');
-        }
-        
-        pdf.addImage(imgData, 'PNG', 0, 0, pdfWidth, pdfHeight);
+      if (target === 'current') {
+        const blob = await exportSlideImage(presentation, currentSlide, images, theme, format, width);
+        downloadBlob(blob, slideImageFileName(currentSlide, presentation.length, format));
+      } else if (target === 'all') {
+        downloadBlob(await exportSlideImagesZip(presentation, images, theme, format, width), `presentation-${format}.zip`);
+      } else {
+        downloadBlob(await exportContactSheet(presentation, images, theme, width), 'presentation-contact-sheet.png');
       }
-      
-      pdf.save('presentation.pdf');
+      setIsImagePanelOpen(false);
+    } catch (error) {
+      console.error("Failed to export slide images:", error);
+      alert("Sorry, there was an error creating the images.");
+    } finally {
+      setIsExportingImages(false);
+    }
+  };
 
+  const handleDownloadPdf = async (options: PdfExportOptions) => {
+    setIsDownloading(true);
+    try {
+      const blob = await exportPresentationToPdf(presentation, images, theme, options);
+      downloadBlob(blob, options.layout === 'slides' ? 'presentation.pdf' : `presentation-${options.layout}.pdf`);
+      setIsPdfPanelOpen(false);
     } catch (error) {
-        console.error("Failed to generate PDF:", error);
-        alert("Sorry, there was an error creating the PDF.");
+      console.error("Failed to generate PDF:", error);
+      alert(error instanceof PdfFontError ? error.message : "Sorry, there was an error creating the PDF.");
     } finally {
-        captureRoot.unmount();
-        document.body.removeChild(captureContainer);
-        setIsDownloading(false);
+      setIsDownloading(false);
     }
   };
 
@@ -145,28 +173,200 @@ const PresentationViewer: React.FC<PresentationViewerProps> = ({
     <div className="w-full h-full flex flex-col">
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-2xl font-semibold text-gray-200">2. Review Your Presentation</h2>
-        <button
-          onClick={handleDownloadPdf}
-          disabled={isDownloading}
-          className="bg-gradient-to-r from-cyan-500 to-purple-600 hover:from-cyan-600 hover:to-purple-700 text-white font-bold py-2 px-4 rounded-lg transition-all duration-300 ease-in-out flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-105 shadow-[0_0_15px_rgba(0,255,255,0.2)]"
-        >
-          {isDownloading ? (
-            <>
-              <LoadingSpinner />
-              Downloading...
-            </>
-          ) : (
-            <>
-              <DownloadIcon />
-              Download PDF
-            </>
-          )}
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo || isGenerating}
+            className="p-2 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            aria-label="Undo"
+            title="Undo (Ctrl+Z)"
+          >
+            <UndoIcon />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo || isGenerating}
+            className="p-2 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            aria-label="Redo"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <RedoIcon />
+          </button>
+          <button
+            onClick={() => setIsEditing(prev => !prev)}
+            disabled={isGenerating}
+            className={`py-2 px-4 rounded-lg font-bold flex items-center gap-2 transition-colors disabled:opacity-50 ${isEditing ? 'bg-cyan-500 text-white hover:bg-cyan-600' : 'bg-white/10 text-gray-200 hover:bg-white/20'}`}
+            aria-pressed={isEditing}
+          >
+            <PencilIcon />
+            {isEditing ? 'Done' : 'Edit'}
+          </button>
+          <button
+            onClick={() => setIsRewriteOpen(prev => !prev)}
+            disabled={isRewriting || isGenerating}
+            className={`py-2 px-4 rounded-lg font-bold transition-colors disabled:opacity-50 ${isRewriteOpen ? 'bg-purple-600 text-white hover:bg-purple-700' : 'bg-white/10 text-gray-200 hover:bg-white/20'}`}
+            aria-pressed={isRewriteOpen}
+            title="Rewrite this slide with AI"
+          >
+            ✨ Rewrite
+          </button>
+          <button
+            onClick={() => setIsVisualsOpen(prev => !prev)}
+            disabled={isGeneratingImage || isGenerating}
+            className={`py-2 px-4 rounded-lg font-bold transition-colors disabled:opacity-50 ${isVisualsOpen ? 'bg-cyan-500 text-white hover:bg-cyan-600' : 'bg-white/10 text-gray-200 hover:bg-white/20'}`}
+            aria-expanded={isVisualsOpen}
+            title="Generate a picture for this slide or pick a bundled illustration"
+          >
+            🖼 Visuals
+          </button>
+          <button
+            onClick={onPresent}
+            disabled={isGenerating}
+            className="py-2 px-4 rounded-lg font-bold bg-white/10 text-gray-200 hover:bg-white/20 transition-colors disabled:opacity-50"
+            title="Open full-screen audience and presenter windows"
+          >
+            ▶ Present
+          </button>
+          <button
+            onClick={() => setIsImagePanelOpen(prev => !prev)}
+            disabled={isExportingImages || isGenerating}
+            className={`py-2 px-4 rounded-lg font-bold transition-colors disabled:opacity-50 ${isImagePanelOpen ? 'bg-cyan-500 text-white hover:bg-cyan-600' : 'bg-white/10 text-gray-200 hover:bg-white/20'}`}
+            aria-expanded={isImagePanelOpen}
+            title="Export slides as PNG or SVG images"
+          >
+            Images
+          </button>
+          <button
+            onClick={handleDownloadMarkdown}
+            disabled={isGenerating}
+            className="py-2 px-4 rounded-lg font-bold bg-white/10 text-gray-200 hover:bg-white/20 transition-colors disabled:opacity-50"
+            title="Download the deck as a Markdown outline that can be imported again"
+          >
+            Markdown
+          </button>
+          <button
+            onClick={handleDownloadPptx}
+            disabled={isExportingPptx || isGenerating}
+            className="bg-gradient-to-r from-cyan-500 to-purple-600 hover:from-cyan-600 hover:to-purple-700 text-white font-bold py-2 px-4 rounded-lg transition-all duration-300 ease-in-out flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-105 shadow-[0_0_15px_rgba(0,255,255,0.2)]"
+          >
+            {isExportingPptx ? (
+              <>
+                <LoadingSpinner />
+                Exporting...
+              </>
+            ) : (
+              <>
+                <DownloadIcon />
+                Download PPTX
+              </>
+            )}
+          </button>
+          <button
+            onClick={handleDownloadHtml}
+            disabled={isExportingHtml || isGenerating}
+            className="bg-gradient-to-r from-cyan-500 to-purple-600 hover:from-cyan-600 hover:to-purple-700 text-white font-bold py-2 px-4 rounded-lg transition-all duration-300 ease-in-out flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-105 shadow-[0_0_15px_rgba(0,255,255,0.2)]"
+            title="A single web page with keyboard navigation and speaker notes"
+          >
+            {isExportingHtml ? (
+              <>
+                <LoadingSpinner />
+                Exporting...
+              </>
+            ) : (
+              <>
+                <DownloadIcon />
+                Download HTML
+              </>
+            )}
+          </button>
+          <button
+            onClick={() => setIsPdfPanelOpen(prev => !prev)}
+            disabled={isDownloading || isGenerating}
+            aria-expanded={isPdfPanelOpen}
+            className="bg-gradient-to-r from-cyan-500 to-purple-600 hover:from-cyan-600 hover:to-purple-700 text-white font-bold py-2 px-4 rounded-lg transition-all duration-300 ease-in-out flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-105 shadow-[0_0_15px_rgba(0,255,255,0.2)]"
+          >
+            {isDownloading ? (
+              <>
+                <LoadingSpinner />
+                Downloading...
+              </>
+            ) : (
+              <>
+                <DownloadIcon />
+                Download PDF
+              </>
+            )}
+          </button>
+        </div>
       </div>
 
+      {isGenerating && (
+        <div className="mb-4 p-3 rounded-lg bg-cyan-900/30 border border-cyan-500/30 flex items-center gap-3 text-gray-200" role="status">
+          <LoadingSpinner />
+          <span className="flex-1">Generating… {presentation.length} {presentation.length === 1 ? 'slide' : 'slides'} so far</span>
+          <button
+            onClick={onCancelGeneration}
+            className="py-1 px-3 rounded-lg bg-white/10 hover:bg-red-600 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {isRewriteOpen && !isGenerating && (
+        <SlideRewritePanel
+          isRewriting={isRewriting}
+          onRewrite={handleRewrite}
+          onClose={() => setIsRewriteOpen(false)}
+        />
+      )}
+
+      {isVisualsOpen && !isGenerating && (
+        <SlideVisualsPanel
+          slide={slide}
+          theme={theme}
+          isGeneratingImage={isGeneratingImage}
+          onPromptChange={handleImagePromptChange}
+          onGenerate={handleGenerateVisual}
+          onPick={handlePickVisual}
+          onClose={() => setIsVisualsOpen(false)}
+        />
+      )}
+
+      {isImagePanelOpen && !isGenerating && (
+        <SlideImageExportPanel
+          isExporting={isExportingImages}
+          onExport={handleExportImages}
+          onClose={() => setIsImagePanelOpen(false)}
+        />
+      )}
+
+      {isPdfPanelOpen && !isGenerating && (
+        <PdfExportPanel
+          isExporting={isDownloading}
+          onExport={handleDownloadPdf}
+          onClose={() => setIsPdfPanelOpen(false)}
+        />
+      )}
+
       {/* Full-size slide container */}
-      <div className="flex-grow bg-gradient-to-br from-slate-900 to-slate-800 rounded-lg border border-cyan-500/20 shadow-2xl flex flex-col relative overflow-hidden p-8">
-        <SlideContent slide={slide} images={images} />
+      <div
+        className="flex-grow rounded-lg border border-cyan-500/20 shadow-2xl flex flex-col relative overflow-hidden p-8"
+        style={{ background: themeBackground(theme), color: theme.colors.text, fontFamily: fontStack(theme.fonts.body) }}
+        data-deck-editor
+      >
+        {isEditing && !isGenerating ? (
+          <SlideEditor
+            slide={slide}
+            slideIndex={currentSlide}
+            images={images}
+            theme={theme}
+            onSlideChange={(updated, coalesceKey) => onSlideChange(currentSlide, updated, coalesceKey)}
+            onImagesChange={onImagesChange}
+          />
+        ) : (
+          <SlideContent slide={slide} images={images} theme={theme} slideNumber={currentSlide + 1} />
+        )}
       </div>
 
       <div className="flex items-center justify-center mt-6">
@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { usePresentationClient } from '../hooks/usePresentationClient';
+import { useSlideNavigation } from '../hooks/useSlideNavigation';
+import { presentationViewUrl } from '../services/presentationChannel';
+import ScaledSlide from './ScaledSlide';
+import ChevronLeftIcon from '../icons/ChevronLeftIcon';
+import ChevronRightIcon from '../icons/ChevronRightIcon';
+
+interface PresenterViewProps {
+  sessionId: string;
+}
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+// A stopwatch that can be paused; `now` comes from the shared clock tick.
+const useTimer = (now: number) => {
+  const [startedAt, setStartedAt] = useState(now);
+  const [pausedAt, setPausedAt] = useState<number | null>(null);
+  const elapsed = (pausedAt ?? now) - startedAt;
+
+  const togglePause = () => {
+    if (pausedAt === null) {
+      setPausedAt(Date.now());
+    } else {
+      setStartedAt(start => start + (Date.now() - pausedAt));
+      setPausedAt(null);
+    }
+  };
+
+  const reset = () => {
+    setStartedAt(Date.now());
+    setPausedAt(pausedAt === null ? null : Date.now());
+  };
+
+  return { elapsed, isPaused: pausedAt !== null, togglePause, reset };
+};
+
+// The speaker's window: current and next slide, notes, timer and clock.
+const PresenterView: React.FC<PresenterViewProps> = ({ sessionId }) => {
+  const { state, goTo, end, hasEnded, isSupported } = usePresentationClient(sessionId);
+  const [now, setNow] = useState(Date.now());
+  const timer = useTimer(now);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (state) document.title = `Presenter – ${state.title}`;
+  }, [state?.title]);
+
+  const current = state?.currentSlide ?? 0;
+  useSlideNavigation({
+    onNext: () => goTo(current + 1),
+    onPrev: () => goTo(current - 1),
+    onFirst: () => goTo(0),
+    onLast: () => state && goTo(state.presentation.length - 1),
+  });
+
+  if (!isSupported) {
+    return <div className="h-screen flex items-center justify-center text-gray-400">This browser cannot sync presentation windows.</div>;
+  }
+
+  if (hasEnded) {
+    return <div className="h-screen flex items-center justify-center text-gray-400">The presentation has ended. You can close this window.</div>;
+  }
+
+  if (!state) {
+    return <div className="h-screen flex items-center justify-center text-gray-400">Waiting for the presentation…</div>;
+  }
+
+  const slide = state.presentation[current];
+  const nextSlide = state.presentation[current + 1];
+
+  return (
+    <div className="h-screen flex flex-col p-4 gap-4 text-gray-200">
+      <header className="flex items-center justify-between bg-black/30 border border-cyan-500/30 rounded-xl px-4 py-2">
+        <div className="flex items-center gap-4">
+          <span className="text-3xl font-mono tabular-nums text-cyan-300" aria-label="Elapsed time">{formatElapsed(timer.elapsed)}</span>
+          <button onClick={timer.togglePause} className="text-sm py-1 px-3 rounded-lg bg-white/10 hover:bg-white/20">
+            {timer.isPaused ? 'Resume' : 'Pause'}
+          </button>
+          <button onClick={timer.reset} className="text-sm py-1 px-3 rounded-lg bg-white/10 hover:bg-white/20">
+            Reset
+          </button>
+        </div>
+        <span className="text-2xl font-mono tabular-nums text-gray-300" aria-label="Current time">
+          {new Date(now).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => window.open(presentationViewUrl('audience', sessionId), 'ppt-audio-audience')}
+            className="text-sm py-1 px-3 rounded-lg bg-white/10 hover:bg-white/20"
+            title="Reopen the full-screen audience window"
+          >
+            Audience window
+          </button>
+          <button onClick={end} className="text-sm py-1 px-3 rounded-lg bg-red-600/80 hover:bg-red-600 text-white">
+            End presentation
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 flex gap-4 min-h-0">
+        <section className="flex-[3] flex flex-col min-w-0">
+          <h2 className="text-sm text-gray-400 mb-1">Current slide</h2>
+          <div className="flex-1 min-h-0 bg-black/40 rounded-xl">
+            {slide && <ScaledSlide slide={slide} images={state.images} theme={state.theme} slideNumber={current + 1} />}
+          </div>
+          <div className="flex items-center justify-center mt-3">
+            <button
+              onClick={() => goTo(current - 1)}
+              disabled={current === 0}
+              className="p-2 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              aria-label="Previous Slide"
+            >
+              <ChevronLeftIcon />
+            </button>
+            <span className="mx-4 font-medium text-gray-300">
+              Slide {current + 1} of {state.presentation.length}
+            </span>
+            <button
+              onClick={() => goTo(current + 1)}
+              disabled={current === state.presentation.length - 1}
+              className="p-2 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              aria-label="Next Slide"
+            >
+              <ChevronRightIcon />
+            </button>
+          </div>
+        </section>
+
+        <section className="flex-[2] flex flex-col gap-4 min-w-0">
+          <div className="h-1/3 flex flex-col">
+            <h2 className="text-sm text-gray-400 mb-1">Next</h2>
+            <div className="flex-1 min-h-0 bg-black/40 rounded-xl">
+              {nextSlide ? (
+                <ScaledSlide slide={nextSlide} images={state.images} theme={state.theme} slideNumber={current + 2} />
+              ) : (
+                <div className="h-full flex items-center justify-center text-gray-500">End of presentation</div>
+              )}
+            </div>
+          </div>
+          <div className="flex-1 flex flex-col min-h-0">
+            <h2 className="text-sm text-gray-400 mb-1">Speaker notes</h2>
+            <div className="flex-1 overflow-y-auto bg-black/30 border border-white/10 rounded-xl p-4 text-xl leading-relaxed whitespace-pre-line">
+              {slide?.speakerNotes || <span className="text-gray-500 italic">No notes for this slide.</span>}
+            </div>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default PresenterView;
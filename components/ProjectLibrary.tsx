@@ -0,0 +1,187 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { ProjectSummary } from '../types';
+import { deleteProject, duplicateProject, listProjects, renameProject } from '../services/projectStore';
+import LoadingSpinner from '../icons/LoadingSpinner';
+import XCircleIcon from '../icons/XCircleIcon';
+import PencilIcon from '../icons/PencilIcon';
+import DuplicateIcon from '../icons/DuplicateIcon';
+import TrashIcon from '../icons/TrashIcon';
+
+interface ProjectLibraryProps {
+  activeProjectId: string;
+  onOpenProject: (id: string) => void;
+  onNewProject: () => void;
+  onClose: () => void;
+  // Called after the active project is renamed or deleted from here.
+  onActiveProjectChanged: (change: { renamedTo?: string; deleted?: boolean }) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({
+  activeProjectId,
+  onOpenProject,
+  onNewProject,
+  onClose,
+  onActiveProjectChanged,
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (e) {
+      console.error(e);
+      setError(`Could not load saved projects: ${e instanceof Error ? e.message : String(e)}`);
+      setProjects([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    await refresh();
+  };
+
+  // Submitting just blurs the field; the blur handler commits the rename once.
+  const handleRenameCommit = (id: string) => {
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!name) return;
+    runAction(async () => {
+      await renameProject(id, name);
+      if (id === activeProjectId) onActiveProjectChanged({ renamedTo: name });
+    });
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    runAction(async () => {
+      await deleteProject(project.id);
+      if (project.id === activeProjectId) onActiveProjectChanged({ deleted: true });
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[80vh] bg-slate-900 border border-cyan-500/30 rounded-2xl shadow-2xl p-6 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="project-library-title"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="project-library-title" className="text-2xl font-semibold text-gray-200">Your Projects</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onNewProject}
+              className="bg-gradient-to-r from-cyan-500 to-purple-600 hover:from-cyan-600 hover:to-purple-700 text-white font-bold py-2 px-4 rounded-lg"
+            >
+              + New project
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close project library">
+              <XCircleIcon />
+            </button>
+          </div>
+        </div>
+
+        {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-lg mb-4">{error}</div>}
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {projects === null ? (
+            <div className="flex items-center justify-center text-gray-400 py-8">
+              <LoadingSpinner /> Loading projects...
+            </div>
+          ) : projects.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No saved projects yet. Your work is saved automatically as you go.</p>
+          ) : (
+            projects.map(project => (
+              <div
+                key={project.id}
+                className={`flex items-center justify-between p-3 rounded-lg border ${project.id === activeProjectId ? 'border-cyan-400 bg-cyan-500/10' : 'border-gray-700 bg-black/20 hover:bg-white/5'}`}
+              >
+                <div className="flex-1 min-w-0 mr-4">
+                  {renamingId === project.id ? (
+                    <form onSubmit={(e) => { e.preventDefault(); (e.currentTarget.elements[0] as HTMLInputElement).blur(); }}>
+                      <input
+                        type="text"
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={() => handleRenameCommit(project.id)}
+                        autoFocus
+                        aria-label="Project name"
+                        className="w-full p-1 bg-black/20 border border-gray-600 rounded-md text-gray-200 focus:ring-2 focus:ring-cyan-500"
+                      />
+                    </form>
+                  ) : (
+                    <button
+                      onClick={() => onOpenProject(project.id)}
+                      className="text-left w-full truncate font-medium text-gray-200 hover:text-cyan-400"
+                      title="Open project"
+                    >
+                      {project.name}
+                      {project.id === activeProjectId && <span className="ml-2 text-xs text-cyan-400">(open)</span>}
+                    </button>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    {project.slideCount} slides · {project.imageCount} images{project.hasAudio ? ' · audio' : ''} · edited {formatDate(project.updatedAt)}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => { setRenamingId(project.id); setRenameValue(project.name); }}
+                    className="p-2 rounded bg-white/10 hover:bg-white/20 text-gray-300"
+                    aria-label={`Rename ${project.name}`}
+                    title="Rename"
+                  >
+                    <PencilIcon />
+                  </button>
+                  <button
+                    onClick={() => runAction(() => duplicateProject(project.id))}
+                    className="p-2 rounded bg-white/10 hover:bg-white/20 text-gray-300"
+                    aria-label={`Duplicate ${project.name}`}
+                    title="Duplicate"
+                  >
+                    <DuplicateIcon />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(project)}
+                    className="p-2 rounded bg-white/10 hover:bg-red-600 text-gray-300"
+                    aria-label={`Delete ${project.name}`}
+                    title="Delete"
+                  >
+                    <TrashIcon />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,49 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Slide, Theme, UploadedImage } from '../types';
+import { PrintableSlide } from './SlideContent';
+
+interface ScaledSlideProps {
+  slide: Slide;
+  images: UploadedImage[];
+  theme: Theme;
+  slideNumber?: number;
+  showNotes?: boolean;
+  className?: string;
+}
+
+const SLIDE_WIDTH = 1280;
+const SLIDE_HEIGHT = 720;
+
+// Renders a slide at its native 1280×720 size and scales it to fit the
+// available space, letterboxed, so it looks identical at any window size.
+const ScaledSlide: React.FC<ScaledSlideProps> = ({ slide, images, theme, slideNumber, showNotes = false, className = '' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scale, setScale] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const update = () => {
+      setScale(Math.min(container.clientWidth / SLIDE_WIDTH, container.clientHeight / SLIDE_HEIGHT));
+    };
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <div ref={containerRef} className={`relative w-full h-full flex items-center justify-center overflow-hidden ${className}`}>
+      <div style={{ width: SLIDE_WIDTH * scale, height: SLIDE_HEIGHT * scale }} className="relative">
+        <div
+          style={{ width: SLIDE_WIDTH, height: SLIDE_HEIGHT, transform: `scale(${scale})`, transformOrigin: 'top left' }}
+          className="absolute top-0 left-0"
+        >
+          <PrintableSlide slide={slide} images={images} theme={theme} slideNumber={slideNumber} showNotes={showNotes} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScaledSlide;
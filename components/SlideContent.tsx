@@ -0,0 +1,267 @@
+import React from 'react';
+import type { Slide, SlideLayout, Theme, UploadedImage } from '../types';
+import { resolveSlideImage } from '../utils/slideImages';
+import { getSlideLayout } from '../utils/slideLayouts';
+import {
+  LOGO_POSITION_CLASSES,
+  fontStack,
+  themeBackground,
+  themeBulletTextStyle,
+  themeMarkerStyle,
+  themeTitleStyle,
+} from '../utils/themeStyles';
+
+interface SlideContentProps {
+  slide: Slide;
+  images: UploadedImage[];
+  theme: Theme;
+  // 1-based; only needed when the theme shows slide numbers.
+  slideNumber?: number;
+  showNotes?: boolean;
+}
+
+interface LayoutProps {
+  slide: Slide;
+  image: UploadedImage | null;
+  theme: Theme;
+}
+
+const SlideTitle: React.FC<{ title: string; theme: Theme; className?: string; scale?: number }> = ({ title, theme, className = 'mb-8', scale = 1 }) => {
+  const style = themeTitleStyle(theme);
+  return <h3 className={className} style={{ ...style, fontSize: theme.title.size * scale }}>{title}</h3>;
+};
+
+const BulletList: React.FC<{ points: string[]; theme: Theme; numbered?: boolean }> = ({ points, theme, numbered = false }) => (
+  <div style={{ display: 'flex', flexDirection: 'column', gap: theme.bullets.spacing }}>
+    {points.map((point, index) => (
+      <div key={index} className="flex items-start">
+        {numbered ? (
+          <span
+            className="mr-4 shrink-0 rounded-full flex items-center justify-center font-bold"
+            style={{
+              ...themeMarkerStyle(theme),
+              width: theme.bullets.size * 1.8,
+              height: theme.bullets.size * 1.8,
+              border: `2px solid ${theme.colors.accent}`,
+              fontSize: theme.bullets.size * 0.8,
+            }}
+          >
+            {index + 1}
+          </span>
+        ) : (
+          <span className="mr-4 leading-relaxed" style={themeMarkerStyle(theme)}>{theme.bullets.marker}</span>
+        )}
+        <p className="flex-1 leading-relaxed" style={themeBulletTextStyle(theme)}>{point}</p>
+      </div>
+    ))}
+  </div>
+);
+
+const SlideImage: React.FC<{ image: UploadedImage; className?: string; maxHeight?: string }> = ({ image, className = '', maxHeight }) => (
+  <img
+    src={image.base64}
+    alt={image.description || `Slide image`}
+    className={`w-full h-auto object-contain rounded-lg shadow-lg ${className}`}
+    style={maxHeight ? { maxHeight } : undefined}
+  />
+);
+
+const Subtitle: React.FC<{ text?: string; theme: Theme }> = ({ text, theme }) =>
+  text ? (
+    <p className="mt-4 opacity-80" style={{ ...themeBulletTextStyle(theme), fontSize: theme.bullets.size * 1.2, textAlign: theme.title.align }}>
+      {text}
+    </p>
+  ) : null;
+
+const BulletsLayout: React.FC<LayoutProps> = ({ slide, image, theme }) => (
+  <>
+    <SlideTitle title={slide.title} theme={theme} />
+    {image && (
+      <div className="mb-8 w-full max-w-lg mx-auto">
+        <SlideImage image={image} maxHeight="40vh" />
+      </div>
+    )}
+    <div className="flex-grow px-8">
+      <BulletList points={slide.content} theme={theme} />
+    </div>
+  </>
+);
+
+const TitleLayout: React.FC<LayoutProps> = ({ slide, image, theme }) => (
+  <div className="flex-grow flex flex-col justify-center px-8">
+    <SlideTitle title={slide.title} theme={theme} className="" scale={1.5} />
+    <Subtitle text={slide.subtitle} theme={theme} />
+    {image && (
+      <div className="mt-8 w-full max-w-sm" style={{ alignSelf: theme.title.align === 'center' ? 'center' : 'flex-start' }}>
+        <SlideImage image={image} maxHeight="25vh" />
+      </div>
+    )}
+  </div>
+);
+
+const SectionLayout: React.FC<LayoutProps> = ({ slide, theme }) => (
+  <div className="flex-grow flex flex-col justify-center px-8">
+    <div
+      className="mb-6 h-1 w-24 rounded-full"
+      style={{ background: theme.colors.accent, alignSelf: theme.title.align === 'center' ? 'center' : 'flex-start' }}
+    />
+    <SlideTitle title={slide.title} theme={theme} className="" scale={1.3} />
+    <Subtitle text={slide.subtitle} theme={theme} />
+  </div>
+);
+
+const TwoColumnLayout: React.FC<LayoutProps> = ({ slide, theme }) => (
+  <>
+    <SlideTitle title={slide.title} theme={theme} />
+    <div className="flex-grow grid grid-cols-2 gap-12 px-8">
+      {(slide.columns ?? []).slice(0, 2).map((column, index) => (
+        <div key={index}>
+          {column.heading && (
+            <h4
+              className="mb-4 pb-2 border-b-2 font-semibold"
+              style={{ ...themeBulletTextStyle(theme), fontFamily: fontStack(theme.fonts.heading), color: theme.colors.accent, borderColor: theme.colors.accent }}
+            >
+              {column.heading}
+            </h4>
+          )}
+          <BulletList points={column.points} theme={theme} />
+        </div>
+      ))}
+    </div>
+  </>
+);
+
+const ImageSideLayout: React.FC<LayoutProps & { side: 'left' | 'right' }> = ({ slide, image, theme, side }) => (
+  <>
+    <SlideTitle title={slide.title} theme={theme} />
+    <div className={`flex-grow flex gap-10 items-center px-8 ${side === 'right' ? 'flex-row-reverse' : ''}`}>
+      <div className="w-1/2 flex items-center justify-center">
+        {image && <SlideImage image={image} maxHeight="50vh" />}
+      </div>
+      <div className="w-1/2">
+        <BulletList points={slide.content} theme={theme} />
+      </div>
+    </div>
+  </>
+);
+
+const StatLayout: React.FC<LayoutProps> = ({ slide, theme }) => (
+  <>
+    <SlideTitle title={slide.title} theme={theme} />
+    <div className="flex-grow flex flex-col items-center justify-center px-8">
+      <p
+        className="leading-none font-extrabold"
+        style={{ fontFamily: fontStack(theme.fonts.heading), fontSize: theme.title.size * 3, color: theme.colors.accent }}
+      >
+        {slide.stat?.value}
+      </p>
+      {slide.stat?.label && (
+        <p className="mt-4 text-center" style={{ ...themeBulletTextStyle(theme), fontSize: theme.bullets.size * 1.2 }}>{slide.stat.label}</p>
+      )}
+      {slide.content.length > 0 && (
+        <div className="mt-8 w-full max-w-3xl">
+          <BulletList points={slide.content} theme={theme} />
+        </div>
+      )}
+    </div>
+  </>
+);
+
+const QuoteLayout: React.FC<LayoutProps> = ({ slide, theme }) => (
+  <>
+    {slide.title && <SlideTitle title={slide.title} theme={theme} />}
+    <div className="flex-grow flex flex-col justify-center px-16">
+      <span className="leading-none" style={{ fontFamily: fontStack(theme.fonts.heading), fontSize: theme.title.size * 3, color: theme.colors.accent }}>“</span>
+      <blockquote className="italic leading-snug" style={{ ...themeBulletTextStyle(theme), fontSize: theme.bullets.size * 1.5 }}>
+        {slide.quote?.text}
+      </blockquote>
+      {slide.quote?.attribution && (
+        <p className="mt-6 text-right opacity-80" style={themeBulletTextStyle(theme)}>— {slide.quote.attribution}</p>
+      )}
+    </div>
+  </>
+);
+
+const AgendaLayout: React.FC<LayoutProps> = ({ slide, theme }) => (
+  <>
+    <SlideTitle title={slide.title} theme={theme} />
+    <div className="flex-grow px-16">
+      <BulletList points={slide.content} theme={theme} numbered />
+    </div>
+  </>
+);
+
+const renderLayout = (layout: SlideLayout, props: LayoutProps) => {
+  switch (layout) {
+    case 'title': return <TitleLayout {...props} />;
+    case 'section': return <SectionLayout {...props} />;
+    case 'two-column': return <TwoColumnLayout {...props} />;
+    case 'image-left': return <ImageSideLayout {...props} side="left" />;
+    case 'image-right': return <ImageSideLayout {...props} side="right" />;
+    case 'stat': return <StatLayout {...props} />;
+    case 'quote': return <QuoteLayout {...props} />;
+    case 'agenda': return <AgendaLayout {...props} />;
+    default: return <BulletsLayout {...props} />;
+  }
+};
+
+// A component that renders the visual content of a single slide.
+// This is shared between the on-screen viewer and the HTML export.
+const SlideContent: React.FC<SlideContentProps> = ({ slide, images, theme, slideNumber, showNotes = true }) => {
+  const image = resolveSlideImage(slide, images) ?? null;
+
+  return (
+    <>
+      {renderLayout(getSlideLayout(slide), { slide, image, theme })}
+
+      {showNotes && slide.speakerNotes && (
+        <div className="mt-6 pt-4 border-t" style={{ borderColor: `${theme.colors.text}1a` }}>
+          <h4 className="font-semibold mb-2 opacity-60" style={{ color: theme.colors.text }}>Speaker Notes:</h4>
+          <p className="italic opacity-80" style={{ color: theme.colors.text }}>{slide.speakerNotes}</p>
+        </div>
+      )}
+
+      <SlideDecorations theme={theme} slideNumber={slideNumber} />
+    </>
+  );
+};
+
+// Logo and footer, positioned against the nearest relatively positioned frame.
+export const SlideDecorations: React.FC<{ theme: Theme; slideNumber?: number }> = ({ theme, slideNumber }) => {
+  const showNumber = theme.footer.showSlideNumber && slideNumber !== undefined;
+  return (
+    <>
+      {theme.logo && (
+        <img
+          src={theme.logo.src}
+          alt=""
+          className={`absolute max-h-12 max-w-[160px] object-contain pointer-events-none ${LOGO_POSITION_CLASSES[theme.logo.position]}`}
+        />
+      )}
+      {(theme.footer.text || showNumber) && (
+        <div
+          className="absolute bottom-3 left-12 right-12 flex justify-between text-sm opacity-70 pointer-events-none"
+          style={{ color: theme.colors.text, fontFamily: fontStack(theme.fonts.body) }}
+        >
+          <span>{theme.footer.text}</span>
+          <span>{showNumber ? slideNumber : ''}</span>
+        </div>
+      )}
+    </>
+  );
+};
+
+// A wrapper that gives a slide its fixed-size frame and background, used for
+// scaled previews and for the thumbnail rail.
+export const PrintableSlide: React.FC<SlideContentProps> = (props) => {
+  return (
+    <div
+      className="w-full h-full p-12 flex flex-col relative overflow-hidden"
+      style={{ background: themeBackground(props.theme), color: props.theme.colors.text, fontFamily: fontStack(props.theme.fonts.body) }}
+    >
+      <SlideContent {...props} />
+    </div>
+  );
+};
+
+export default SlideContent;
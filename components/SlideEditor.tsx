@@ -0,0 +1,332 @@
+import React, { useRef } from 'react';
+import type { Slide, SlideColumn, SlideLayout, Theme, UploadedImage } from '../types';
+import { indexToPlaceholder, placeholderToIndex, readImageFile, resolveSlideImage } from '../utils/slideImages';
+import { fontStack, themeBulletTextStyle, themeMarkerStyle } from '../utils/themeStyles';
+import { SLIDE_LAYOUTS, changeSlideLayout, getSlideLayout, usesBullets, usesImage, usesSubtitle } from '../utils/slideLayouts';
+import TrashIcon from '../icons/TrashIcon';
+import ArrowUpIcon from '../icons/ArrowUpIcon';
+import ArrowDownIcon from '../icons/ArrowDownIcon';
+
+interface SlideEditorProps {
+  slide: Slide;
+  slideIndex: number;
+  images: UploadedImage[];
+  theme: Theme;
+  // `coalesceKey` groups rapid edits of the same field into one undo step.
+  onSlideChange: (slide: Slide, coalesceKey?: string) => void;
+  onImagesChange: (images: UploadedImage[]) => void;
+}
+
+const UPLOAD_OPTION = '__upload__';
+
+const fieldClassName = "p-2 bg-black/20 border border-gray-700 rounded-lg text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+// The editable counterpart of SlideContent: same layout, but every piece of
+// text is an input and bullets/images can be rearranged in place.
+const SlideEditor: React.FC<SlideEditorProps> = ({ slide, slideIndex, images, theme, onSlideChange, onImagesChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bulletRefs = useRef<(HTMLTextAreaElement | null)[]>([]);
+  const slideImage = resolveSlideImage(slide, images);
+  const keyPrefix = `slide-${slideIndex}`;
+  const layout = getSlideLayout(slide);
+
+  const updateBullets = (content: string[], coalesceKey?: string) => {
+    onSlideChange({ ...slide, content }, coalesceKey);
+  };
+
+  const handleBulletChange = (index: number, value: string) => {
+    const content = [...slide.content];
+    content[index] = value;
+    updateBullets(content, `${keyPrefix}-bullet-${index}`);
+  };
+
+  const handleAddBullet = (afterIndex = slide.content.length - 1) => {
+    const content = [...slide.content];
+    content.splice(afterIndex + 1, 0, '');
+    updateBullets(content);
+    requestAnimationFrame(() => bulletRefs.current[afterIndex + 1]?.focus());
+  };
+
+  const handleDeleteBullet = (index: number) => {
+    updateBullets(slide.content.filter((_, i) => i !== index));
+  };
+
+  const handleMoveBullet = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= slide.content.length) return;
+    const content = [...slide.content];
+    [content[index], content[target]] = [content[target], content[index]];
+    updateBullets(content);
+  };
+
+  const handleBulletKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>, index: number) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleAddBullet(index);
+    } else if (event.key === 'Backspace' && slide.content[index] === '' && slide.content.length > 1) {
+      event.preventDefault();
+      handleDeleteBullet(index);
+      requestAnimationFrame(() => bulletRefs.current[Math.max(0, index - 1)]?.focus());
+    }
+  };
+
+  const handleImageSelect = (value: string) => {
+    if (value === UPLOAD_OPTION) {
+      fileInputRef.current?.click();
+      return;
+    }
+    const { imagePlaceholder: _removed, ...rest } = slide;
+    onSlideChange(value ? { ...rest, imagePlaceholder: value } : rest);
+  };
+
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const uploaded = await readImageFile(file);
+      onImagesChange([...images, uploaded]);
+      onSlideChange({ ...slide, imagePlaceholder: indexToPlaceholder(images.length) });
+    } catch (error) {
+      console.error(error);
+      alert('Could not read the selected image.');
+    }
+  };
+
+  const handleLayoutChange = (next: SlideLayout) => {
+    onSlideChange(changeSlideLayout(slide, next));
+  };
+
+  const handleColumnChange = (index: number, column: SlideColumn) => {
+    const columns = [...(slide.columns ?? [])];
+    columns[index] = column;
+    onSlideChange({ ...slide, columns }, `${keyPrefix}-column-${index}`);
+  };
+
+  const selectedImageIndex = placeholderToIndex(slide.imagePlaceholder);
+
+  return (
+    <>
+      <div className="mb-4 flex items-center gap-2 text-sm text-gray-400">
+        <label htmlFor={`${keyPrefix}-layout`}>Layout</label>
+        <select
+          id={`${keyPrefix}-layout`}
+          value={layout}
+          onChange={(e) => handleLayoutChange(e.target.value as SlideLayout)}
+          className="p-1.5 bg-black/20 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 text-gray-200"
+        >
+          {SLIDE_LAYOUTS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+        </select>
+      </div>
+
+      <input
+        type="text"
+        value={slide.title}
+        onChange={(e) => onSlideChange({ ...slide, title: e.target.value }, `${keyPrefix}-title`)}
+        placeholder="Slide title"
+        aria-label="Slide title"
+        className="mb-6 bg-transparent border-b border-dashed border-cyan-500/40 focus:border-cyan-400 focus:outline-none placeholder-gray-600"
+        style={{
+          fontFamily: fontStack(theme.fonts.heading),
+          fontSize: theme.title.size,
+          fontWeight: theme.title.weight,
+          textAlign: theme.title.align,
+          textTransform: theme.title.uppercase ? 'uppercase' : 'none',
+          color: theme.colors.title,
+        }}
+      />
+
+      {usesSubtitle(layout) && (
+        <input
+          type="text"
+          value={slide.subtitle ?? ''}
+          onChange={(e) => onSlideChange({ ...slide, subtitle: e.target.value }, `${keyPrefix}-subtitle`)}
+          placeholder="Subtitle"
+          aria-label="Subtitle"
+          className={`mb-6 ${fieldClassName}`}
+          style={{ ...themeBulletTextStyle(theme), textAlign: theme.title.align }}
+        />
+      )}
+
+      {layout === 'stat' && (
+        <div className="mb-6 flex gap-3 justify-center">
+          <input
+            type="text"
+            value={slide.stat?.value ?? ''}
+            onChange={(e) => onSlideChange({ ...slide, stat: { value: e.target.value, label: slide.stat?.label ?? '' } }, `${keyPrefix}-stat-value`)}
+            placeholder="42%"
+            aria-label="Headline number"
+            className={`w-48 text-center text-4xl font-extrabold ${fieldClassName}`}
+            style={{ fontFamily: fontStack(theme.fonts.heading), color: theme.colors.accent }}
+          />
+          <input
+            type="text"
+            value={slide.stat?.label ?? ''}
+            onChange={(e) => onSlideChange({ ...slide, stat: { value: slide.stat?.value ?? '', label: e.target.value } }, `${keyPrefix}-stat-label`)}
+            placeholder="What the number means"
+            aria-label="Number label"
+            className={`flex-1 max-w-md ${fieldClassName}`}
+            style={themeBulletTextStyle(theme)}
+          />
+        </div>
+      )}
+
+      {layout === 'quote' && (
+        <div className="mb-6 flex flex-col gap-3 px-8">
+          <textarea
+            value={slide.quote?.text ?? ''}
+            onChange={(e) => onSlideChange({ ...slide, quote: { text: e.target.value, attribution: slide.quote?.attribution ?? '' } }, `${keyPrefix}-quote-text`)}
+            rows={3}
+            placeholder="Quotation"
+            aria-label="Quotation"
+            className={`italic resize-y ${fieldClassName}`}
+            style={themeBulletTextStyle(theme)}
+          />
+          <input
+            type="text"
+            value={slide.quote?.attribution ?? ''}
+            onChange={(e) => onSlideChange({ ...slide, quote: { text: slide.quote?.text ?? '', attribution: e.target.value } }, `${keyPrefix}-quote-attribution`)}
+            placeholder="Attribution"
+            aria-label="Quote attribution"
+            className={`self-end w-80 text-right ${fieldClassName}`}
+          />
+        </div>
+      )}
+
+      {layout === 'two-column' && (
+        <div className="flex-grow grid grid-cols-2 gap-6 px-8 overflow-y-auto">
+          {(slide.columns ?? []).map((column, index) => (
+            <div key={index} className="flex flex-col gap-2">
+              <input
+                type="text"
+                value={column.heading}
+                onChange={(e) => handleColumnChange(index, { ...column, heading: e.target.value })}
+                placeholder={`Column ${index + 1} heading`}
+                aria-label={`Column ${index + 1} heading`}
+                className={`font-semibold ${fieldClassName}`}
+                style={{ fontFamily: fontStack(theme.fonts.heading), color: theme.colors.accent }}
+              />
+              <textarea
+                value={column.points.join('\n')}
+                onChange={(e) => handleColumnChange(index, { ...column, points: e.target.value.split('\n') })}
+                rows={6}
+                placeholder="One point per line"
+                aria-label={`Column ${index + 1} points`}
+                className={`flex-1 resize-none leading-relaxed ${fieldClassName}`}
+                style={themeBulletTextStyle(theme)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {usesImage(layout) && (
+        <div className="mb-6 flex items-center justify-center gap-3">
+          {slideImage && (
+            <img
+              src={slideImage.base64}
+              alt={slideImage.description || 'Slide image'}
+              className="h-24 w-auto object-contain rounded-lg shadow-lg"
+            />
+          )}
+          <select
+            value={slideImage ? indexToPlaceholder(selectedImageIndex) : ''}
+            onChange={(e) => handleImageSelect(e.target.value)}
+            aria-label="Slide image"
+            className="p-2 bg-black/20 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 text-gray-200"
+          >
+            <option value="">No image</option>
+            {images.map((image, index) => (
+              <option key={index} value={indexToPlaceholder(index)}>
+                Image {index + 1}{image.description ? `: ${image.description}` : ''}
+              </option>
+            ))}
+            <option value={UPLOAD_OPTION}>Upload new image…</option>
+          </select>
+          {slideImage && (
+            <button
+              onClick={() => handleImageSelect('')}
+              className="p-2 rounded-full bg-white/10 hover:bg-red-500/60 text-gray-300 transition-colors"
+              aria-label="Remove image from slide"
+              title="Remove image from slide"
+            >
+              <TrashIcon />
+            </button>
+          )}
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleImageUpload}
+            accept="image/png, image/jpeg, image/webp"
+            className="hidden"
+          />
+        </div>
+      )}
+
+      {usesBullets(layout) && (
+        <div className="flex-grow space-y-3 px-8 overflow-y-auto">
+          {slide.content.map((point, index) => (
+            <div key={index} className="flex items-start group">
+              <span className="mr-4 mt-2" style={themeMarkerStyle(theme)}>{layout === 'agenda' ? `${index + 1}.` : theme.bullets.marker}</span>
+              <textarea
+                ref={el => { bulletRefs.current[index] = el; }}
+                value={point}
+                onChange={(e) => handleBulletChange(index, e.target.value)}
+                onKeyDown={(e) => handleBulletKeyDown(e, index)}
+                rows={Math.max(1, Math.ceil(point.length / 60))}
+                placeholder="Bullet point"
+                aria-label={`Bullet ${index + 1}`}
+                className="flex-1 p-2 bg-black/20 border border-gray-700 rounded-lg leading-relaxed resize-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                style={themeBulletTextStyle(theme)}
+              />
+              <div className="flex flex-col ml-2 gap-1 opacity-60 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => handleMoveBullet(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30"
+                  aria-label="Move bullet up"
+                >
+                  <ArrowUpIcon />
+                </button>
+                <button
+                  onClick={() => handleMoveBullet(index, 1)}
+                  disabled={index === slide.content.length - 1}
+                  className="p-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30"
+                  aria-label="Move bullet down"
+                >
+                  <ArrowDownIcon />
+                </button>
+                <button
+                  onClick={() => handleDeleteBullet(index)}
+                  className="p-1 rounded bg-white/10 hover:bg-red-500/60"
+                  aria-label="Delete bullet"
+                >
+                  <TrashIcon />
+                </button>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => handleAddBullet()}
+            className="ml-8 text-sm text-cyan-400 hover:text-cyan-300"
+          >
+            + Add bullet
+          </button>
+        </div>
+      )}
+
+      <div className="mt-6 pt-4 border-t border-white/10">
+        <label htmlFor={`${keyPrefix}-notes`} className="block font-semibold text-gray-400 mb-2">Speaker Notes:</label>
+        <textarea
+          id={`${keyPrefix}-notes`}
+          value={slide.speakerNotes}
+          onChange={(e) => onSlideChange({ ...slide, speakerNotes: e.target.value }, `${keyPrefix}-notes`)}
+          rows={3}
+          className="w-full p-2 bg-black/20 border border-gray-700 rounded-lg text-gray-300 italic resize-y focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+        />
+      </div>
+    </>
+  );
+};
+
+export default SlideEditor;
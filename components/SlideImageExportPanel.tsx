@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import type { SlideImageFormat, SlideImageOptions, SlideImageTarget } from '../services/imageExporter';
+import { DEFAULT_SLIDE_IMAGE_OPTIONS, SLIDE_IMAGE_TARGETS, SLIDE_IMAGE_WIDTHS, slideImageHeight } from '../services/imageExporter';
+import LoadingSpinner from '../icons/LoadingSpinner';
+
+interface SlideImageExportPanelProps {
+  isExporting: boolean;
+  onExport: (options: SlideImageOptions) => void;
+  onClose: () => void;
+}
+
+const selectClassName = "p-2 bg-black/20 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-gray-200 disabled:opacity-50";
+
+const SlideImageExportPanel: React.FC<SlideImageExportPanelProps> = ({ isExporting, onExport, onClose }) => {
+  const [options, setOptions] = useState<SlideImageOptions>(DEFAULT_SLIDE_IMAGE_OPTIONS);
+  const isContactSheet = options.target === 'contact-sheet';
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onExport(options);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-4 p-3 bg-black/20 border border-cyan-500/40 rounded-lg flex flex-wrap items-center gap-3 text-sm text-gray-300">
+      <label className="flex items-center gap-2">
+        Export
+        <select
+          value={options.target}
+          onChange={(e) => setOptions(prev => ({ ...prev, target: e.target.value as SlideImageTarget }))}
+          disabled={isExporting}
+          className={selectClassName}
+        >
+          {SLIDE_IMAGE_TARGETS.map(target => <option key={target.id} value={target.id}>{target.label}</option>)}
+        </select>
+      </label>
+      {!isContactSheet && (
+        <label className="flex items-center gap-2">
+          Format
+          <select
+            value={options.format}
+            onChange={(e) => setOptions(prev => ({ ...prev, format: e.target.value as SlideImageFormat }))}
+            disabled={isExporting}
+            className={selectClassName}
+          >
+            <option value="png">PNG</option>
+            <option value="svg">SVG</option>
+          </select>
+        </label>
+      )}
+      <label className="flex items-center gap-2">
+        {isContactSheet ? 'Sheet width' : 'Size'}
+        <select
+          value={options.width}
+          onChange={(e) => setOptions(prev => ({ ...prev, width: Number(e.target.value) }))}
+          disabled={isExporting}
+          className={selectClassName}
+        >
+          {SLIDE_IMAGE_WIDTHS.map(width => (
+            <option key={width} value={width}>{isContactSheet ? `${width} px` : `${width} × ${slideImageHeight(width)}`}</option>
+          ))}
+        </select>
+      </label>
+      <div className="flex gap-2 ml-auto">
+        <button
+          type="submit"
+          disabled={isExporting}
+          className="bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-4 rounded-md flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isExporting ? (
+            <>
+              <LoadingSpinner />
+              Exporting...
+            </>
+          ) : (
+            'Export images'
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isExporting}
+          className="py-2 px-3 rounded-md bg-white/10 hover:bg-white/20 text-gray-300 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default SlideImageExportPanel;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import LoadingSpinner from '../icons/LoadingSpinner';
+
+interface SlideRewritePanelProps {
+  isRewriting: boolean;
+  onRewrite: (instruction: string) => void;
+  onClose: () => void;
+}
+
+const QUICK_INSTRUCTIONS = [
+  'Make it punchier',
+  'Simplify the language',
+  'Add more detail',
+  'Split into two slides',
+];
+
+const SlideRewritePanel: React.FC<SlideRewritePanelProps> = ({ isRewriting, onRewrite, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (instruction.trim()) onRewrite(instruction.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-4 p-3 bg-black/20 border border-purple-500/40 rounded-lg">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder="How should this slide change?"
+          aria-label="Rewrite instruction"
+          disabled={isRewriting}
+          autoFocus
+          className="flex-1 p-2 bg-black/20 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-gray-200"
+        />
+        <button
+          type="submit"
+          disabled={isRewriting || !instruction.trim()}
+          className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-md flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRewriting ? (
+            <>
+              <LoadingSpinner />
+              Rewriting...
+            </>
+          ) : (
+            'Rewrite'
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isRewriting}
+          className="py-2 px-3 rounded-md bg-white/10 hover:bg-white/20 text-gray-300 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2 mt-2">
+        {QUICK_INSTRUCTIONS.map(quick => (
+          <button
+            key={quick}
+            type="button"
+            onClick={() => onRewrite(quick)}
+            disabled={isRewriting}
+            className="text-xs px-2 py-1 rounded-full border border-purple-500/40 text-purple-300 hover:bg-purple-500/20 disabled:opacity-50"
+          >
+            {quick}
+          </button>
+        ))}
+      </div>
+    </form>
+  );
+};
+
+export default SlideRewritePanel;
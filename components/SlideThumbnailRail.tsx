@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Presentation, Theme, UploadedImage } from '../types';
+import { PrintableSlide } from './SlideContent';
+import PlusIcon from '../icons/PlusIcon';
+import DuplicateIcon from '../icons/DuplicateIcon';
+import TrashIcon from '../icons/TrashIcon';
+
+interface SlideThumbnailRailProps {
+  presentation: Presentation;
+  currentSlide: number;
+  images: UploadedImage[];
+  theme: Theme;
+  // Disables reordering and editing, e.g. while slides are still streaming in.
+  readOnly?: boolean;
+  onSelectSlide: (index: number) => void;
+  onMoveSlide: (from: number, to: number) => void;
+  onInsertSlide: (index: number) => void;
+  onDuplicateSlide: (index: number) => void;
+  onDeleteSlide: (index: number) => void;
+}
+
+// Thumbnails render the real slide at full size and scale it down, so they
+// always match what the viewer and exports show.
+const SLIDE_WIDTH = 1280;
+const SLIDE_HEIGHT = 720;
+const THUMBNAIL_WIDTH = 160;
+const SCALE = THUMBNAIL_WIDTH / SLIDE_WIDTH;
+
+const SlideThumbnail: React.FC<{ slide: Presentation[number]; images: UploadedImage[]; theme: Theme; slideNumber: number }> = React.memo(({ slide, images, theme, slideNumber }) => (
+  <div className="relative overflow-hidden rounded-md pointer-events-none" style={{ width: THUMBNAIL_WIDTH, height: SLIDE_HEIGHT * SCALE }}>
+    <div style={{ width: SLIDE_WIDTH, height: SLIDE_HEIGHT, transform: `scale(${SCALE})`, transformOrigin: 'top left' }}>
+      <PrintableSlide slide={slide} images={images} theme={theme} slideNumber={slideNumber} showNotes={false} />
+    </div>
+  </div>
+));
+
+const SlideThumbnailRail: React.FC<SlideThumbnailRailProps> = ({
+  presentation,
+  currentSlide,
+  images,
+  theme,
+  readOnly = false,
+  onSelectSlide,
+  onMoveSlide,
+  onInsertSlide,
+  onDuplicateSlide,
+  onDeleteSlide,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const itemRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  useEffect(() => {
+    itemRefs.current[currentSlide]?.scrollIntoView({ block: 'nearest' });
+  }, [currentSlide]);
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>, index: number) => {
+    if (dragIndex === null) return;
+    event.preventDefault();
+    const rect = event.currentTarget.getBoundingClientRect();
+    const isLowerHalf = event.clientY > rect.top + rect.height / 2;
+    setDropIndex(isLowerHalf ? index + 1 : index);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    if (dragIndex !== null && dropIndex !== null) {
+      // Removing the dragged slide shifts every later index up by one.
+      const target = dropIndex > dragIndex ? dropIndex - 1 : dropIndex;
+      onMoveSlide(dragIndex, target);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>, index: number) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onSelectSlide(index);
+    } else if (readOnly) {
+      return;
+    } else if (event.altKey && event.key === 'ArrowUp' && index > 0) {
+      event.preventDefault();
+      onMoveSlide(index, index - 1);
+    } else if (event.altKey && event.key === 'ArrowDown' && index < presentation.length - 1) {
+      event.preventDefault();
+      onMoveSlide(index, index + 1);
+    }
+  };
+
+  return (
+    <div className="w-48 flex flex-col mr-4">
+      <div className="flex-1 overflow-y-auto pr-1 space-y-1" onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropIndex(null);
+      }}>
+        {presentation.map((slide, index) => (
+          <div
+            key={index}
+            ref={el => { itemRefs.current[index] = el; }}
+            draggable={!readOnly}
+            onDragStart={(e) => {
+              setDragIndex(index);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            onDragOver={(e) => handleDragOver(e, index)}
+            onDrop={handleDrop}
+            onClick={() => onSelectSlide(index)}
+            onKeyDown={(e) => handleKeyDown(e, index)}
+            tabIndex={0}
+            role="button"
+            aria-label={`Slide ${index + 1}: ${slide.title}`}
+            aria-current={index === currentSlide}
+            className={`group relative p-1 rounded-lg cursor-pointer transition-all
+              ${index === currentSlide ? 'bg-cyan-500/20 ring-2 ring-cyan-400' : 'hover:bg-white/10'}
+              ${dragIndex === index ? 'opacity-40' : ''}
+              ${dropIndex === index ? 'border-t-2 border-cyan-400' : ''}
+              ${dropIndex === index + 1 && index === presentation.length - 1 ? 'border-b-2 border-cyan-400' : ''}`}
+          >
+            <div className="flex items-start gap-1">
+              <span className="text-xs text-gray-400 w-4 text-right">{index + 1}</span>
+              <SlideThumbnail slide={slide} images={images} theme={theme} slideNumber={index + 1} />
+            </div>
+            {!readOnly && (
+              <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDuplicateSlide(index); }}
+                  className="p-1 rounded bg-black/70 text-gray-200 hover:bg-cyan-600"
+                  aria-label={`Duplicate slide ${index + 1}`}
+                  title="Duplicate"
+                >
+                  <DuplicateIcon />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDeleteSlide(index); }}
+                  disabled={presentation.length <= 1}
+                  className="p-1 rounded bg-black/70 text-gray-200 hover:bg-red-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                  aria-label={`Delete slide ${index + 1}`}
+                  title="Delete"
+                >
+                  <TrashIcon />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => onInsertSlide(currentSlide + 1)}
+        disabled={readOnly}
+        className="mt-2 w-full border-2 border-dashed border-gray-600 hover:border-cyan-500 text-gray-400 hover:text-cyan-400 text-sm py-2 rounded-lg transition-colors flex items-center justify-center gap-1 disabled:opacity-40 disabled:pointer-events-none"
+      >
+        <PlusIcon />
+        New slide
+      </button>
+    </div>
+  );
+};
+
+export default SlideThumbnailRail;
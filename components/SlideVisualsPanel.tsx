@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import type { Slide, Theme } from '../types';
+import { ILLUSTRATION_PACKS, illustrationColors, illustrationDataUrl, rankIllustrations } from '../utils/illustrationPacks';
+import { getSlideLayout, usesImage } from '../utils/slideLayouts';
+import { themeBackground } from '../utils/themeStyles';
+import LoadingSpinner from '../icons/LoadingSpinner';
+
+interface SlideVisualsPanelProps {
+  slide: Slide;
+  theme: Theme;
+  isGeneratingImage: boolean;
+  onPromptChange: (prompt: string) => void;
+  onGenerate: (prompt: string) => void;
+  // `dataUrl` is an SVG in the theme's colors; `description` names the picture.
+  onPick: (dataUrl: string, description: string) => void;
+  onClose: () => void;
+}
+
+// Gives the current slide a picture: generated by the AI provider from the
+// slide's image prompt, or picked from the bundled illustration packs, which
+// are ordered by how well they match the prompt and title.
+const SlideVisualsPanel: React.FC<SlideVisualsPanelProps> = ({ slide, theme, isGeneratingImage, onPromptChange, onGenerate, onPick, onClose }) => {
+  const [packId, setPackId] = useState(ILLUSTRATION_PACKS[0].id);
+  const prompt = slide.imagePrompt ?? '';
+
+  const ranked = useMemo(() => {
+    const colors = illustrationColors(theme);
+    return rankIllustrations(packId, `${prompt} ${slide.title}`).map(({ item, score }) => ({
+      item,
+      isMatch: score > 0,
+      src: illustrationDataUrl(packId, item, colors),
+    }));
+  }, [packId, prompt, slide.title, theme]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (prompt.trim()) onGenerate(prompt.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-4 p-3 bg-black/20 border border-cyan-500/40 rounded-lg text-sm text-gray-300">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={prompt}
+          onChange={(e) => onPromptChange(e.target.value)}
+          placeholder="Describe the picture, e.g. a rocket lifting off over a city skyline"
+          aria-label="Image prompt"
+          disabled={isGeneratingImage}
+          autoFocus
+          className="flex-1 p-2 bg-black/20 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-gray-200"
+        />
+        <button
+          type="submit"
+          disabled={isGeneratingImage || !prompt.trim()}
+          className="bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-4 rounded-md flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Draw the picture with the AI provider chosen in the model settings"
+        >
+          {isGeneratingImage ? (
+            <>
+              <LoadingSpinner />
+              Generating...
+            </>
+          ) : (
+            'Generate image'
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isGeneratingImage}
+          className="py-2 px-3 rounded-md bg-white/10 hover:bg-white/20 text-gray-300 disabled:opacity-50"
+        >
+          Close
+        </button>
+      </div>
+      {!usesImage(getSlideLayout(slide)) && (
+        <p className="mt-2 text-xs text-gray-400">This layout has no room for a picture, so adding one switches the slide to Image right.</p>
+      )}
+      <div className="mt-3 flex items-center gap-2">
+        <span>Or pick from</span>
+        <select
+          value={packId}
+          onChange={(e) => setPackId(e.target.value)}
+          aria-label="Illustration pack"
+          className="p-1.5 bg-black/20 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 text-gray-200"
+        >
+          {ILLUSTRATION_PACKS.map(pack => <option key={pack.id} value={pack.id}>{pack.label}</option>)}
+        </select>
+        <span className="text-xs text-gray-500">Best matches first</span>
+      </div>
+      <div className="mt-2 flex gap-2 overflow-x-auto pb-1">
+        {ranked.map(({ item, isMatch, src }) => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => onPick(src, item.label)}
+            disabled={isGeneratingImage}
+            className={`shrink-0 p-1.5 rounded-md border transition-colors disabled:opacity-50 ${isMatch ? 'border-cyan-400' : 'border-gray-700 hover:border-gray-500'}`}
+            style={{ background: themeBackground(theme) }}
+            title={item.label}
+            aria-label={`Use illustration: ${item.label}`}
+          >
+            <img src={src} alt="" className="h-14 w-auto" />
+          </button>
+        ))}
+      </div>
+    </form>
+  );
+};
+
+export default SlideVisualsPanel;
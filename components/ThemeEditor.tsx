@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import type { Slide, Theme, ThemeLogoPosition, UploadedImage } from '../types';
+import { BULLET_MARKERS, THEME_FONTS, isBuiltInTheme } from '../services/themeService';
+import { readImageFile } from '../utils/slideImages';
+import ScaledSlide from './ScaledSlide';
+import XCircleIcon from '../icons/XCircleIcon';
+
+interface ThemeEditorProps {
+  theme: Theme;
+  previewSlide: Slide;
+  images: UploadedImage[];
+  // Applies the theme to the open project and saves it as a custom theme.
+  onSave: (theme: Theme) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full p-1.5 bg-black/20 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-gray-200";
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block text-xs text-gray-400">
+    <span className="block mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+const ColorField: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <Field label={label}>
+    <div className="flex items-center gap-2">
+      <input type="color" value={value} onChange={(e) => onChange(e.target.value)} className="h-8 w-10 bg-transparent border-0 cursor-pointer" />
+      <input type="text" value={value} onChange={(e) => onChange(e.target.value)} className={inputClassName} />
+    </div>
+  </Field>
+);
+
+// An optional second color: unchecking it makes the fill solid.
+const GradientField: React.FC<{ label: string; value: string | null; fallback: string; onChange: (value: string | null) => void }> = ({ label, value, fallback, onChange }) => (
+  <Field label={label}>
+    <div className="flex items-center gap-2">
+      <input type="checkbox" checked={value !== null} onChange={(e) => onChange(e.target.checked ? fallback : null)} />
+      {value !== null && (
+        <input type="color" value={value} onChange={(e) => onChange(e.target.value)} className="h-8 w-10 bg-transparent border-0 cursor-pointer" />
+      )}
+      <span className="text-gray-500">{value === null ? 'Solid' : value}</span>
+    </div>
+  </Field>
+);
+
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, previewSlide, images, onSave, onClose }) => {
+  const [draft, setDraft] = useState<Theme>(() =>
+    isBuiltInTheme(theme.id)
+      ? { ...theme, id: `custom-${Date.now().toString(36)}`, name: `${theme.name} (custom)` }
+      : theme
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const update = <K extends keyof Theme>(key: K, changes: Partial<Theme[K]>) => {
+    setDraft(current => ({ ...current, [key]: { ...(current[key] as object), ...changes } }));
+  };
+
+  const handleLogoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const { base64 } = await readImageFile(file);
+      setDraft(current => ({ ...current, logo: { src: base64, position: current.logo?.position ?? 'top-right' } }));
+    } catch (error) {
+      console.error(error);
+      alert('Could not read the selected logo.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-6xl max-h-[90vh] bg-slate-900 border border-cyan-500/30 rounded-2xl shadow-2xl p-6 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="theme-editor-title"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="theme-editor-title" className="text-2xl font-semibold text-gray-200">Customize Theme</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close theme editor">
+            <XCircleIcon />
+          </button>
+        </div>
+
+        <div className="flex-1 flex gap-6 min-h-0">
+          <div className="w-80 overflow-y-auto pr-2 space-y-4">
+            <Field label="Theme name">
+              <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClassName} />
+            </Field>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-gray-300 mb-1">Fonts</legend>
+              <Field label="Headings">
+                <select value={draft.fonts.heading} onChange={(e) => update('fonts', { heading: e.target.value })} className={inputClassName}>
+                  {THEME_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                </select>
+              </Field>
+              <Field label="Body">
+                <select value={draft.fonts.body} onChange={(e) => update('fonts', { body: e.target.value })} className={inputClassName}>
+                  {THEME_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                </select>
+              </Field>
+            </fieldset>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-gray-300 mb-1">Colors</legend>
+              <ColorField label="Background" value={draft.colors.background} onChange={(background) => update('colors', { background })} />
+              <GradientField label="Background gradient" value={draft.colors.backgroundGradientTo} fallback={draft.colors.background} onChange={(backgroundGradientTo) => update('colors', { backgroundGradientTo })} />
+              <ColorField label="Title" value={draft.colors.title} onChange={(title) => update('colors', { title })} />
+              <GradientField label="Title gradient" value={draft.colors.titleGradientTo} fallback={draft.colors.title} onChange={(titleGradientTo) => update('colors', { titleGradientTo })} />
+              <ColorField label="Text" value={draft.colors.text} onChange={(text) => update('colors', { text })} />
+              <ColorField label="Accent (bullets)" value={draft.colors.accent} onChange={(accent) => update('colors', { accent })} />
+            </fieldset>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-gray-300 mb-1">Title style</legend>
+              <Field label={`Size: ${draft.title.size}px`}>
+                <input type="range" min={24} max={72} value={draft.title.size} onChange={(e) => update('title', { size: Number(e.target.value) })} className="w-full" />
+              </Field>
+              <Field label="Weight">
+                <select value={draft.title.weight} onChange={(e) => update('title', { weight: Number(e.target.value) })} className={inputClassName}>
+                  {[400, 500, 600, 700, 800].map(weight => <option key={weight} value={weight}>{weight}</option>)}
+                </select>
+              </Field>
+              <Field label="Alignment">
+                <select value={draft.title.align} onChange={(e) => update('title', { align: e.target.value as Theme['title']['align'] })} className={inputClassName}>
+                  <option value="left">Left</option>
+                  <option value="center">Center</option>
+                </select>
+              </Field>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                <input type="checkbox" checked={draft.title.uppercase} onChange={(e) => update('title', { uppercase: e.target.checked })} />
+                Uppercase
+              </label>
+            </fieldset>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-gray-300 mb-1">Bullets</legend>
+              <Field label={`Size: ${draft.bullets.size}px`}>
+                <input type="range" min={14} max={40} value={draft.bullets.size} onChange={(e) => update('bullets', { size: Number(e.target.value) })} className="w-full" />
+              </Field>
+              <Field label={`Spacing: ${draft.bullets.spacing}px`}>
+                <input type="range" min={4} max={48} value={draft.bullets.spacing} onChange={(e) => update('bullets', { spacing: Number(e.target.value) })} className="w-full" />
+              </Field>
+              <Field label="Marker">
+                <div className="flex gap-1">
+                  {BULLET_MARKERS.map(marker => (
+                    <button
+                      key={marker}
+                      onClick={() => update('bullets', { marker })}
+                      className={`w-8 h-8 rounded-md border ${draft.bullets.marker === marker ? 'border-cyan-400 bg-cyan-500/20' : 'border-gray-600 hover:bg-white/10'}`}
+                    >
+                      {marker}
+                    </button>
+                  ))}
+                </div>
+              </Field>
+            </fieldset>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-gray-300 mb-1">Logo</legend>
+              <input type="file" accept="image/png, image/jpeg, image/webp, image/svg+xml" onChange={handleLogoUpload} className="text-xs text-gray-400" />
+              {draft.logo && (
+                <div className="flex items-center gap-2">
+                  <select
+                    value={draft.logo.position}
+                    onChange={(e) => setDraft({ ...draft, logo: { ...draft.logo!, position: e.target.value as ThemeLogoPosition } })}
+                    className={inputClassName}
+                  >
+                    <option value="top-left">Top left</option>
+                    <option value="top-right">Top right</option>
+                    <option value="bottom-left">Bottom left</option>
+                    <option value="bottom-right">Bottom right</option>
+                  </select>
+                  <button onClick={() => setDraft({ ...draft, logo: null })} className="text-xs text-red-400 hover:text-red-300">Remove</button>
+                </div>
+              )}
+            </fieldset>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-gray-300 mb-1">Footer</legend>
+              <Field label="Footer text">
+                <input type="text" value={draft.footer.text} onChange={(e) => update('footer', { text: e.target.value })} className={inputClassName} />
+              </Field>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                <input type="checkbox" checked={draft.footer.showSlideNumber} onChange={(e) => update('footer', { showSlideNumber: e.target.checked })} />
+                Show slide numbers
+              </label>
+            </fieldset>
+          </div>
+
+          <div className="flex-1 flex flex-col min-w-0">
+            <h3 className="text-sm text-gray-400 mb-2">Preview</h3>
+            <div className="aspect-video w-full">
+              <ScaledSlide slide={previewSlide} images={images} theme={draft} slideNumber={1} />
+            </div>
+            <div className="mt-auto pt-4 flex justify-end gap-2">
+              <button onClick={onClose} className="py-2 px-4 rounded-lg bg-white/10 hover:bg-white/20 text-gray-200">Cancel</button>
+              <button
+                onClick={() => onSave({ ...draft, name: draft.name.trim() || 'Custom theme' })}
+                className="bg-gradient-to-r from-cyan-500 to-purple-600 hover:from-cyan-600 hover:to-purple-700 text-white font-bold py-2 px-4 rounded-lg"
+              >
+                Save &amp; apply
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThemeEditor;
@@ -0,0 +1,66 @@
+import React from 'react';
+import type { Theme } from '../types';
+import { BUILT_IN_THEMES } from '../services/themeService';
+
+interface ThemePickerProps {
+  theme: Theme;
+  customThemes: Theme[];
+  onThemeChange: (theme: Theme) => void;
+  onCustomize: () => void;
+  onDeleteCustomTheme: (id: string) => void;
+}
+
+const ThemePicker: React.FC<ThemePickerProps> = ({ theme, customThemes, onThemeChange, onCustomize, onDeleteCustomTheme }) => {
+  const allThemes = [...BUILT_IN_THEMES, ...customThemes];
+  const isCustom = customThemes.some(custom => custom.id === theme.id);
+  // A project may carry a theme that is not in this browser's library yet
+  // (e.g. imported from a file), so keep it selectable.
+  const isKnown = allThemes.some(known => known.id === theme.id);
+
+  const handleChange = (id: string) => {
+    const selected = allThemes.find(candidate => candidate.id === id);
+    if (selected) onThemeChange(selected);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={theme.id}
+        onChange={(e) => handleChange(e.target.value)}
+        aria-label="Slide theme"
+        className="py-2 px-2 bg-white/10 border border-transparent rounded-lg text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500"
+      >
+        <optgroup label="Built-in">
+          {BUILT_IN_THEMES.map(builtIn => <option key={builtIn.id} value={builtIn.id}>{builtIn.name}</option>)}
+        </optgroup>
+        {(customThemes.length > 0 || !isKnown) && (
+          <optgroup label="Custom">
+            {!isKnown && <option value={theme.id}>{theme.name}</option>}
+            {customThemes.map(custom => <option key={custom.id} value={custom.id}>{custom.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+      <button
+        onClick={onCustomize}
+        className="py-2 px-3 rounded-lg bg-white/10 hover:bg-white/20 text-gray-200 text-sm transition-colors"
+        title="Customize theme"
+      >
+        🎨
+      </button>
+      {isCustom && (
+        <button
+          onClick={() => {
+            if (confirm(`Delete the custom theme "${theme.name}"? Projects using it keep their copy.`)) onDeleteCustomTheme(theme.id);
+          }}
+          className="py-2 px-2 rounded-lg bg-white/10 hover:bg-red-600 text-gray-200 text-sm transition-colors"
+          title="Delete custom theme"
+          aria-label="Delete custom theme"
+        >
+          ✕
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ThemePicker;
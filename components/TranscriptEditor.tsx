@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TranscriptSegment } from '../types';
+import { formatDuration } from '../utils/time';
+
+interface TranscriptEditorProps {
+  segments: TranscriptSegment[];
+  // The recording the segments were transcribed from, for playback.
+  audio: Blob | null;
+  onSegmentsChange: (segments: TranscriptSegment[]) => void;
+  onEditAsPlainText: () => void;
+  disabled?: boolean;
+}
+
+const fieldClassName = "bg-black/20 border border-gray-700 rounded-md text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+// The timed transcript: one row per segment, each playable on its own so
+// mistakes can be checked against the recording. Edits change the text and
+// speaker only; the timing always stays with the segment.
+const TranscriptEditor: React.FC<TranscriptEditorProps> = ({ segments, audio, onSegmentsChange, onEditAsPlainText, disabled }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+  const stopAtRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!audio) {
+      setAudioUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(audio);
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [audio]);
+
+  const stopPlayback = () => {
+    audioRef.current?.pause();
+    stopAtRef.current = null;
+    setPlayingIndex(null);
+  };
+
+  const playSegment = (index: number) => {
+    const player = audioRef.current;
+    if (!player) return;
+    if (playingIndex === index) {
+      stopPlayback();
+      return;
+    }
+    player.currentTime = segments[index].start;
+    stopAtRef.current = segments[index].end;
+    setPlayingIndex(index);
+    player.play().catch(error => {
+      console.error('Could not play the recording:', error);
+      stopPlayback();
+    });
+  };
+
+  const handleTimeUpdate = () => {
+    const player = audioRef.current;
+    if (player && stopAtRef.current !== null && player.currentTime >= stopAtRef.current) stopPlayback();
+  };
+
+  const updateSegment = (index: number, changes: Partial<TranscriptSegment>) => {
+    onSegmentsChange(segments.map((segment, i) => {
+      if (i !== index) return segment;
+      const updated = { ...segment, ...changes };
+      if (!updated.speaker) delete updated.speaker;
+      return updated;
+    }));
+  };
+
+  return (
+    <div className="flex flex-col min-h-0">
+      <div className="mb-2 flex justify-between items-center">
+        <span className="font-medium text-gray-300">Speech Transcript</span>
+        <button
+          onClick={() => {
+            if (confirm('Edit the transcript as plain text? The timestamps and playback links will be removed.')) onEditAsPlainText();
+          }}
+          disabled={disabled}
+          className="text-xs text-gray-400 hover:text-cyan-400 disabled:opacity-50"
+        >
+          Edit as plain text
+        </button>
+      </div>
+      {audioUrl && (
+        <audio ref={audioRef} src={audioUrl} onTimeUpdate={handleTimeUpdate} onEnded={stopPlayback} onPause={() => setPlayingIndex(null)} className="hidden" />
+      )}
+      <ol className="max-h-80 overflow-y-auto space-y-2 pr-1">
+        {segments.map((segment, index) => (
+          <li
+            key={index}
+            className={`p-2 rounded-lg border ${playingIndex === index ? 'border-cyan-500 bg-cyan-500/10' : 'border-gray-700 bg-black/20'}`}
+          >
+            <div className="flex items-center gap-2 mb-1">
+              <button
+                onClick={() => playSegment(index)}
+                disabled={!audioUrl}
+                className="text-xs font-mono text-cyan-300 hover:text-cyan-200 disabled:text-gray-500 disabled:cursor-not-allowed"
+                title={audioUrl ? (playingIndex === index ? 'Stop' : 'Play this part of the recording') : 'The recording is not available'}
+              >
+                {playingIndex === index ? '■' : '▶'} {formatDuration(segment.start)}–{formatDuration(segment.end)}
+              </button>
+              <input
+                type="text"
+                value={segment.speaker ?? ''}
+                onChange={(e) => updateSegment(index, { speaker: e.target.value })}
+                placeholder="Speaker"
+                aria-label={`Speaker of segment ${index + 1}`}
+                disabled={disabled}
+                className={`w-28 px-2 py-0.5 text-xs ${fieldClassName}`}
+              />
+            </div>
+            <textarea
+              value={segment.text}
+              onChange={(e) => updateSegment(index, { text: e.target.value })}
+              aria-label={`Text of segment ${index + 1}`}
+              rows={Math.max(1, Math.ceil(segment.text.length / 40))}
+              disabled={disabled}
+              className={`w-full p-2 resize-none ${fieldClassName}`}
+            />
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default TranscriptEditor;
@@ -0,0 +1,53 @@
+import React from 'react';
+import type { TranscriptionChunk } from '../types';
+import { formatDuration } from '../utils/time';
+
+interface TranscriptionProgressProps {
+  chunks: TranscriptionChunk[];
+  isTranscribing: boolean;
+  onRetryFailed: () => void;
+}
+
+const STATUS_CLASSES: Record<TranscriptionChunk['status'], string> = {
+  pending: 'bg-gray-600',
+  transcribing: 'bg-yellow-400 animate-pulse',
+  done: 'bg-cyan-500',
+  error: 'bg-red-500',
+};
+
+const STATUS_LABELS: Record<TranscriptionChunk['status'], string> = {
+  pending: 'waiting',
+  transcribing: 'transcribing',
+  done: 'done',
+  error: 'failed',
+};
+
+// One bar per segment of a chunked high-accuracy transcription.
+const TranscriptionProgress: React.FC<TranscriptionProgressProps> = ({ chunks, isTranscribing, onRetryFailed }) => {
+  const done = chunks.filter(chunk => chunk.status === 'done').length;
+  const failed = chunks.filter(chunk => chunk.status === 'error');
+
+  return (
+    <div className="mb-4">
+      <div className="flex gap-1" role="progressbar" aria-valuemin={0} aria-valuemax={chunks.length} aria-valuenow={done}>
+        {chunks.map((chunk, index) => (
+          <span
+            key={index}
+            className={`h-2 flex-1 rounded-full ${STATUS_CLASSES[chunk.status]}`}
+            title={`Segment ${index + 1} (${formatDuration(chunk.start)}–${formatDuration(chunk.end)}): ${STATUS_LABELS[chunk.status]}${chunk.error ? ` — ${chunk.error}` : ''}`}
+          />
+        ))}
+      </div>
+      <div className="mt-1 flex justify-between items-center text-xs text-gray-400">
+        <span>{done} of {chunks.length} segments transcribed{failed.length > 0 && `, ${failed.length} failed`}</span>
+        {failed.length > 0 && !isTranscribing && (
+          <button onClick={onRetryFailed} className="text-purple-300 hover:text-purple-200">
+            ↻ Retry failed segments
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptionProgress;
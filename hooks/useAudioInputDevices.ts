@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+
+// Lists the microphones the browser can see. Their names are only revealed
+// once microphone access has been granted, so the list is read again whenever
+// `refreshKey` changes (e.g. when a stream opens) as well as on device changes.
+// Chrome's "default" and "communications" aliases are left out, since the
+// list is shown alongside an explicit system-default choice.
+export const useAudioInputDevices = (refreshKey?: unknown): MediaDeviceInfo[] => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.enumerateDevices) return;
+    let cancelled = false;
+    const refresh = () => {
+      mediaDevices.enumerateDevices()
+        .then(all => { if (!cancelled) setDevices(all.filter(device => device.kind === 'audioinput' && !['', 'default', 'communications'].includes(device.deviceId))); })
+        .catch(error => console.warn("Could not list microphones:", error));
+    };
+    refresh();
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      mediaDevices.removeEventListener('devicechange', refresh);
+    };
+  }, [refreshKey]);
+
+  return devices;
+};
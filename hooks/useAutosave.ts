@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type AutosaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Debounces `save` until `value` has been stable for a moment. Passing
+// `enabled: false` skips saving (e.g. for a project with no content yet).
+// A value still waiting for its save is written by `flush`, which runs on
+// unmount and before the page unloads; call it before switching projects.
+// `discard` drops it instead, e.g. when the project was deleted.
+export const useAutosave = <T,>(
+  value: T,
+  save: (value: T) => Promise<void>,
+  enabled: boolean
+): { status: AutosaveStatus; flush: () => void; discard: () => void } => {
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const saveRef = useRef(save);
+  saveRef.current = save;
+  const pendingRef = useRef<{ value: T } | null>(null);
+
+  const flush = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    pendingRef.current = null;
+    saveRef.current(pending.value).catch(error => console.error("Autosave failed:", error));
+  }, []);
+
+  const discard = useCallback(() => {
+    pendingRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    pendingRef.current = { value };
+    setStatus('pending');
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      pendingRef.current = null;
+      setStatus('saving');
+      try {
+        await saveRef.current(value);
+        if (!cancelled) setStatus('saved');
+      } catch (error) {
+        console.error("Autosave failed:", error);
+        if (!cancelled) setStatus('error');
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value, enabled]);
+
+  useEffect(() => {
+    window.addEventListener('beforeunload', flush);
+    return () => {
+      window.removeEventListener('beforeunload', flush);
+      flush();
+    };
+  }, [flush]);
+
+  return { status, flush, discard };
+};
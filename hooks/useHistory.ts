@@ -0,0 +1,80 @@
+import { useCallback, useState } from 'react';
+
+const MAX_HISTORY = 100;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Consecutive updates sharing a key (e.g. keystrokes in one field) collapse
+  // into a single undo step.
+  lastKey: string | null;
+}
+
+export interface History<T> {
+  state: T;
+  set: (next: T | ((previous: T) => T), coalesceKey?: string) => void;
+  reset: (next: T) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export const useHistory = <T,>(initial: T): History<T> => {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [], lastKey: null });
+
+  const set = useCallback((next: T | ((previous: T) => T), coalesceKey?: string) => {
+    setHistory(current => {
+      const value = typeof next === 'function' ? (next as (previous: T) => T)(current.present) : next;
+      if (Object.is(value, current.present)) return current;
+      if (coalesceKey && coalesceKey === current.lastKey) {
+        return { ...current, present: value, future: [] };
+      }
+      return {
+        past: [...current.past, current.present].slice(-MAX_HISTORY),
+        present: value,
+        future: [],
+        lastKey: coalesceKey ?? null,
+      };
+    });
+  }, []);
+
+  const reset = useCallback((next: T) => {
+    setHistory({ past: [], present: next, future: [], lastKey: null });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(current => {
+      if (current.past.length === 0) return current;
+      return {
+        past: current.past.slice(0, -1),
+        present: current.past[current.past.length - 1],
+        future: [current.present, ...current.future],
+        lastKey: null,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(current => {
+      if (current.future.length === 0) return current;
+      return {
+        past: [...current.past, current.present],
+        present: current.future[0],
+        future: current.future.slice(1),
+        lastKey: null,
+      };
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Below this RMS level (about -40 dBFS) the input counts as silence.
+export const SILENCE_LEVEL = 0.01;
+// How long the input may stay silent after it is opened before the user is
+// warned that the microphone may not be working.
+const QUIET_START_WARNING_SECONDS = 4;
+const POLL_INTERVAL_MS = 100;
+
+export const rmsLevel = (samples: Float32Array): number => {
+  let sum = 0;
+  for (const sample of samples) sum += sample * sample;
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+};
+
+// Watches a microphone stream through an AnalyserNode. Silence is only timed
+// while `active` (recording, not paused); after `silenceSeconds` of it,
+// `onSilence` is called. 0 turns auto-stop off.
+export const useInputMonitor = (
+  stream: MediaStream | null,
+  { active, silenceSeconds, onSilence }: { active: boolean; silenceSeconds: number; onSilence: () => void }
+) => {
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  // Set when nothing above the silence level has been heard since the stream
+  // opened, once the first few seconds have passed.
+  const [isQuietStart, setIsQuietStart] = useState(false);
+  const settings = useRef({ active, silenceSeconds, onSilence });
+  settings.current = { active, silenceSeconds, onSilence };
+
+  useEffect(() => {
+    setIsQuietStart(false);
+    if (!stream) {
+      setAnalyser(null);
+      return;
+    }
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    const node = context.createAnalyser();
+    node.fftSize = 2048;
+    source.connect(node);
+    setAnalyser(node);
+
+    const samples = new Float32Array(node.fftSize);
+    const openedAt = Date.now();
+    let heardSound = false;
+    let silentSince: number | null = null;
+    const timer = setInterval(() => {
+      node.getFloatTimeDomainData(samples);
+      const now = Date.now();
+      const isLoud = rmsLevel(samples) >= SILENCE_LEVEL;
+      if (isLoud) {
+        heardSound = true;
+        setIsQuietStart(false);
+      } else if (!heardSound && now - openedAt >= QUIET_START_WARNING_SECONDS * 1000) {
+        setIsQuietStart(true);
+      }
+
+      const { active, silenceSeconds, onSilence } = settings.current;
+      if (isLoud || !active || silenceSeconds <= 0) {
+        silentSince = null;
+        return;
+      }
+      silentSince ??= now;
+      if (now - silentSince >= silenceSeconds * 1000) {
+        silentSince = null;
+        onSilence();
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      source.disconnect();
+      context.close();
+      setAnalyser(null);
+    };
+  }, [stream]);
+
+  return { analyser, isQuietStart };
+};
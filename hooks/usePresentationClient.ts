@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Presentation, Theme, UploadedImage } from '../types';
+import { openPresentationChannel, type PresentationChannel } from '../services/presentationChannel';
+
+interface ClientState {
+  title: string;
+  presentation: Presentation;
+  images: UploadedImage[];
+  theme: Theme;
+  currentSlide: number;
+}
+
+// Runs in the audience and presenter windows: mirrors the editor's deck and
+// current slide, and routes navigation through the editor so every window
+// stays on the same slide.
+export const usePresentationClient = (sessionId: string) => {
+  const [state, setState] = useState<ClientState | null>(null);
+  const [hasEnded, setHasEnded] = useState(false);
+  const channelRef = useRef<PresentationChannel | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => {
+    const channel = openPresentationChannel(sessionId, message => {
+      if (message.type === 'deck') {
+        setState({
+          title: message.title,
+          presentation: message.presentation,
+          images: message.images,
+          theme: message.theme,
+          currentSlide: message.currentSlide,
+        });
+      } else if (message.type === 'slide') {
+        setState(current => current && { ...current, currentSlide: message.currentSlide });
+      } else if (message.type === 'end') {
+        setHasEnded(true);
+      }
+    });
+    channelRef.current = channel;
+    channel?.post({ type: 'request-state' });
+    return () => {
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, [sessionId]);
+
+  const goTo = useCallback((index: number) => {
+    const current = stateRef.current;
+    if (!current || index < 0 || index >= current.presentation.length) return;
+    channelRef.current?.post({ type: 'navigate', index });
+  }, []);
+
+  const end = useCallback(() => {
+    channelRef.current?.post({ type: 'end' });
+    setHasEnded(true);
+  }, []);
+
+  return { state, goTo, end, hasEnded, isSupported: typeof BroadcastChannel !== 'undefined' };
+};
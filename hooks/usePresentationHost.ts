@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+import type { Presentation, Theme, UploadedImage } from '../types';
+import { openPresentationChannel, type PresentationChannel } from '../services/presentationChannel';
+
+// Runs in the editor window: answers state requests from the audience and
+// presenter windows, broadcasts edits and applies their navigation.
+export const usePresentationHost = (
+  sessionId: string,
+  title: string,
+  presentation: Presentation | null,
+  images: UploadedImage[],
+  theme: Theme,
+  currentSlide: number,
+  onNavigate: (index: number) => void
+) => {
+  const channelRef = useRef<PresentationChannel | null>(null);
+  const latest = useRef({ title, presentation, images, theme, currentSlide, onNavigate });
+  latest.current = { title, presentation, images, theme, currentSlide, onNavigate };
+
+  const postDeck = () => {
+    const { title, presentation, images, theme, currentSlide } = latest.current;
+    if (presentation) {
+      channelRef.current?.post({ type: 'deck', title, presentation, images, theme, currentSlide });
+    }
+  };
+
+  useEffect(() => {
+    const channel = openPresentationChannel(sessionId, message => {
+      if (message.type === 'request-state') {
+        postDeck();
+      } else if (message.type === 'navigate') {
+        const { presentation, onNavigate } = latest.current;
+        if (presentation && message.index >= 0 && message.index < presentation.length) {
+          onNavigate(message.index);
+        }
+      }
+    });
+    channelRef.current = channel;
+    return () => {
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, [sessionId]);
+
+  useEffect(() => {
+    postDeck();
+  }, [title, presentation, images, theme]);
+
+  useEffect(() => {
+    channelRef.current?.post({ type: 'slide', currentSlide });
+  }, [currentSlide]);
+};
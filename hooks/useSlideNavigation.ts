@@ -0,0 +1,93 @@
+import { useEffect, useRef } from 'react';
+
+const SWIPE_THRESHOLD_PX = 50;
+
+// Keyboard, presentation clicker and swipe navigation. Clickers send
+// PageUp/PageDown (sometimes arrows or B/period for blank), so those are
+// covered alongside the usual keys.
+export const useSlideNavigation = ({
+  onNext,
+  onPrev,
+  onFirst,
+  onLast,
+  onEscape,
+  enabled = true,
+}: {
+  onNext: () => void;
+  onPrev: () => void;
+  onFirst?: () => void;
+  onLast?: () => void;
+  onEscape?: () => void;
+  enabled?: boolean;
+}) => {
+  const handlers = useRef({ onNext, onPrev, onFirst, onLast, onEscape });
+  handlers.current = { onNext, onPrev, onFirst, onLast, onEscape };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const { onNext, onPrev, onFirst, onLast, onEscape } = handlers.current;
+      switch (event.key) {
+        case 'ArrowRight':
+        case 'ArrowDown':
+        case 'PageDown':
+        case ' ':
+        case 'Enter':
+        case 'n':
+          event.preventDefault();
+          onNext();
+          break;
+        case 'ArrowLeft':
+        case 'ArrowUp':
+        case 'PageUp':
+        case 'Backspace':
+        case 'p':
+          event.preventDefault();
+          onPrev();
+          break;
+        case 'Home':
+          event.preventDefault();
+          onFirst?.();
+          break;
+        case 'End':
+          event.preventDefault();
+          onLast?.();
+          break;
+        case 'Escape':
+          onEscape?.();
+          break;
+      }
+    };
+
+    let touchStart: { x: number; y: number } | null = null;
+    const handleTouchStart = (event: TouchEvent) => {
+      const touch = event.touches[0];
+      touchStart = touch ? { x: touch.clientX, y: touch.clientY } : null;
+    };
+    const handleTouchEnd = (event: TouchEvent) => {
+      const touch = event.changedTouches[0];
+      if (!touchStart || !touch) return;
+      const dx = touch.clientX - touchStart.x;
+      const dy = touch.clientY - touchStart.y;
+      touchStart = null;
+      if (Math.abs(dx) < SWIPE_THRESHOLD_PX || Math.abs(dx) < Math.abs(dy)) return;
+      if (dx < 0) {
+        handlers.current.onNext();
+      } else {
+        handlers.current.onPrev();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('touchstart', handleTouchStart, { passive: true });
+    window.addEventListener('touchend', handleTouchEnd);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('touchstart', handleTouchStart);
+      window.removeEventListener('touchend', handleTouchEnd);
+    };
+  }, [enabled]);
+};
@@ -1,16 +1,27 @@
-
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import AudienceView from './components/AudienceView';
+import PresenterView from './components/PresenterView';
+import { getPresentationViewFromUrl } from './services/presentationChannel';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Presentation mode opens this same page in extra windows with `?view=...`.
+const presentationView = getPresentationViewFromUrl();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {presentationView?.view === 'audience' ? (
+      <AudienceView sessionId={presentationView.sessionId} />
+    ) : presentationView?.view === 'presenter' ? (
+      <PresenterView sessionId={presentationView.sessionId} />
+    ) : (
+      <App />
+    )}
   </React.StrictMode>
 );
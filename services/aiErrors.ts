@@ -0,0 +1,73 @@
+// Typed failures from AI providers. Providers convert whatever their SDK or
+// `fetch` throws into one of these, so the retry logic can tell transient
+// problems from permanent ones and the UI can say what actually went wrong.
+
+export class AiError extends Error {
+  // Whether the same request may succeed if simply sent again.
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable = false) {
+    super(message);
+    this.name = 'AiError';
+    this.retryable = retryable;
+  }
+}
+
+// The provider could not be reached at all (offline, DNS, CORS, wrong URL).
+export class AiNetworkError extends AiError {
+  constructor(message = "Could not reach the AI provider. Check your connection and the endpoint URL in the model settings.") {
+    super(message, true);
+    this.name = 'AiNetworkError';
+  }
+}
+
+// The provider answered with an HTTP error status.
+export class AiRequestError extends AiError {
+  readonly status: number;
+
+  constructor(status: number, detail = '') {
+    super(AiRequestError.describe(status, detail), status === 408 || status === 429 || status >= 500);
+    this.name = 'AiRequestError';
+    this.status = status;
+  }
+
+  private static describe(status: number, detail: string) {
+    const suffix = detail ? ` (${detail.slice(0, 300)})` : '';
+    if (status === 401 || status === 403) return `The AI provider rejected the credentials. Check the API key in the model settings.${suffix}`;
+    if (status === 404) return `The AI provider does not know this model or endpoint. Check the model name and endpoint URL.${suffix}`;
+    if (status === 429) return `The AI provider is rate limiting requests. Wait a moment and try again.${suffix}`;
+    if (status >= 500) return `The AI provider had a server error (status ${status}). Try again shortly.${suffix}`;
+    return `The AI provider rejected the request (status ${status}).${suffix}`;
+  }
+}
+
+// The reply arrived but could not be turned into slides; `issues` lists what
+// was wrong with it.
+export class AiResponseError extends AiError {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n${issues.map(issue => `• ${issue}`).join('\n')}` : message, true);
+    this.name = 'AiResponseError';
+    this.issues = issues;
+  }
+}
+
+// Wraps an unknown failure in the matching AiError. `action` names what was
+// being attempted, e.g. "generate the presentation".
+export const toAiError = (error: unknown, action: string): AiError => {
+  if (error instanceof AiError) return error;
+  if (error instanceof SyntaxError) {
+    return new AiResponseError(`The AI returned malformed JSON while trying to ${action}.`, [error.message]);
+  }
+  // SDK errors such as the Gemini ApiError carry the HTTP status.
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number' && status >= 400) {
+    return new AiRequestError(status, error instanceof Error ? error.message : '');
+  }
+  // `fetch` reports unreachable hosts as a bare TypeError.
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) {
+    return new AiNetworkError();
+  }
+  return new AiError(`Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`);
+};
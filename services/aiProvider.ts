@@ -0,0 +1,88 @@
+import type { AiProviderId, AiProviderSettings, GenerationOptions, Outline, Presentation, Slide, UploadedImage } from '../types';
+import type { RewriteSlideContext } from './prompts';
+
+// Transcribed speech as the provider reports it. Times are seconds from the
+// start of the submitted audio and are left out when the provider has none.
+export interface TranscribedSegment {
+  text: string;
+  start?: number;
+  end?: number;
+  speaker?: string;
+}
+
+export interface TranscribeRequest {
+  // Data URL of the recording, e.g. "data:audio/webm;base64,...".
+  audioBase64: string;
+  mimeType: string;
+  // BCP 47 tag of the spoken language, e.g. "en-GB". Detected when absent.
+  language?: string;
+}
+
+export interface GenerateDeckRequest {
+  text: string;
+  images: UploadedImage[];
+  generation: GenerationOptions;
+  // When set, the deck expands this user-approved outline slide by slide.
+  outline?: Outline;
+  // Explains what was wrong with a previous attempt, e.g. the slide count.
+  correction?: string;
+  // Cancels generation; the returned promise then rejects with an AbortError.
+  signal?: AbortSignal;
+  // Called with each slide as soon as it has been streamed in full.
+  onSlide?: (slide: Slide, index: number) => void;
+}
+
+// First stage of the outline-first flow: plan the deck without writing it.
+export interface GenerateOutlineRequest {
+  text: string;
+  images: UploadedImage[];
+  generation: GenerationOptions;
+  signal?: AbortSignal;
+}
+
+export type RewriteSlideRequest = RewriteSlideContext;
+
+export interface GenerateImageRequest {
+  // What to draw, usually a slide's `imagePrompt`.
+  prompt: string;
+  signal?: AbortSignal;
+}
+
+// A backend capable of turning audio into text, text into a deck and
+// prompts into slide pictures.
+export interface AiProvider {
+  transcribe(request: TranscribeRequest): Promise<TranscribedSegment[]>;
+  generateOutline(request: GenerateOutlineRequest): Promise<Outline>;
+  generateDeck(request: GenerateDeckRequest): Promise<Presentation>;
+  // Returns the slide(s) that replace the target slide.
+  rewriteSlide(request: RewriteSlideRequest): Promise<Presentation>;
+  // Returns the picture as a data URL, e.g. "data:image/png;base64,...".
+  generateImage(request: GenerateImageRequest): Promise<string>;
+}
+
+export interface AiProviderDefinition {
+  id: AiProviderId;
+  label: string;
+  defaultModel: string;
+  // Whether the settings panel should ask for an endpoint URL.
+  needsBaseUrl: boolean;
+  create(settings: AiProviderSettings): AiProvider;
+}
+
+// Providers wrap failures in friendly messages, but a cancellation must reach
+// the caller unchanged so it is not reported as an error.
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException ? error.name === 'AbortError' : error instanceof Error && error.name === 'AbortError';
+
+export const abortError = () => new DOMException('Generation was cancelled.', 'AbortError');
+
+// Resolves after `ms`, or rejects with an AbortError as soon as `signal` fires.
+export const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(abortError());
+    }, { once: true });
+  });
@@ -0,0 +1,172 @@
+import type { AiProviderId, AiProviderSettings, GenerationOptions, Outline, Presentation, Slide, UploadedImage } from '../types';
+import { abortError, isAbortError, wait, type AiProvider, type AiProviderDefinition, type GenerateDeckRequest, type GenerateOutlineRequest, type RewriteSlideRequest, type TranscribedSegment } from './aiProvider';
+import { toAiError, type AiError } from './aiErrors';
+import { repairDeck, repairOutline, repairSlide, type DeckValidationContext } from './deckValidation';
+import { geminiProvider } from './geminiService';
+import { openAiCompatibleProvider } from './openAiCompatibleService';
+import { mockProvider } from './mockService';
+import { isSlideCountInRange, slideCountDistance, trimToSlideRange } from './generationOptions';
+
+// Entry point the UI uses for every AI call. The active provider and model
+// are chosen at runtime from the model settings panel and persisted locally.
+
+export const AI_PROVIDERS: AiProviderDefinition[] = [geminiProvider, openAiCompatibleProvider, mockProvider];
+
+const SETTINGS_STORAGE_KEY = 'ppt-audio.ai-provider';
+
+const findProvider = (id: AiProviderId): AiProviderDefinition =>
+  AI_PROVIDERS.find(provider => provider.id === id) ?? geminiProvider;
+
+const isProviderId = (value: unknown): value is AiProviderId =>
+  AI_PROVIDERS.some(provider => provider.id === value);
+
+export const defaultProviderSettings = (providerId?: AiProviderId): AiProviderSettings => {
+  const envProvider = import.meta.env.VITE_LLM_PROVIDER;
+  const id = providerId ?? (isProviderId(envProvider) ? envProvider : 'gemini');
+  const usesEnv = !providerId || providerId === envProvider;
+  return {
+    providerId: id,
+    model: (usesEnv && import.meta.env.VITE_LLM_MODEL) || findProvider(id).defaultModel,
+    baseUrl: (usesEnv && import.meta.env.VITE_LLM_BASE_URL) || '',
+    apiKey: '',
+  };
+};
+
+const loadSettings = (): AiProviderSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? 'null');
+    if (stored && isProviderId(stored.providerId)) {
+      return { ...defaultProviderSettings(stored.providerId), ...stored };
+    }
+  } catch (error) {
+    console.warn("Ignoring unreadable AI provider settings:", error);
+  }
+  return defaultProviderSettings();
+};
+
+let activeSettings: AiProviderSettings = loadSettings();
+
+export const getProviderSettings = (): AiProviderSettings => activeSettings;
+
+export const setProviderSettings = (settings: AiProviderSettings) => {
+  activeSettings = settings;
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not persist AI provider settings:", error);
+  }
+};
+
+export const getProviderDefinition = (id: AiProviderId) => findProvider(id);
+
+const activeProvider = (): AiProvider => findProvider(activeSettings.providerId).create(activeSettings);
+
+// Transient failures and malformed replies are retried this many times in
+// total, waiting RETRY_BASE_DELAY_MS, then twice that, and so on.
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  // Called before each new attempt, e.g. to discard partially streamed slides.
+  onRetry?: (attempt: number, error: AiError) => void;
+}
+
+const withRetry = async <T>(action: string, run: () => Promise<T>, { signal, onRetry }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw abortError();
+      const aiError = toAiError(error, action);
+      if (!aiError.retryable || attempt >= RETRY_ATTEMPTS) throw aiError;
+      console.warn(`Attempt ${attempt} to ${action} failed; retrying.`, aiError);
+      onRetry?.(attempt, aiError);
+      // Jitter keeps several open tabs from retrying in lockstep.
+      await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5), signal);
+    }
+  }
+};
+
+export const transcribeAudio = (audioBase64: string, mimeType: string, language?: string): Promise<TranscribedSegment[]> =>
+  withRetry('transcribe the audio', () => activeProvider().transcribe({ audioBase64, mimeType, language }));
+
+// Checks a provider's slides against the uploaded images and requested
+// density, logging whatever had to be repaired.
+const validateDeck = (slides: Presentation, context: DeckValidationContext): Presentation => {
+  const { slides: repaired, repairs } = repairDeck(slides, context);
+  if (repairs.length > 0) console.warn("Repaired generated slides:", repairs);
+  return repaired;
+};
+
+export const generateOutline = (
+  text: string,
+  images: UploadedImage[],
+  options: Pick<GenerateOutlineRequest, 'generation' | 'signal'> & RetryOptions
+): Promise<Outline> =>
+  withRetry('generate the outline', async () => {
+    const { outline, repairs } = repairOutline(
+      await activeProvider().generateOutline({ text, images, generation: options.generation, signal: options.signal }),
+      images.length
+    );
+    if (repairs.length > 0) console.warn("Repaired generated outline:", repairs);
+    return trimToSlideRange(outline, options.generation);
+  }, options);
+
+const slideCountCorrection = (count: number, generation: GenerationOptions) =>
+  `Your previous answer had ${count} ${count === 1 ? 'slide' : 'slides'}, but the deck must have ${
+    generation.minSlides === generation.maxSlides ? `exactly ${generation.minSlides}` : `between ${generation.minSlides} and ${generation.maxSlides}`
+  } slides. ${count > generation.maxSlides ? 'Merge or drop the least important slides.' : 'Cover the material in more depth across more slides.'}`;
+
+// Generates and validates the deck, then enforces the requested slide range:
+// a deck outside it is requested once more (without streaming), and an
+// over-long result is then trimmed. An approved outline already fixes the
+// slide count.
+export const generatePresentationFromText = async (
+  text: string,
+  images: UploadedImage[],
+  options: Pick<GenerateDeckRequest, 'generation' | 'outline' | 'signal' | 'onSlide'> & RetryOptions
+): Promise<Presentation> => {
+  const provider = activeProvider();
+  const { generation, outline, signal, onSlide } = options;
+  const context: DeckValidationContext = { imageCount: images.length, generation };
+  const showSlide = onSlide && ((slide: Slide, index: number) => {
+    const repaired = repairSlide(slide, index, context, []);
+    if (repaired) onSlide(repaired, index);
+  });
+
+  const slides = await withRetry('generate the presentation', async () =>
+    validateDeck(await provider.generateDeck({ text, images, generation, outline, signal, onSlide: showSlide }), context),
+    options
+  );
+  if (outline || isSlideCountInRange(slides.length, generation)) return slides;
+
+  console.warn(`Deck has ${slides.length} slides, outside the requested ${generation.minSlides}-${generation.maxSlides}; requesting it again.`);
+  let retried: Presentation = [];
+  try {
+    retried = await withRetry('generate the presentation', async () => validateDeck(await provider.generateDeck({
+      text,
+      images,
+      generation,
+      signal,
+      correction: slideCountCorrection(slides.length, generation),
+    }), context), { signal });
+  } catch (error) {
+    // The first deck is still usable, so only a cancellation is fatal here.
+    if (isAbortError(error)) throw error;
+    console.warn("Could not re-request the deck; keeping the first attempt.", error);
+  }
+  const best = retried.length > 0 && slideCountDistance(retried.length, generation) < slideCountDistance(slides.length, generation)
+    ? retried
+    : slides;
+  return trimToSlideRange(best, generation);
+};
+
+export const rewriteSlide = (request: RewriteSlideRequest): Promise<Presentation> =>
+  withRetry('rewrite the slide', async () =>
+    validateDeck(await activeProvider().rewriteSlide(request), { imageCount: request.images.length })
+  );
+
+// Draws a picture for a slide from its image prompt; resolves to a data URL.
+export const generateSlideImage = (prompt: string, signal?: AbortSignal): Promise<string> =>
+  withRetry('generate the image', () => activeProvider().generateImage({ prompt, signal }), { signal });
@@ -0,0 +1,146 @@
+import type { TranscriptSegment, TranscriptionChunk } from '../types';
+import type { TranscribedSegment } from './aiProvider';
+import { transcribeAudio } from './aiService';
+import { TRANSCRIPTION_SAMPLE_RATE, decodeToMono, encodeWav, planSegments, sliceSegment } from '../utils/audioSegments';
+import { blobToDataUrl } from '../utils/download';
+import { readMediaDuration } from '../utils/audioFiles';
+
+// High-accuracy transcription of long recordings: the audio is cut into
+// overlapping segments at pauses, the segments are transcribed a few at a
+// time, and the texts are stitched back together.
+
+// Segments sent to the provider at once; more mostly trips rate limits.
+export const TRANSCRIPTION_CONCURRENCY = 3;
+
+export interface SplitRecording {
+  chunks: TranscriptionChunk[];
+  // Audio for each chunk, kept so failed chunks can be sent again.
+  blobs: Blob[];
+}
+
+// Falls back to a single chunk holding the original recording when the
+// browser cannot decode it, so transcription still gets a chance.
+export const splitRecording = async (recording: Blob): Promise<SplitRecording> => {
+  let samples: Float32Array;
+  try {
+    samples = await decodeToMono(recording);
+  } catch (error) {
+    console.warn("Could not decode the recording; transcribing it in one piece.", error);
+    const duration = (await readMediaDuration(recording).catch(() => null)) ?? 0;
+    return { chunks: [{ start: 0, end: duration, status: 'pending', segments: [] }], blobs: [recording] };
+  }
+  const segments = planSegments(samples, TRANSCRIPTION_SAMPLE_RATE);
+  return {
+    chunks: segments.map(segment => ({ ...segment, status: 'pending', segments: [] })),
+    blobs: segments.map(segment => encodeWav(sliceSegment(samples, TRANSCRIPTION_SAMPLE_RATE, segment), TRANSCRIPTION_SAMPLE_RATE)),
+  };
+};
+
+// Moves a chunk's segments onto the recording's timeline. Segments without
+// timings share the chunk's time span in proportion to their length.
+const placeSegments = (transcribed: TranscribedSegment[], chunk: TranscriptionChunk): TranscriptSegment[] => {
+  const totalLength = transcribed.reduce((sum, segment) => sum + segment.text.length, 0) || 1;
+  const span = chunk.end - chunk.start;
+  let cursor = chunk.start;
+  return transcribed.map(segment => {
+    const estimatedEnd = cursor + (span * segment.text.length) / totalLength;
+    const start = segment.start !== undefined ? chunk.start + segment.start : cursor;
+    const end = segment.end !== undefined ? chunk.start + segment.end : Math.max(start, estimatedEnd);
+    cursor = end;
+    return {
+      start: Math.min(start, chunk.end || start),
+      end: Math.min(end, chunk.end || end),
+      ...(segment.speaker ? { speaker: segment.speaker } : {}),
+      text: segment.text,
+    };
+  });
+};
+
+// Transcribes the chunks at `indices` with at most `concurrency` requests in
+// flight. Failures are reported per chunk through `onUpdate` instead of
+// rejecting, so the other chunks keep going.
+export const transcribeChunks = async (
+  chunks: TranscriptionChunk[],
+  blobs: Blob[],
+  indices: number[],
+  onUpdate: (index: number, update: Partial<TranscriptionChunk>) => void,
+  language?: string,
+  concurrency = TRANSCRIPTION_CONCURRENCY
+): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < indices.length) {
+      const index = indices[next++];
+      onUpdate(index, { status: 'transcribing', error: undefined });
+      try {
+        const blob = blobs[index];
+        const transcribed = await transcribeAudio(await blobToDataUrl(blob), blob.type || 'audio/webm', language);
+        onUpdate(index, { status: 'done', segments: placeSegments(transcribed, chunks[index]) });
+      } catch (error) {
+        console.error(`Error transcribing segment ${index + 1}:`, error);
+        onUpdate(index, { status: 'error', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, indices.length) }, worker));
+};
+
+// Neighbouring chunks share a second or two of audio, so the end of one text
+// usually repeats at the start of the next.
+const MAX_OVERLAP_WORDS = 25;
+// The first word or two after a cut may be a fragment the other chunk
+// heard differently.
+const MAX_LEADING_FRAGMENT_WORDS = 2;
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+// Length of the duplicated run at the start of `words`, including any
+// leading fragment before it, or 0 when none is found.
+const findOverlap = (previous: string[], words: string[]): number => {
+  const tail = previous.slice(-MAX_OVERLAP_WORDS).map(normalizeWord);
+  const head = words.slice(0, MAX_OVERLAP_WORDS + MAX_LEADING_FRAGMENT_WORDS).map(normalizeWord);
+  for (let skip = 0; skip <= MAX_LEADING_FRAGMENT_WORDS; skip++) {
+    // Two matching words are required, so a shared "the" is not a repeat.
+    for (let length = Math.min(tail.length, head.length - skip); length >= 2; length--) {
+      const run = tail.slice(-length);
+      if (run.every((word, i) => word === head[skip + i])) return skip + length;
+    }
+  }
+  return 0;
+};
+
+// Removes the words at the start of `text` that repeat the end of `previous`.
+const trimRepeatedWords = (previous: string, text: string): string => {
+  const trimmed = text.trim();
+  const words = trimmed.split(/\s+/);
+  const overlap = previous.trim() ? findOverlap(previous.trim().split(/\s+/), words) : 0;
+  if (overlap === 0) return trimmed;
+  if (overlap >= words.length) return '';
+  // Drop whole words from the front while keeping the text's own line breaks.
+  return trimmed.replace(new RegExp(`^(?:\\S+\\s+){${overlap}}`), '');
+};
+
+// Joins the finished chunks into one timeline. Around each cut, segments are
+// kept from whichever chunk they mostly fall in, and words repeated across the
+// cut are dropped.
+export const stitchChunks = (chunks: TranscriptionChunk[]): TranscriptSegment[] => {
+  const stitched: TranscriptSegment[] = [];
+  chunks.forEach((chunk, index) => {
+    if (chunk.status !== 'done') return;
+    const previous = chunks[index - 1];
+    const next = chunks[index + 1];
+    const adjoinsPrevious = previous?.status === 'done';
+    const cutBefore = adjoinsPrevious ? (chunk.start + previous.end) / 2 : -Infinity;
+    const cutAfter = next?.status === 'done' ? (next.start + chunk.end) / 2 : Infinity;
+
+    chunk.segments
+      .filter(segment => (segment.start + segment.end) / 2 >= cutBefore && (segment.start + segment.end) / 2 < cutAfter)
+      .forEach((segment, i) => {
+        const text = i === 0 && adjoinsPrevious && stitched.length > 0
+          ? trimRepeatedWords(stitched[stitched.length - 1].text, segment.text)
+          : segment.text;
+        if (text) stitched.push({ ...segment, text });
+      });
+  });
+  return stitched;
+};
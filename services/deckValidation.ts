@@ -0,0 +1,149 @@
+import type { BulletDensity, GenerationOptions, Outline, Presentation, Slide, SlideColumn } from '../types';
+import { AiResponseError } from './aiErrors';
+import { getSlideLayout, isSlideLayout, normalizeSlideLayout, usesBullets } from '../utils/slideLayouts';
+
+// Field-level checks for slides returned by an AI provider. Problems that can
+// be fixed without guessing are repaired and reported; only a reply with no
+// usable slide at all is rejected.
+
+export interface DeckValidationContext {
+  // Number of uploaded images; when omitted, image references are not checked.
+  imageCount?: number;
+  generation?: GenerationOptions;
+}
+
+export interface DeckRepairResult {
+  slides: Presentation;
+  // One human-readable line per repair, e.g. for logging.
+  repairs: string[];
+}
+
+// Generous upper bounds per density; anything beyond moves to the notes.
+const MAX_BULLETS: Record<BulletDensity, number> = { sparse: 4, balanced: 6, dense: 8 };
+const DEFAULT_MAX_BULLETS = 8;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const cleanText = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+// Accepts an array of strings, or a single string with one point per line.
+const toPoints = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split('\n') : [];
+  return items.map(item => cleanText(item).replace(/^[-•*]\s+/, '')).filter(Boolean);
+};
+
+// Maps loose references such as "image 2", "[IMAGE_2]" or "Image-2" to
+// "IMAGE_2"; returns undefined when the image does not exist.
+export const normalizeImageReference = (value: unknown, imageCount?: number): string | undefined => {
+  const match = typeof value === 'string' ? /^\W*image[\s_-]*(\d+)\W*$/i.exec(value) : null;
+  if (!match) return undefined;
+  const number = Number(match[1]);
+  if (number < 1 || (imageCount !== undefined && number > imageCount)) return undefined;
+  return `IMAGE_${number}`;
+};
+
+const repairColumns = (value: unknown): SlideColumn[] | undefined =>
+  Array.isArray(value)
+    ? value.filter(isObject).map(column => ({ heading: cleanText(column.heading), points: toPoints(column.points) }))
+    : undefined;
+
+// Returns the repaired slide, or null when there is nothing worth keeping.
+export const repairSlide = (value: unknown, index: number, context: DeckValidationContext, repairs: string[]): Slide | null => {
+  const label = `Slide ${index + 1}`;
+  if (!isObject(value)) {
+    repairs.push(`${label} was not an object and was dropped.`);
+    return null;
+  }
+
+  if (value.content !== undefined && !Array.isArray(value.content)) repairs.push(`${label}: content was not a list and was converted.`);
+  const content = toPoints(value.content);
+  let speakerNotes = cleanText(value.speakerNotes);
+  const subtitle = cleanText(value.subtitle);
+  const columns = repairColumns(value.columns);
+  const stat = isObject(value.stat) ? { value: cleanText(value.stat.value), label: cleanText(value.stat.label) } : undefined;
+  const quote = isObject(value.quote) ? { text: cleanText(value.quote.text), attribution: cleanText(value.quote.attribution) } : undefined;
+  const imagePrompt = cleanText(value.imagePrompt);
+
+  let title = cleanText(value.title);
+  if (!title) {
+    title = subtitle || content[0] || stat?.label || quote?.attribution || columns?.[0]?.heading || '';
+    const hasBody = content.length > 0 || !!speakerNotes || !!stat?.value || !!quote?.text || !!columns?.some(column => column.points.length > 0);
+    if (!title && !hasBody) {
+      repairs.push(`${label} was empty and was dropped.`);
+      return null;
+    }
+    title = title || label;
+    repairs.push(`${label} had no title; used "${title}".`);
+  }
+
+  const slide: Slide = { title, content, speakerNotes };
+  if (isSlideLayout(value.layout)) slide.layout = value.layout;
+  else if (value.layout !== undefined) repairs.push(`${label}: unknown layout "${String(value.layout)}" replaced with bullets.`);
+  if (value.subtitle !== undefined) slide.subtitle = subtitle;
+  if (columns) slide.columns = columns;
+  if (stat) slide.stat = stat;
+  if (quote) slide.quote = quote;
+  if (imagePrompt) slide.imagePrompt = imagePrompt;
+
+  if (value.imagePlaceholder !== undefined && value.imagePlaceholder !== null && value.imagePlaceholder !== '') {
+    const reference = normalizeImageReference(value.imagePlaceholder, context.imageCount);
+    if (!reference) {
+      repairs.push(`${label}: removed reference to unknown image "${String(value.imagePlaceholder)}".`);
+    } else {
+      if (reference !== value.imagePlaceholder) repairs.push(`${label}: image reference "${String(value.imagePlaceholder)}" read as ${reference}.`);
+      slide.imagePlaceholder = reference;
+    }
+  }
+
+  // Agenda items are a table of contents, so their count is not limited.
+  const layout = getSlideLayout(slide);
+  const maxBullets = context.generation ? MAX_BULLETS[context.generation.bulletDensity] : DEFAULT_MAX_BULLETS;
+  if (usesBullets(layout) && layout !== 'agenda' && content.length > maxBullets) {
+    const overflow = content.splice(maxBullets);
+    speakerNotes = [speakerNotes, `Additional points: ${overflow.join('; ')}`].filter(Boolean).join('\n\n');
+    slide.speakerNotes = speakerNotes;
+    repairs.push(`${label} had ${maxBullets + overflow.length} bullet points; moved ${overflow.length} to the speaker notes.`);
+  }
+
+  const normalized = normalizeSlideLayout(slide);
+  if (normalized.layout !== slide.layout) {
+    repairs.push(`${label}: layout "${slide.layout}" was missing its fields and became "${normalized.layout}".`);
+  }
+  return normalized;
+};
+
+// Repairs every slide and rejects the reply only if none survive.
+export const repairDeck = (values: unknown[], context: DeckValidationContext = {}): DeckRepairResult => {
+  const repairs: string[] = [];
+  const slides = values
+    .map((value, index) => repairSlide(value, index, context, repairs))
+    .filter((slide): slide is Slide => slide !== null);
+  if (slides.length === 0) {
+    throw new AiResponseError("The AI returned no usable slides.", repairs);
+  }
+  return { slides, repairs };
+};
+
+// Outline entries get the same title and image checks as slides.
+export const repairOutline = (outline: Outline, imageCount: number): { outline: Outline; repairs: string[] } => {
+  const repairs: string[] = [];
+  const repaired = outline
+    .filter((entry, index) => {
+      if (entry.title.trim()) return true;
+      repairs.push(`Outline entry ${index + 1} had no title and was dropped.`);
+      return false;
+    })
+    .map((entry, index) => {
+      const { imagePlaceholder, ...rest } = entry;
+      if (imagePlaceholder === undefined) return entry;
+      const reference = normalizeImageReference(imagePlaceholder, imageCount);
+      if (!reference) repairs.push(`Outline entry ${index + 1}: removed reference to unknown image "${imagePlaceholder}".`);
+      return reference ? { ...rest, imagePlaceholder: reference } : rest;
+    });
+  if (repaired.length === 0) {
+    throw new AiResponseError("The AI returned an empty outline.", repairs);
+  }
+  return { outline: repaired, repairs };
+};
@@ -1,40 +1,24 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
-import type { Presentation, UploadedImage } from '../types';
-
-if (!import.meta.env.VITE_API_KEY) {
-    throw new Error("VITE_API_KEY environment variable not set");
-}
+import type { AiProviderSettings, Outline, Presentation } from '../types';
+import { abortError, isAbortError, type AiProviderDefinition, type GenerateDeckRequest, type GenerateImageRequest, type GenerateOutlineRequest, type RewriteSlideRequest, type TranscribeRequest, type TranscribedSegment } from './aiProvider';
+import { AiError, AiResponseError, toAiError } from './aiErrors';
+import { REWRITE_SYSTEM_INSTRUCTION, buildDeckPrompt, buildDeckSystemInstruction, buildImageGenerationPrompt, buildOutlineSystemInstruction, buildRewritePrompt, buildTranscribePrompt, createSlideStreamParser, parseOutlineJson, parsePresentationJson, parseTranscriptJson } from './prompts';
+import { SLIDE_LAYOUTS } from '../utils/slideLayouts';
 
-const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
-
-export const transcribeAudio = async (audioBase64: string, mimeType: string): Promise<string> => {
-  try {
-    const audioPart = {
-      inlineData: {
-        data: audioBase64.split(",")[1],
-        mimeType,
-      },
-    };
-    const textPart = { text: "Transcribe this audio recording accurately. Provide only the transcribed text." };
-    
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: { parts: [audioPart, textPart] },
-    });
-
-    return response.text.trim();
-  } catch (error) {
-    console.error("Error transcribing audio with Gemini:", error);
-    throw new Error("Failed to transcribe audio. Please check the console for details.");
-  }
-};
+// Text models cannot draw, so pictures come from Imagen unless the configured
+// model is already an Imagen model.
+const DEFAULT_IMAGE_MODEL = 'imagen-3.0-generate-002';
 
 const presentationSchema = {
   type: Type.ARRAY,
   items: {
     type: Type.OBJECT,
     properties: {
+      layout: {
+        type: Type.STRING,
+        enum: SLIDE_LAYOUTS.map(layout => layout.id),
+        description: 'How the slide is arranged; see the layout guide in the instructions.',
+      },
       title: {
         type: Type.STRING,
         description: 'A concise and engaging title for the slide.',
@@ -54,8 +38,77 @@ const presentationSchema = {
         type: Type.STRING,
         description: 'If this slide should include one of the user-provided images, specify its placeholder here (e.g., "IMAGE_1", "IMAGE_2"). Otherwise, omit this field.'
       },
+      imagePrompt: {
+        type: Type.STRING,
+        description: 'For slides without an imagePlaceholder that would benefit from a picture: one sentence describing an illustration for an image generator. Otherwise, omit this field.',
+      },
+      subtitle: {
+        type: Type.STRING,
+        description: "Subtitle for 'title' and 'section' slides.",
+      },
+      columns: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            heading: { type: Type.STRING },
+            points: { type: Type.ARRAY, items: { type: Type.STRING } },
+          },
+          required: ['heading', 'points'],
+        },
+        description: "Exactly two columns for 'two-column' slides.",
+      },
+      stat: {
+        type: Type.OBJECT,
+        properties: {
+          value: { type: Type.STRING, description: 'The headline figure, e.g. "42%".' },
+          label: { type: Type.STRING },
+        },
+        required: ['value', 'label'],
+        description: "The headline number for 'stat' slides.",
+      },
+      quote: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          attribution: { type: Type.STRING },
+        },
+        required: ['text', 'attribution'],
+        description: "The quotation for 'quote' slides.",
+      },
     },
-    required: ["title", "content", "speakerNotes"],
+    required: ["layout", "title", "content", "speakerNotes"],
+  },
+};
+
+const transcriptSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      start: { type: Type.STRING, description: 'When the segment starts, as "MM:SS.s".' },
+      end: { type: Type.STRING, description: 'When the segment ends, as "MM:SS.s".' },
+      speaker: { type: Type.STRING, description: 'Who is speaking, e.g. "Speaker 1".' },
+      text: { type: Type.STRING, description: 'The words spoken in this segment.' },
+    },
+    required: ['start', 'end', 'text'],
+  },
+};
+
+const outlineSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING, description: 'A concise title for the planned slide.' },
+      intent: { type: Type.STRING, description: 'One line on what the slide should get across.' },
+      layout: { type: Type.STRING, enum: SLIDE_LAYOUTS.map(layout => layout.id) },
+      imagePlaceholder: {
+        type: Type.STRING,
+        description: 'The user-provided image (e.g. "IMAGE_1") proposed for this slide, if any. Otherwise, omit this field.',
+      },
+    },
+    required: ['title', 'intent', 'layout'],
   },
 };
 
@@ -68,47 +121,156 @@ const fileToGenerativePart = (base64: string, mimeType: string) => {
     };
 };
 
-export const generatePresentationFromText = async (text: string, images: UploadedImage[]): Promise<Presentation> => {
-  const systemInstruction = `You are an expert presentation creator. Your task is to take the user's raw text transcript and structure it into a professional and coherent presentation. The presentation should have a logical flow. For each slide, create a concise title, a list of key bullet points (as an array of strings), and detailed speaker notes. The first slide should be a title slide with a captivating title for the overall presentation. If the user provides images, incorporate them into relevant slides. Use the provided image descriptions to guide their placement. When you use an image on a slide, set the 'imagePlaceholder' property in the JSON to the corresponding image identifier (e.g., 'IMAGE_1').`;
-  
-  let textPrompt = `Here is the transcript:\n\n${text}`;
-  
-  if (images.length > 0) {
-    textPrompt += `\n\n---\n\nHere are the user-provided images to include in the presentation. Use their descriptions to place them on the most relevant slides:`;
-    images.forEach((image, index) => {
-      textPrompt += `\nIMAGE_${index + 1}: ${image.description || 'An image provided by the user.'}`;
+// The client is created lazily so a missing key only fails the request that
+// needs it instead of the whole app at import time.
+const createClient = (settings: AiProviderSettings) => {
+  const apiKey = settings.apiKey || import.meta.env.VITE_API_KEY;
+  if (!apiKey) {
+    throw new Error("No Gemini API key configured. Set VITE_API_KEY or enter a key in the model settings.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+const transcribe = async (settings: AiProviderSettings, { audioBase64, mimeType, language }: TranscribeRequest): Promise<TranscribedSegment[]> => {
+  try {
+    const ai = createClient(settings);
+    const audioPart = fileToGenerativePart(audioBase64, mimeType);
+    const textPart = { text: buildTranscribePrompt(language) };
+
+    const response = await ai.models.generateContent({
+      model: settings.model,
+      contents: { parts: [audioPart, textPart] },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: transcriptSchema,
+      },
     });
+
+    return parseTranscriptJson(response.text ?? '');
+  } catch (error) {
+    console.error("Error transcribing audio with Gemini:", error);
+    throw toAiError(error, 'transcribe the audio');
   }
+};
 
+const generateOutline = async (settings: AiProviderSettings, { text, images, generation, signal }: GenerateOutlineRequest): Promise<Outline> => {
   const parts = [
-    { text: textPrompt },
+    { text: buildDeckPrompt(text, images) },
     ...images.map(image => fileToGenerativePart(image.base64, image.file.type))
   ];
 
   try {
+    const ai = createClient(settings);
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+      model: settings.model,
+      contents: { parts },
+      config: {
+        systemInstruction: buildOutlineSystemInstruction(generation),
+        responseMimeType: "application/json",
+        responseSchema: outlineSchema,
+        temperature: generation.temperature,
+        abortSignal: signal,
+      },
+    });
+    return parseOutlineJson(response.text ?? '');
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw abortError();
+    console.error("Error generating outline from Gemini:", error);
+    throw toAiError(error, 'generate the outline');
+  }
+};
+
+// Streams the reply so slides reach `onSlide` while the rest is still being written.
+const generateDeck = async (settings: AiProviderSettings, { text, images, generation, outline, correction, signal, onSlide }: GenerateDeckRequest): Promise<Presentation> => {
+  const parts = [
+    { text: buildDeckPrompt(text, images, outline, correction) },
+    ...images.map(image => fileToGenerativePart(image.base64, image.file.type))
+  ];
+
+  try {
+    const ai = createClient(settings);
+    const stream = await ai.models.generateContentStream({
+      model: settings.model,
       contents: { parts },
       config: {
-        systemInstruction,
+        systemInstruction: buildDeckSystemInstruction(generation),
+        responseMimeType: "application/json",
+        responseSchema: presentationSchema,
+        temperature: generation.temperature,
+        abortSignal: signal,
+      },
+    });
+
+    const parser = createSlideStreamParser(onSlide ?? (() => undefined));
+    for await (const chunk of stream) {
+      if (signal?.aborted) throw abortError();
+      parser.push(chunk.text ?? '');
+    }
+    return parsePresentationJson(parser.text());
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw abortError();
+    console.error("Error generating presentation from Gemini:", error);
+    throw toAiError(error, 'generate the presentation');
+  }
+};
+
+const rewriteSlide = async (settings: AiProviderSettings, request: RewriteSlideRequest): Promise<Presentation> => {
+  try {
+    const ai = createClient(settings);
+    const response = await ai.models.generateContent({
+      model: settings.model,
+      contents: { parts: [{ text: buildRewritePrompt(request) }] },
+      config: {
+        systemInstruction: REWRITE_SYSTEM_INSTRUCTION,
         responseMimeType: "application/json",
         responseSchema: presentationSchema,
         temperature: 0.7,
       },
     });
 
-    const jsonString = response.text.trim();
-    const presentationData = JSON.parse(jsonString);
+    return parsePresentationJson(response.text ?? '');
+  } catch (error) {
+    console.error("Error rewriting slide with Gemini:", error);
+    throw toAiError(error, 'rewrite the slide');
+  }
+};
 
-    if (Array.isArray(presentationData) && presentationData.every(slide => 
-        'title' in slide && 'content' in slide && 'speakerNotes' in slide && Array.isArray(slide.content)
-    )) {
-      return presentationData as Presentation;
-    } else {
-      throw new Error("AI response did not match the expected presentation format.");
+const generateImage = async (settings: AiProviderSettings, { prompt, signal }: GenerateImageRequest): Promise<string> => {
+  try {
+    const ai = createClient(settings);
+    const response = await ai.models.generateImages({
+      model: /imagen/i.test(settings.model) ? settings.model : DEFAULT_IMAGE_MODEL,
+      prompt: buildImageGenerationPrompt(prompt),
+      config: {
+        numberOfImages: 1,
+        aspectRatio: '4:3',
+        abortSignal: signal,
+      },
+    });
+    const generated = response.generatedImages?.[0];
+    // A filtered prompt is filtered again, so only an empty reply is retried.
+    if (generated?.raiFilteredReason) {
+      throw new AiError(`The image was blocked by the provider's safety filter: ${generated.raiFilteredReason} Try rewording the prompt.`);
     }
+    if (!generated?.image?.imageBytes) throw new AiResponseError("The AI returned no image.");
+    return `data:${generated.image.mimeType ?? 'image/png'};base64,${generated.image.imageBytes}`;
   } catch (error) {
-    console.error("Error generating presentation from Gemini:", error);
-    throw new Error("Failed to generate presentation. Please check the console for details.");
+    if (isAbortError(error) || signal?.aborted) throw abortError();
+    console.error("Error generating image with Gemini:", error);
+    throw toAiError(error, 'generate the image');
   }
 };
+
+export const geminiProvider: AiProviderDefinition = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  needsBaseUrl: false,
+  create: settings => ({
+    transcribe: request => transcribe(settings, request),
+    generateOutline: request => generateOutline(settings, request),
+    generateDeck: request => generateDeck(settings, request),
+    rewriteSlide: request => rewriteSlide(settings, request),
+    generateImage: request => generateImage(settings, request),
+  }),
+};
@@ -0,0 +1,97 @@
+import type { BulletDensity, GenerationOptions, GenerationTone } from '../types';
+
+// Defaults, persistence and slide-count rules for the generation controls
+// shown next to the Generate button.
+
+const GENERATION_OPTIONS_STORAGE_KEY = 'ppt-audio.generation-options';
+
+export const MIN_SLIDE_COUNT = 1;
+export const MAX_SLIDE_COUNT = 40;
+
+export const GENERATION_TONES: { id: GenerationTone; label: string; instruction: string }[] = [
+  { id: 'executive', label: 'Executive', instruction: 'Lead with conclusions and business impact. Keep wording crisp and decision-oriented, and skip implementation detail.' },
+  { id: 'technical', label: 'Technical', instruction: 'Be precise and specific. Keep technical terms, figures and mechanisms, and explain how things work.' },
+  { id: 'teaching', label: 'Teaching', instruction: 'Build understanding step by step. Define terms, use examples, and keep the language approachable.' },
+];
+
+export const BULLET_DENSITIES: { id: BulletDensity; label: string; instruction: string }[] = [
+  { id: 'sparse', label: 'Sparse', instruction: 'Use at most 3 short bullet points per slide, a few words each, and put the detail in the speaker notes.' },
+  { id: 'balanced', label: 'Balanced', instruction: 'Use 3 to 5 bullet points per slide, each a single short sentence.' },
+  { id: 'dense', label: 'Dense', instruction: 'Use 5 to 7 bullet points per slide; each may be a full sentence with specifics.' },
+];
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  audience: '',
+  tone: 'executive',
+  minSlides: 6,
+  maxSlides: 10,
+  bulletDensity: 'balanced',
+  language: '',
+  includeTitleSlide: true,
+  includeAgenda: false,
+  includeSummary: false,
+  temperature: 0.7,
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clampCount = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(MAX_SLIDE_COUNT, Math.max(MIN_SLIDE_COUNT, Math.round(value)))
+    : fallback;
+
+// Fills in missing fields and keeps the slide range ordered, so stored or
+// half-edited options are always usable.
+export const normalizeGenerationOptions = (value: unknown): GenerationOptions => {
+  if (!isObject(value)) return DEFAULT_GENERATION_OPTIONS;
+  const base = DEFAULT_GENERATION_OPTIONS;
+  const minSlides = clampCount(value.minSlides, base.minSlides);
+  const maxSlides = Math.max(minSlides, clampCount(value.maxSlides, base.maxSlides));
+  return {
+    audience: typeof value.audience === 'string' ? value.audience : base.audience,
+    tone: GENERATION_TONES.some(tone => tone.id === value.tone) ? value.tone as GenerationTone : base.tone,
+    minSlides,
+    maxSlides,
+    bulletDensity: BULLET_DENSITIES.some(density => density.id === value.bulletDensity) ? value.bulletDensity as BulletDensity : base.bulletDensity,
+    language: typeof value.language === 'string' ? value.language : base.language,
+    includeTitleSlide: typeof value.includeTitleSlide === 'boolean' ? value.includeTitleSlide : base.includeTitleSlide,
+    includeAgenda: typeof value.includeAgenda === 'boolean' ? value.includeAgenda : base.includeAgenda,
+    includeSummary: typeof value.includeSummary === 'boolean' ? value.includeSummary : base.includeSummary,
+    temperature: typeof value.temperature === 'number' && Number.isFinite(value.temperature)
+      ? Math.min(1, Math.max(0, value.temperature))
+      : base.temperature,
+  };
+};
+
+export const loadGenerationOptions = (): GenerationOptions => {
+  try {
+    return normalizeGenerationOptions(JSON.parse(localStorage.getItem(GENERATION_OPTIONS_STORAGE_KEY) ?? 'null'));
+  } catch (error) {
+    console.warn("Ignoring unreadable generation options:", error);
+    return DEFAULT_GENERATION_OPTIONS;
+  }
+};
+
+export const saveGenerationOptions = (options: GenerationOptions) => {
+  try {
+    localStorage.setItem(GENERATION_OPTIONS_STORAGE_KEY, JSON.stringify(options));
+  } catch (error) {
+    console.warn("Could not persist generation options:", error);
+  }
+};
+
+export const isSlideCountInRange = (count: number, options: GenerationOptions) =>
+  count >= options.minSlides && count <= options.maxSlides;
+
+// How far a deck of `count` slides is from the requested range.
+export const slideCountDistance = (count: number, options: GenerationOptions) =>
+  count < options.minSlides ? options.minSlides - count : Math.max(0, count - options.maxSlides);
+
+// Cuts an over-long deck (or outline) down to the maximum, dropping slides
+// from the end of the body so the title slide and a closing summary survive.
+export const trimToSlideRange = <T>(items: T[], options: GenerationOptions): T[] => {
+  if (items.length <= options.maxSlides) return items;
+  if (!options.includeSummary || options.maxSlides < 2) return items.slice(0, options.maxSlides);
+  return [...items.slice(0, options.maxSlides - 1), items[items.length - 1]];
+};
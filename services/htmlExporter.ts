@@ -0,0 +1,140 @@
+import { createElement } from 'react';
+import type { Presentation, Theme, UploadedImage } from '../types';
+import { PrintableSlide } from '../components/SlideContent';
+import { collectPageStyles, withOffscreenRender } from '../utils/offscreenRender';
+
+// Exports a deck as one self-contained HTML file. Slides are rendered by the
+// same components as the viewer, and the CSS the page generated for them is
+// copied in, so the file looks like what was reviewed. Images are already data
+// URLs and travel inside the markup. A small script adds keyboard and swipe
+// navigation and a speaker-notes panel.
+
+const SLIDE_WIDTH = 1280;
+const SLIDE_HEIGHT = 720;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Layout of the exported page around the slides. Each slide is drawn at its
+// native size and scaled to the window through --deck-scale.
+const DECK_CSS = `
+html, body { margin: 0; height: 100%; overflow: hidden; }
+body { display: flex; flex-direction: column; background: #000; animation: none; }
+.deck-slide { flex: 1; display: flex; flex-direction: column; min-height: 0; }
+.deck-slide[hidden] { display: none; }
+.deck-stage { flex: 1; display: flex; align-items: center; justify-content: center; min-height: 0; }
+.deck-frame { position: relative; width: calc(${SLIDE_WIDTH}px * var(--deck-scale, 1)); height: calc(${SLIDE_HEIGHT}px * var(--deck-scale, 1)); }
+.deck-frame > div { position: absolute; top: 0; left: 0; width: ${SLIDE_WIDTH}px; height: ${SLIDE_HEIGHT}px; transform: scale(var(--deck-scale, 1)); transform-origin: top left; }
+.deck-notes { display: none; max-height: 30vh; overflow-y: auto; margin: 0; padding: 16px 24px; background: #111827; color: #e5e7eb; font: 18px/1.5 sans-serif; white-space: pre-wrap; }
+.show-notes .deck-notes { display: block; }
+.deck-bar { display: flex; justify-content: space-between; padding: 6px 16px; background: #111827; color: #9ca3af; font: 13px sans-serif; }
+`;
+
+// Mirrors useSlideNavigation: arrows, PageUp/PageDown (presentation
+// clickers), space, Enter, N/P, Home/End and swipes. S toggles the notes and
+// F goes full screen. The URL hash keeps the current slide number.
+const DECK_SCRIPT = `
+(function () {
+  var slides = document.querySelectorAll('.deck-slide');
+  var counter = document.querySelector('.deck-counter');
+  var current = 0;
+
+  function fit() {
+    var stage = slides[current].querySelector('.deck-stage');
+    var scale = Math.min(stage.clientWidth / ${SLIDE_WIDTH}, stage.clientHeight / ${SLIDE_HEIGHT});
+    document.documentElement.style.setProperty('--deck-scale', String(scale));
+  }
+
+  function show(index) {
+    current = Math.max(0, Math.min(slides.length - 1, index));
+    for (var i = 0; i < slides.length; i++) slides[i].hidden = i !== current;
+    counter.textContent = (current + 1) + ' / ' + slides.length;
+    history.replaceState(null, '', '#' + (current + 1));
+    fit();
+  }
+
+  function toggleNotes() {
+    document.body.classList.toggle('show-notes');
+    fit();
+  }
+
+  document.addEventListener('keydown', function (event) {
+    switch (event.key) {
+      case 'ArrowRight': case 'ArrowDown': case 'PageDown': case ' ': case 'Enter': case 'n':
+        event.preventDefault(); show(current + 1); break;
+      case 'ArrowLeft': case 'ArrowUp': case 'PageUp': case 'Backspace': case 'p':
+        event.preventDefault(); show(current - 1); break;
+      case 'Home': event.preventDefault(); show(0); break;
+      case 'End': event.preventDefault(); show(slides.length - 1); break;
+      case 's': toggleNotes(); break;
+      case 'f':
+        if (document.fullscreenElement) document.exitFullscreen();
+        else if (document.documentElement.requestFullscreen) document.documentElement.requestFullscreen();
+        break;
+    }
+  });
+
+  var touchStart = null;
+  document.addEventListener('touchstart', function (event) {
+    var touch = event.touches[0];
+    touchStart = touch ? { x: touch.clientX, y: touch.clientY } : null;
+  }, { passive: true });
+  document.addEventListener('touchend', function (event) {
+    var touch = event.changedTouches[0];
+    if (!touchStart || !touch) return;
+    var dx = touch.clientX - touchStart.x;
+    var dy = touch.clientY - touchStart.y;
+    touchStart = null;
+    if (Math.abs(dx) < 50 || Math.abs(dx) < Math.abs(dy)) return;
+    show(dx < 0 ? current + 1 : current - 1);
+  });
+
+  window.addEventListener('resize', fit);
+  show((parseInt(location.hash.slice(1), 10) || 1) - 1);
+})();
+`;
+
+// Renders the deck's markup off-screen, next to the CSS generated for it.
+const renderDeck = (presentation: Presentation, images: UploadedImage[], theme: Theme) =>
+  withOffscreenRender(
+    presentation.map((slide, index) =>
+      createElement('section', { key: index, className: 'deck-slide', 'aria-label': `Slide ${index + 1}` },
+        createElement('div', { className: 'deck-stage' },
+          createElement('div', { className: 'deck-frame' },
+            createElement('div', null,
+              createElement(PrintableSlide, { slide, images, theme, slideNumber: index + 1, showNotes: false })))),
+        createElement('pre', { className: 'deck-notes', 'aria-label': 'Speaker notes' }, slide.speakerNotes || 'No speaker notes.'))
+    ),
+    SLIDE_WIDTH,
+    async container => ({ markup: container.innerHTML, css: await collectPageStyles() })
+  );
+
+export const exportPresentationToHtml = async (
+  presentation: Presentation,
+  images: UploadedImage[],
+  theme: Theme
+): Promise<Blob> => {
+  const { markup, css } = await renderDeck(presentation, images, theme);
+  const title = presentation[0]?.title || 'Presentation';
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="generator" content="Voice to Presentation Generator">
+<title>${escapeHtml(title)}</title>
+<style>
+${css}
+${DECK_CSS}
+</style>
+</head>
+<body>
+${markup}
+<div class="deck-bar"><span class="deck-counter"></span><span>← → navigate · S notes · F full screen</span></div>
+<script>${DECK_SCRIPT}</script>
+</body>
+</html>
+`;
+  return new Blob([html], { type: 'text/html' });
+};
@@ -0,0 +1,166 @@
+import { createElement } from 'react';
+import html2canvas from 'html2canvas';
+import JSZip from 'jszip';
+import type { Presentation, Theme, UploadedImage } from '../types';
+import { PrintableSlide } from '../components/SlideContent';
+import { collectPageStyles, withOffscreenRender } from '../utils/offscreenRender';
+
+// Exports slides as pictures: one slide as PNG or SVG, every slide zipped as
+// numbered files, or a contact sheet of the whole deck. Slides are rendered
+// off-screen by the viewer's own components. PNGs are captured with
+// html2canvas. SVGs wrap the rendered markup and its CSS in a foreignObject,
+// so their text stays sharp, but only browsers display them faithfully.
+
+export type SlideImageFormat = 'png' | 'svg';
+export type SlideImageTarget = 'current' | 'all' | 'contact-sheet';
+
+export interface SlideImageOptions {
+  target: SlideImageTarget;
+  // Ignored for contact sheets, which are always PNG.
+  format: SlideImageFormat;
+  // Pixel width of each slide image, or of the whole contact sheet.
+  width: number;
+}
+
+export const SLIDE_IMAGE_TARGETS: { id: SlideImageTarget; label: string }[] = [
+  { id: 'current', label: 'Current slide' },
+  { id: 'all', label: 'All slides (zip)' },
+  { id: 'contact-sheet', label: 'Contact sheet' },
+];
+
+export const SLIDE_IMAGE_WIDTHS = [640, 1280, 1920, 3840];
+
+export const DEFAULT_SLIDE_IMAGE_OPTIONS: SlideImageOptions = {
+  target: 'current',
+  format: 'png',
+  width: 1920,
+};
+
+const SLIDE_WIDTH = 1280;
+const SLIDE_HEIGHT = 720;
+
+const CONTACT_SHEET_BACKGROUND = '#111827';
+const CONTACT_SHEET_TEXT = '#e5e7eb';
+
+export const slideImageHeight = (width: number) => Math.round(width * SLIDE_HEIGHT / SLIDE_WIDTH);
+
+// Renders the given slides off-screen, one native-size frame each, and hands
+// the frames to `use`.
+const withRenderedSlides = <T>(
+  indices: number[],
+  presentation: Presentation,
+  images: UploadedImage[],
+  theme: Theme,
+  use: (frames: HTMLElement[]) => Promise<T>
+) =>
+  withOffscreenRender(
+    indices.map(index =>
+      createElement('div', { key: index, style: { width: SLIDE_WIDTH, height: SLIDE_HEIGHT } },
+        createElement(PrintableSlide, { slide: presentation[index], images, theme, slideNumber: index + 1, showNotes: false }))
+    ),
+    SLIDE_WIDTH,
+    container => use(Array.from(container.children) as HTMLElement[])
+  );
+
+const captureCanvas = (frame: HTMLElement, width: number, theme: Theme) =>
+  html2canvas(frame, {
+    scale: width / SLIDE_WIDTH,
+    useCORS: true,
+    backgroundColor: theme.colors.background,
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image.'))), 'image/png');
+  });
+
+const frameToSvg = async (frame: HTMLElement, width: number): Promise<Blob> => {
+  const css = await collectPageStyles();
+  const clone = frame.cloneNode(true) as HTMLElement;
+  const style = document.createElement('style');
+  style.textContent = css;
+  clone.prepend(style);
+  const markup = new XMLSerializer().serializeToString(clone);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${slideImageHeight(width)}" viewBox="0 0 ${SLIDE_WIDTH} ${SLIDE_HEIGHT}">`
+    + `<foreignObject x="0" y="0" width="${SLIDE_WIDTH}" height="${SLIDE_HEIGHT}">${markup}</foreignObject></svg>`;
+  return new Blob([svg], { type: 'image/svg+xml' });
+};
+
+const frameToImage = async (frame: HTMLElement, format: SlideImageFormat, width: number, theme: Theme): Promise<Blob> =>
+  format === 'svg' ? frameToSvg(frame, width) : canvasToBlob(await captureCanvas(frame, width, theme));
+
+// `index` is 0-based.
+export const exportSlideImage = (
+  presentation: Presentation,
+  index: number,
+  images: UploadedImage[],
+  theme: Theme,
+  format: SlideImageFormat,
+  width: number
+): Promise<Blob> =>
+  withRenderedSlides([index], presentation, images, theme, ([frame]) => frameToImage(frame, format, width, theme));
+
+// slide-01.png, slide-02.png, … padded so the files sort in slide order.
+export const slideImageFileName = (index: number, slideCount: number, format: SlideImageFormat) =>
+  `slide-${String(index + 1).padStart(Math.max(2, String(slideCount).length), '0')}.${format}`;
+
+export const exportSlideImagesZip = (
+  presentation: Presentation,
+  images: UploadedImage[],
+  theme: Theme,
+  format: SlideImageFormat,
+  width: number
+): Promise<Blob> =>
+  withRenderedSlides(presentation.map((_, index) => index), presentation, images, theme, async frames => {
+    const zip = new JSZip();
+    for (const [index, frame] of frames.entries()) {
+      zip.file(slideImageFileName(index, presentation.length, format), await frameToImage(frame, format, width, theme));
+    }
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+  });
+
+// Shortens text with an ellipsis until it fits `maxWidth`.
+const fitText = (context: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  if (context.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted && context.measureText(`${fitted}…`).width > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}…`;
+};
+
+// Every slide on one PNG, in a roughly square grid, each captioned with its
+// number and title.
+export const exportContactSheet = (
+  presentation: Presentation,
+  images: UploadedImage[],
+  theme: Theme,
+  width: number
+): Promise<Blob> =>
+  withRenderedSlides(presentation.map((_, index) => index), presentation, images, theme, async frames => {
+    const columns = Math.max(1, Math.ceil(Math.sqrt(presentation.length)));
+    const rows = Math.ceil(presentation.length / columns);
+    const gap = Math.round(width / 64);
+    const thumbnailWidth = (width - gap * (columns + 1)) / columns;
+    const thumbnailHeight = thumbnailWidth * SLIDE_HEIGHT / SLIDE_WIDTH;
+    const fontSize = Math.max(12, Math.round(thumbnailWidth / 28));
+    const cellHeight = thumbnailHeight + fontSize * 2;
+
+    const sheet = document.createElement('canvas');
+    sheet.width = width;
+    sheet.height = Math.round(gap * (rows + 1) + cellHeight * rows);
+    const context = sheet.getContext('2d');
+    if (!context) throw new Error('Could not draw the contact sheet.');
+    context.fillStyle = CONTACT_SHEET_BACKGROUND;
+    context.fillRect(0, 0, sheet.width, sheet.height);
+    context.font = `${fontSize}px Poppins, sans-serif`;
+    context.textBaseline = 'top';
+
+    for (const [index, frame] of frames.entries()) {
+      const x = gap + (index % columns) * (thumbnailWidth + gap);
+      const y = gap + Math.floor(index / columns) * (cellHeight + gap);
+      const canvas = await captureCanvas(frame, thumbnailWidth, theme);
+      context.drawImage(canvas, x, y, thumbnailWidth, thumbnailHeight);
+      context.fillStyle = CONTACT_SHEET_TEXT;
+      context.fillText(fitText(context, `${index + 1}. ${presentation[index].title}`, thumbnailWidth), x, y + thumbnailHeight + fontSize * 0.5);
+    }
+    return canvasToBlob(sheet);
+  });
@@ -0,0 +1,287 @@
+import type { Presentation, Slide, SlideColumn, UploadedImage } from '../types';
+import { isSlideLayout } from '../utils/slideLayouts';
+import { placeholderToIndex } from '../utils/slideImages';
+import { normalizeImageReference } from './deckValidation';
+
+// Converts decks to and from Markdown. Every slide starts with a `##` heading;
+// what follows is read by its shape:
+//
+//   ## Quarterly results
+//   <!-- layout: stat -->          layout (optional)
+//   <!-- image-prompt: … -->       suggested picture (optional)
+//   A paragraph                    subtitle
+//   **42%** revenue growth         headline figure and label
+//   > Quoted text                  quote, with `> — Name` as the attribution
+//   - Bullet / 1. Agenda item      content; indented lines continue the item
+//   ![Description](IMAGE_1)        image reference
+//   ### Column heading             a two-column column; list items below it
+//   ::: notes                      speaker notes, up to the closing `:::`
+//
+// Line breaks in subtitles and bullets are Markdown hard breaks: a backslash
+// at the end of every line but the last. Speaker notes are kept verbatim.
+//
+// Exporting and importing gives back the same slides. Hand-written outlines
+// may skip the layout comment: numbered lists, quotes, figures and columns
+// then pick the matching layout. Anything else, such as text before the first
+// slide or `---` rules, is ignored. Images other than the project's uploaded
+// IMAGE_n are dropped and reported by parseMarkdownDeck.
+
+export const MARKDOWN_FILE_EXTENSIONS = ['.md', '.markdown', '.txt'];
+
+export class MarkdownDeckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MarkdownDeckError';
+  }
+}
+
+// Lines starting like this would be read as something other than a paragraph,
+// so such paragraphs are written with a leading backslash.
+const BLOCK_START = /^(\\|[-*+](\s|$)|\d+[.)](\s|$)|>|#|!\[|\*\*|:::|<!--|---|___)/;
+const ATTRIBUTION = /^(—|--)\s*/;
+
+const LAYOUT_COMMENT = /^<!--\s*layout:\s*([\w-]+)\s*-->$/i;
+const IMAGE_PROMPT_COMMENT = /^<!--\s*image-prompt:\s*(.*?)\s*-->$/i;
+const HEADING = /^##(?:\s+(.*))?$/;
+const COLUMN_HEADING = /^###(?:\s+(.*))?$/;
+const BULLET = /^[-*+](?:\s+(.*))?$/;
+const NUMBERED = /^\d+[.)](?:\s+(.*))?$/;
+const STAT = /^\*\*((?:\\.|[^\\*])*)\*\*(?:\s+(.*))?$/;
+const IMAGE = /^!\[(.*)\]\((.*)\)$/;
+const NOTES_START = /^:::\s*notes\s*$/i;
+const NOTES_END = /^:::\s*$/;
+
+// Titles, figures, attributions and headings; the editor never puts line
+// breaks in them.
+const oneLine = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+const escapeLine = (line: string, pattern: RegExp) => (pattern.test(line) ? `\\${line}` : line);
+const unescapeLine = (line: string) => (line.startsWith('\\') ? line.slice(1) : line);
+
+// Writes multi-line text with hard breaks. `firstLine` is what needs escaping
+// on the first line, which may follow a list marker; empty lines are written
+// as a lone backslash so they do not end the paragraph.
+const hardBreakLines = (text: string, firstLine: RegExp): string[] => {
+  const lines = text.split('\n').map(line => line.trim());
+  if (lines.length === 1) return [escapeLine(lines[0], firstLine)];
+  return lines.map((line, index) => {
+    const escaped = line ? escapeLine(line, index === 0 ? firstLine : BLOCK_START) : '\\';
+    return index < lines.length - 1 ? `${escaped}\\` : escaped;
+  });
+};
+
+// Reads the lines of a paragraph or list item back: a trailing backslash is a
+// hard break, any other line end (hand-wrapped text) a space.
+const joinLines = (lines: string[]): string => {
+  let text = '';
+  lines.forEach((line, index) => {
+    const isLast = index === lines.length - 1;
+    const isBreak = !isLast && line.endsWith('\\');
+    text += unescapeLine(isBreak ? line.slice(0, -1) : line) + (isLast ? '' : isBreak ? '\n' : ' ');
+  });
+  return text;
+};
+
+// Bullets start after their marker, so only a leading backslash is ambiguous.
+const LEADING_BACKSLASH = /^\\/;
+// Notes lines that would close the notes block early.
+const NOTES_LINE_START = /^(\\|\s*:::)/;
+
+// A `-->` inside a comment would end it early.
+const escapeComment = (text: string) => oneLine(text).replace(/-->/g, '--\\>');
+const unescapeComment = (text: string) => text.replace(/--\\>/g, '-->');
+
+// Continuation lines are indented to the item's text.
+const listItem = (marker: string, text: string): string => {
+  const [first, ...rest] = hardBreakLines(text, LEADING_BACKSLASH);
+  return [`${marker} ${first}`.trimEnd(), ...rest.map(line => `${' '.repeat(marker.length + 1)}${line}`)].join('\n');
+};
+
+const slideToMarkdown = (slide: Slide, images: UploadedImage[]): string => {
+  const blocks: string[] = [];
+  const header = [`## ${oneLine(slide.title)}`.trimEnd()];
+  if (slide.layout) header.push(`<!-- layout: ${slide.layout} -->`);
+  if (slide.imagePrompt) header.push(`<!-- image-prompt: ${escapeComment(slide.imagePrompt)} -->`);
+  blocks.push(header.join('\n'));
+
+  if (slide.subtitle) blocks.push(hardBreakLines(slide.subtitle, BLOCK_START).join('\n'));
+  if (slide.stat && (slide.stat.value || slide.stat.label)) {
+    const value = oneLine(slide.stat.value).replace(/[\\*]/g, '\\$&');
+    blocks.push(`**${value}** ${oneLine(slide.stat.label)}`.trimEnd());
+  }
+  if (slide.quote && (slide.quote.text || slide.quote.attribution)) {
+    const lines = slide.quote.text.split('\n').map(line => `> ${escapeLine(line, /^(\\|—|--)/)}`.trimEnd());
+    if (slide.quote.attribution) lines.push(`> — ${oneLine(slide.quote.attribution)}`);
+    blocks.push(lines.join('\n'));
+  }
+  if (slide.content.length > 0) {
+    const numbered = slide.layout === 'agenda';
+    blocks.push(slide.content.map((point, index) => listItem(numbered ? `${index + 1}.` : '-', point)).join('\n'));
+  }
+  if (slide.imagePlaceholder) {
+    const description = images[placeholderToIndex(slide.imagePlaceholder)]?.description ?? '';
+    blocks.push(`![${oneLine(description).replace(/[[\]]/g, '')}](${slide.imagePlaceholder})`);
+  }
+  for (const column of slide.columns ?? []) {
+    blocks.push([`### ${oneLine(column.heading)}`.trimEnd(), ...column.points.map(point => listItem('-', point))].join('\n'));
+  }
+  if (slide.speakerNotes) {
+    const notes = slide.speakerNotes.split('\n').map(line => escapeLine(line, NOTES_LINE_START));
+    blocks.push(['::: notes', ...notes, ':::'].join('\n'));
+  }
+  return blocks.join('\n\n');
+};
+
+export const presentationToMarkdown = (presentation: Presentation, images: UploadedImage[] = []): string =>
+  `${presentation.map(slide => slideToMarkdown(slide, images)).join('\n\n')}\n`;
+
+// Builds one slide from the lines between two `##` headings. Image references
+// that cannot be used are added to `droppedImages`.
+const parseSlide = (title: string, lines: string[], imageCount: number | undefined, droppedImages: string[]): Slide => {
+  const slide: Slide = { title, content: [], speakerNotes: '' };
+  const notes: string[] = [];
+  const quote: string[] = [];
+  let attribution: string | undefined;
+  let columns: SlideColumn[] | undefined;
+  let numbered = false;
+  let paragraph: string[] = [];
+  // The list item being read, which indented lines continue.
+  let item: { lines: string[]; points: string[] } | null = null;
+  let inNotes = false;
+
+  const endParagraph = () => {
+    if (paragraph.length === 0) return;
+    const text = joinLines(paragraph);
+    // The first paragraph is the subtitle; later ones are kept as bullets.
+    if (slide.subtitle === undefined) slide.subtitle = text;
+    else slide.content.push(text);
+    paragraph = [];
+  };
+
+  const endItem = () => {
+    if (item) item.points.push(joinLines(item.lines));
+    item = null;
+  };
+
+  for (const raw of lines) {
+    if (inNotes) {
+      if (NOTES_END.test(raw.trim())) inNotes = false;
+      else notes.push(unescapeLine(raw));
+      continue;
+    }
+
+    const line = raw.trim();
+    if (item && line && /^\s/.test(raw) && !BULLET.test(line) && !NUMBERED.test(line)) {
+      item.lines.push(line);
+      continue;
+    }
+    endItem();
+    if (!line) {
+      endParagraph();
+      continue;
+    }
+    if (NOTES_START.test(line)) {
+      endParagraph();
+      if (notes.length > 0) notes.push('');
+      inNotes = true;
+      continue;
+    }
+
+    const layout = LAYOUT_COMMENT.exec(line);
+    const imagePrompt = IMAGE_PROMPT_COMMENT.exec(line);
+    const columnHeading = COLUMN_HEADING.exec(line);
+    const bullet = BULLET.exec(line) ?? NUMBERED.exec(line);
+    const stat = STAT.exec(line);
+    const image = IMAGE.exec(line);
+
+    if (layout) {
+      if (isSlideLayout(layout[1])) slide.layout = layout[1];
+    } else if (imagePrompt) {
+      if (imagePrompt[1]) slide.imagePrompt = unescapeComment(imagePrompt[1]);
+    } else if (columnHeading) {
+      endParagraph();
+      columns = [...(columns ?? []), { heading: columnHeading[1]?.trim() ?? '', points: [] }];
+    } else if (bullet) {
+      endParagraph();
+      item = { lines: [bullet[1]?.trim() ?? ''], points: columns ? columns[columns.length - 1].points : slide.content };
+      if (NUMBERED.test(line) && !columns) numbered = true;
+    } else if (line.startsWith('>')) {
+      endParagraph();
+      const text = line.replace(/^>\s?/, '');
+      if (ATTRIBUTION.test(text)) attribution = text.replace(ATTRIBUTION, '').trim();
+      else quote.push(unescapeLine(text));
+    } else if (stat) {
+      endParagraph();
+      slide.stat = { value: stat[1].replace(/\\(.)/g, '$1'), label: stat[2]?.trim() ?? '' };
+    } else if (image) {
+      endParagraph();
+      // Only the project's uploaded images can be shown; links to files or
+      // to images that do not exist are dropped.
+      const reference = normalizeImageReference(image[2].trim(), imageCount);
+      if (reference) slide.imagePlaceholder = reference;
+      else droppedImages.push(image[2].trim() || image[1]);
+    } else if (!line.startsWith('<!--') && !/^(#|---|\*\*\*|___)/.test(line)) {
+      paragraph.push(line);
+    }
+  }
+  endItem();
+  endParagraph();
+
+  slide.speakerNotes = notes.join('\n');
+  if (quote.length > 0 || attribution !== undefined) slide.quote = { text: quote.join('\n'), attribution: attribution ?? '' };
+  if (columns) slide.columns = columns;
+
+  if (!slide.layout && lines.every(line => !LAYOUT_COMMENT.test(line.trim()))) {
+    if (slide.columns) slide.layout = 'two-column';
+    else if (slide.stat) slide.layout = 'stat';
+    else if (slide.quote) slide.layout = 'quote';
+    else if (numbered) slide.layout = 'agenda';
+  }
+  return slide;
+};
+
+export interface DroppedImageReference {
+  // 1-based, as shown in the viewer.
+  slide: number;
+  reference: string;
+}
+
+// Reads a deck written by presentationToMarkdown or by hand. `imageCount` is
+// the number of uploaded images the deck may refer to; references to anything
+// else are left out of the slides and listed in `droppedImages`.
+export const parseMarkdownDeck = (text: string, imageCount?: number): { slides: Presentation; droppedImages: DroppedImageReference[] } => {
+  const slides: Slide[] = [];
+  const droppedImages: DroppedImageReference[] = [];
+  const addSlide = (title: string, lines: string[]) => {
+    const dropped: string[] = [];
+    slides.push(parseSlide(title, lines, imageCount, dropped));
+    droppedImages.push(...dropped.map(reference => ({ slide: slides.length, reference })));
+  };
+  let title: string | null = null;
+  let lines: string[] = [];
+  let inNotes = false;
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    // A `##` inside speaker notes is part of the notes.
+    if (inNotes) {
+      if (NOTES_END.test(line.trim())) inNotes = false;
+    } else if (NOTES_START.test(line.trim())) {
+      inNotes = true;
+    } else {
+      const heading = HEADING.exec(line.trim());
+      if (heading) {
+        if (title !== null) addSlide(title, lines);
+        title = heading[1]?.trim() ?? '';
+        lines = [];
+        continue;
+      }
+    }
+    lines.push(line);
+  }
+  if (title !== null) addSlide(title, lines);
+
+  if (slides.length === 0) {
+    throw new MarkdownDeckError('No slides found. Start each slide with a "## " heading.');
+  }
+  return { slides, droppedImages };
+};
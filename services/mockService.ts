@@ -0,0 +1,155 @@
+import type { GenerationOptions, Outline, Presentation, Slide, UploadedImage } from '../types';
+import { wait, type AiProviderDefinition, type GenerateDeckRequest, type GenerateImageRequest, type GenerateOutlineRequest, type RewriteSlideRequest } from './aiProvider';
+import { normalizeSlideLayout } from '../utils/slideLayouts';
+import { DEFAULT_ILLUSTRATION_COLORS, illustrationDataUrl, rankIllustrations } from '../utils/illustrationPacks';
+
+// A deterministic offline provider: the same input always yields the same
+// deck, which makes it suitable for demos without network access and tests.
+
+const MOCK_TRANSCRIPT = "This is a mock transcription. Connect a real AI provider in the model settings to transcribe your recording.";
+const SENTENCES_PER_SLIDE = 3;
+// Pause between streamed slides, so progressive rendering and cancelling can
+// be tried out offline.
+const STREAM_DELAY_MS = 250;
+
+const splitSentences = (text: string): string[] =>
+  text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+const titleFrom = (sentence: string, maxWords = 6): string => {
+  const words = sentence.replace(/[.!?,;:]+$/, '').split(' ');
+  const title = words.slice(0, maxWords).join(' ');
+  return words.length > maxWords ? `${title}…` : title;
+};
+
+const buildDeck = (text: string, images: UploadedImage[], generation: GenerationOptions): Presentation => {
+  const sentences = splitSentences(text);
+  const slides: Slide[] = [{
+    layout: 'title',
+    title: sentences.length > 0 ? titleFrom(sentences[0], 8) : 'Untitled Presentation',
+    subtitle: `${sentences.length} key points`,
+    content: [],
+    speakerNotes: sentences[0] ?? '',
+  }];
+
+  for (let i = 0; i < sentences.length; i += SENTENCES_PER_SLIDE) {
+    const group = sentences.slice(i, i + SENTENCES_PER_SLIDE);
+    slides.push({
+      layout: 'bullets',
+      title: titleFrom(group[0]),
+      content: group,
+      speakerNotes: group.join(' '),
+      imagePrompt: `A simple flat illustration of ${titleFrom(group[0], 8).replace(/…$/, '').toLowerCase()}`,
+    });
+  }
+
+  // Spread images over the content slides in order, one per slide.
+  images.forEach((image, index) => {
+    const target = slides[index + 1];
+    if (target) {
+      delete target.imagePrompt;
+      target.imagePlaceholder = `IMAGE_${index + 1}`;
+      target.layout = index % 2 === 0 ? 'image-right' : 'image-left';
+    } else {
+      slides.push({
+        layout: 'bullets',
+        title: image.description || `Image ${index + 1}`,
+        content: [],
+        speakerNotes: image.description,
+        imagePlaceholder: `IMAGE_${index + 1}`,
+      });
+    }
+  });
+
+  if (generation.includeSummary) {
+    slides.push({
+      layout: 'bullets',
+      title: 'Summary',
+      content: slides.slice(1, 4).map(slide => slide.title),
+      speakerNotes: 'A recap of the key takeaways.',
+    });
+  }
+  if (generation.includeAgenda) {
+    slides.splice(1, 0, {
+      layout: 'agenda',
+      title: 'Agenda',
+      content: slides.slice(1).map(slide => slide.title),
+      speakerNotes: 'An overview of what this presentation covers.',
+    });
+  }
+  return generation.includeTitleSlide ? slides : slides.slice(1);
+};
+
+const generateOutline = async ({ text, images, generation, signal }: GenerateOutlineRequest): Promise<Outline> => {
+  await wait(STREAM_DELAY_MS, signal);
+  return buildDeck(text, images, generation).map(slide => ({
+    title: slide.title,
+    intent: slide.content[0] ?? slide.subtitle ?? slide.speakerNotes,
+    layout: slide.layout,
+    ...(slide.imagePlaceholder ? { imagePlaceholder: slide.imagePlaceholder } : {}),
+  }));
+};
+
+// Expands an outline by reusing the canned slide with the same title, or
+// turning the entry's intent into the slide body for entries the user added.
+const expandOutline = (outline: Outline, deck: Presentation): Presentation =>
+  outline.map(entry => {
+    const match = deck.find(slide => slide.title === entry.title);
+    const { imagePlaceholder: _ignored, ...base } = match ?? { content: [entry.intent], speakerNotes: entry.intent };
+    return normalizeSlideLayout({
+      ...base,
+      layout: entry.layout ?? 'bullets',
+      title: entry.title,
+      ...(entry.imagePlaceholder ? { imagePlaceholder: entry.imagePlaceholder } : {}),
+    });
+  });
+
+const generateDeck = async ({ text, images, generation, outline, signal, onSlide }: GenerateDeckRequest): Promise<Presentation> => {
+  const deck = buildDeck(text, images, generation);
+  const slides = outline ? expandOutline(outline, deck) : deck;
+  for (const [index, slide] of slides.entries()) {
+    await wait(STREAM_DELAY_MS, signal);
+    onSlide?.(slide, index);
+  }
+  return slides;
+};
+
+// Understands a couple of canned instructions so the rewrite flow can be
+// exercised offline; anything else just tags the title.
+const rewriteSlide = async ({ slide, instruction }: RewriteSlideRequest): Promise<Presentation> => {
+  if (/split|two slides/i.test(instruction) && slide.content.length > 1) {
+    const middle = Math.ceil(slide.content.length / 2);
+    return [
+      { ...slide, title: `${slide.title} (1/2)`, content: slide.content.slice(0, middle) },
+      { ...slide, title: `${slide.title} (2/2)`, content: slide.content.slice(middle), imagePlaceholder: undefined },
+    ].map(normalizeSlideLayout);
+  }
+  if (/short|punch|concise|simplif/i.test(instruction)) {
+    return [{ ...slide, content: slide.content.map(point => titleFrom(point, 8)) }];
+  }
+  return [{ ...slide, title: `${slide.title} (revised)` }];
+};
+
+// "Draws" the bundled spot illustration that best matches the prompt.
+const generateImage = async ({ prompt, signal }: GenerateImageRequest): Promise<string> => {
+  await wait(STREAM_DELAY_MS, signal);
+  const [best] = rankIllustrations('spot', prompt);
+  return illustrationDataUrl('spot', best.item, DEFAULT_ILLUSTRATION_COLORS);
+};
+
+export const mockProvider: AiProviderDefinition = {
+  id: 'mock',
+  label: 'Offline mock',
+  defaultModel: 'mock',
+  needsBaseUrl: false,
+  create: () => ({
+    transcribe: async () => [{ text: MOCK_TRANSCRIPT }],
+    generateOutline,
+    generateDeck,
+    rewriteSlide,
+    generateImage,
+  }),
+};
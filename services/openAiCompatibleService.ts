@@ -0,0 +1,232 @@
+import type { AiProviderSettings, Outline, Presentation, UploadedImage } from '../types';
+import { abortError, isAbortError, type AiProviderDefinition, type GenerateDeckRequest, type GenerateImageRequest, type GenerateOutlineRequest, type RewriteSlideRequest, type TranscribeRequest, type TranscribedSegment } from './aiProvider';
+import { AiRequestError, AiResponseError, toAiError } from './aiErrors';
+import { blobToDataUrl } from '../utils/download';
+import { REWRITE_SYSTEM_INSTRUCTION, buildDeckPrompt, buildDeckSystemInstruction, buildImageGenerationPrompt, buildOutlineSystemInstruction, buildRewritePrompt, createSlideStreamParser, outlineJsonSchema, parseOutlineJson, parsePresentationJson, presentationJsonSchema } from './prompts';
+
+// Talks to any server exposing the OpenAI REST surface: OpenAI itself, Azure
+// deployments behind a proxy, or local llama.cpp / Ollama / vLLM servers.
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
+const DEFAULT_IMAGE_MODEL = 'dall-e-3';
+
+const endpoint = (settings: AiProviderSettings, path: string) =>
+  `${(settings.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '')}${path}`;
+
+const authHeaders = (settings: AiProviderSettings): Record<string, string> =>
+  settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+
+const readError = async (response: Response) =>
+  new AiRequestError(response.status, await response.text().catch(() => ''));
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+const transcribe = async (settings: AiProviderSettings, { audioBase64, mimeType, language }: TranscribeRequest): Promise<TranscribedSegment[]> => {
+  try {
+    const extension = mimeType.split('/')[1]?.split(';')[0] || 'webm';
+    const form = new FormData();
+    form.append('file', await dataUrlToBlob(audioBase64), `recording.${extension}`);
+    // Chat models rarely handle audio, so transcription uses a Whisper-style
+    // model unless the configured one is obviously a speech model.
+    form.append('model', /whisper|transcribe/i.test(settings.model) ? settings.model : DEFAULT_TRANSCRIPTION_MODEL);
+    // verbose_json adds per-segment timings; servers without it still send `text`.
+    form.append('response_format', 'verbose_json');
+    // Whisper takes the bare ISO 639-1 code, without the region.
+    if (language) form.append('language', language.split('-')[0]);
+
+    const response = await fetch(endpoint(settings, '/audio/transcriptions'), {
+      method: 'POST',
+      headers: authHeaders(settings),
+      body: form,
+    });
+    if (!response.ok) throw await readError(response);
+
+    const data = await response.json();
+    if (Array.isArray(data.segments) && data.segments.length > 0) {
+      return data.segments
+        .map((segment: { start?: number; end?: number; text?: string }) => ({ start: segment.start, end: segment.end, text: String(segment.text ?? '').trim() }))
+        .filter((segment: TranscribedSegment) => segment.text);
+    }
+    const text = String(data.text ?? '').trim();
+    return text ? [{ text }] : [];
+  } catch (error) {
+    console.error("Error transcribing audio with OpenAI-compatible endpoint:", error);
+    throw toAiError(error, 'transcribe the audio');
+  }
+};
+
+// Reads a server-sent event stream of chat completion deltas, feeding the
+// text to `onText` as it arrives.
+const readCompletionStream = async (body: ReadableStream<Uint8Array>, onText: (text: string) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      onText(JSON.parse(data).choices?.[0]?.delta?.content ?? '');
+    }
+  }
+};
+
+// Sends a JSON-mode chat completion asking for a reply matching `schema`.
+const requestCompletion = async (
+  settings: AiProviderSettings,
+  systemInstruction: string,
+  schema: object,
+  userContent: unknown,
+  { signal, stream = false, temperature = 0.7 }: { signal?: AbortSignal; stream?: boolean; temperature?: number } = {}
+): Promise<Response> => {
+  const response = await fetch(endpoint(settings, '/chat/completions'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders(settings) },
+    signal,
+    body: JSON.stringify({
+      model: settings.model,
+      temperature,
+      stream,
+      response_format: { type: 'json_object' },
+      messages: [
+        {
+          role: 'system',
+          content: `${systemInstruction}\n\nRespond with a JSON object matching this JSON Schema and nothing else:\n${JSON.stringify(schema)}`,
+        },
+        { role: 'user', content: userContent },
+      ],
+    }),
+  });
+  if (!response.ok) throw await readError(response);
+  return response;
+};
+
+// Parses the deck out of a chat completion. With `onSlide` the reply is
+// streamed and slides are reported as they complete.
+const requestSlides = async (
+  settings: AiProviderSettings,
+  systemInstruction: string,
+  userContent: unknown,
+  { signal, onSlide, temperature }: Pick<GenerateDeckRequest, 'signal' | 'onSlide'> & { temperature?: number } = {}
+): Promise<Presentation> => {
+  const response = await requestCompletion(settings, systemInstruction, presentationJsonSchema, userContent, { signal, temperature, stream: !!onSlide });
+
+  // Some servers ignore `stream` and answer with a single JSON body.
+  if (onSlide && response.body && response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    const parser = createSlideStreamParser(onSlide);
+    await readCompletionStream(response.body, parser.push);
+    return parsePresentationJson(parser.text());
+  }
+
+  const data = await response.json();
+  const slides = parsePresentationJson(data.choices?.[0]?.message?.content ?? '');
+  slides.forEach((slide, index) => onSlide?.(slide, index));
+  return slides;
+};
+
+// Text-only servers reject multi-part content, so only send parts when there are images.
+const deckUserContent = (prompt: string, images: UploadedImage[]): unknown =>
+  images.length > 0
+    ? [
+        { type: 'text', text: prompt },
+        ...images.map(image => ({ type: 'image_url', image_url: { url: image.base64 } })),
+      ]
+    : prompt;
+
+const generateOutline = async (settings: AiProviderSettings, { text, images, generation, signal }: GenerateOutlineRequest): Promise<Outline> => {
+  try {
+    const response = await requestCompletion(
+      settings,
+      buildOutlineSystemInstruction(generation),
+      outlineJsonSchema,
+      deckUserContent(buildDeckPrompt(text, images), images),
+      { signal, temperature: generation.temperature }
+    );
+    const data = await response.json();
+    return parseOutlineJson(data.choices?.[0]?.message?.content ?? '');
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw abortError();
+    console.error("Error generating outline from OpenAI-compatible endpoint:", error);
+    throw toAiError(error, 'generate the outline');
+  }
+};
+
+const generateDeck = async (settings: AiProviderSettings, { text, images, generation, outline, correction, signal, onSlide }: GenerateDeckRequest): Promise<Presentation> => {
+  try {
+    return await requestSlides(
+      settings,
+      buildDeckSystemInstruction(generation),
+      deckUserContent(buildDeckPrompt(text, images, outline, correction), images),
+      { signal, onSlide, temperature: generation.temperature }
+    );
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw abortError();
+    console.error("Error generating presentation from OpenAI-compatible endpoint:", error);
+    throw toAiError(error, 'generate the presentation');
+  }
+};
+
+const rewriteSlide = async (settings: AiProviderSettings, request: RewriteSlideRequest): Promise<Presentation> => {
+  try {
+    return await requestSlides(settings, REWRITE_SYSTEM_INSTRUCTION, buildRewritePrompt(request));
+  } catch (error) {
+    console.error("Error rewriting slide with OpenAI-compatible endpoint:", error);
+    throw toAiError(error, 'rewrite the slide');
+  }
+};
+
+const generateImage = async (settings: AiProviderSettings, { prompt, signal }: GenerateImageRequest): Promise<string> => {
+  try {
+    // As with transcription, chat models cannot draw, so DALL·E is used unless
+    // the configured model is an image model. GPT Image models always answer
+    // with base64 and reject `response_format`.
+    const model = /dall-e|gpt-image|diffusion|flux/i.test(settings.model) ? settings.model : DEFAULT_IMAGE_MODEL;
+    const isGptImage = /gpt-image/i.test(model);
+    const response = await fetch(endpoint(settings, '/images/generations'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders(settings) },
+      signal,
+      body: JSON.stringify({
+        model,
+        prompt: buildImageGenerationPrompt(prompt),
+        n: 1,
+        size: isGptImage ? '1536x1024' : '1792x1024',
+        ...(isGptImage ? {} : { response_format: 'b64_json' }),
+      }),
+    });
+    if (!response.ok) throw await readError(response);
+
+    const image = (await response.json()).data?.[0];
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    // Servers that ignore `response_format` send a temporary URL instead.
+    if (image?.url) {
+      const download = await fetch(image.url, { signal });
+      if (!download.ok) throw await readError(download);
+      return await blobToDataUrl(await download.blob());
+    }
+    throw new AiResponseError("The AI returned no image.");
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw abortError();
+    console.error("Error generating image with OpenAI-compatible endpoint:", error);
+    throw toAiError(error, 'generate the image');
+  }
+};
+
+export const openAiCompatibleProvider: AiProviderDefinition = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  defaultModel: 'llama3.1',
+  needsBaseUrl: true,
+  create: settings => ({
+    transcribe: request => transcribe(settings, request),
+    generateOutline: request => generateOutline(settings, request),
+    generateDeck: request => generateDeck(settings, request),
+    rewriteSlide: request => rewriteSlide(settings, request),
+    generateImage: request => generateImage(settings, request),
+  }),
+};
@@ -0,0 +1,783 @@
+import { jsPDF, ShadingPattern } from 'jspdf';
+import type { Presentation, Slide, Theme, UploadedImage } from '../types';
+import { resolveSlideImage, encodeImage, fitContain } from '../utils/slideImages';
+import { blobToDataUrl, dataUrlToBase64 } from '../utils/download';
+import { getSlideLayout } from '../utils/slideLayouts';
+
+// Draws a Presentation as a vector PDF. Titles, bullets and notes are real,
+// searchable text in embedded fonts, markers and accents are vector shapes,
+// and each image is embedded once. Slides use the same layouts as the PPTX
+// export, measured in the on-screen slide's 1280x720 CSS pixels. Besides one
+// slide per page there are notes pages and multi-slide handouts.
+
+export type PdfLayout = 'slides' | 'notes' | 'handout';
+export type PdfPaperSize = 'a4' | 'letter';
+
+export interface PdfExportOptions {
+  layout: PdfLayout;
+  // Handouts only.
+  slidesPerPage: number;
+  // Notes pages and handouts; slide pages are always 16:9.
+  paperSize: PdfPaperSize;
+}
+
+export const PDF_LAYOUTS: { id: PdfLayout; label: string }[] = [
+  { id: 'slides', label: 'Slides' },
+  { id: 'notes', label: 'Notes pages' },
+  { id: 'handout', label: 'Handouts' },
+];
+
+// Rows and columns of slides on a portrait handout page. Three per page
+// leaves room for handwritten notes next to each slide.
+const HANDOUT_GRIDS: Record<number, { columns: number; rows: number }> = {
+  2: { columns: 1, rows: 2 },
+  3: { columns: 1, rows: 3 },
+  4: { columns: 2, rows: 2 },
+  6: { columns: 2, rows: 3 },
+  9: { columns: 3, rows: 3 },
+};
+
+export const HANDOUT_SLIDES_PER_PAGE = Object.keys(HANDOUT_GRIDS).map(Number);
+
+export const DEFAULT_PDF_EXPORT_OPTIONS: PdfExportOptions = {
+  layout: 'slides',
+  slidesPerPage: 6,
+  paperSize: 'a4',
+};
+
+const SLIDE_WIDTH = 1280;
+const SLIDE_HEIGHT = 720;
+// Slide pages are the on-screen slide at 0.75pt per pixel.
+const SLIDE_PAGE_SCALE = 0.75;
+const MARGIN = 48;
+const TITLE_HEIGHT = 120;
+const BODY_TOP = MARGIN + TITLE_HEIGHT + 19.2;
+const BODY_HEIGHT = SLIDE_HEIGHT - BODY_TOP - MARGIN;
+const FULL_WIDTH = SLIDE_WIDTH - MARGIN * 2;
+const COLUMN_WIDTH = (FULL_WIDTH - MARGIN) / 2;
+// Text boxes use PowerPoint's default insets, as in the PPTX export.
+const INSET_X = 9.6;
+const INSET_Y = 4.8;
+const BULLET_INDENT = 36;
+const LINE_HEIGHT = 1.2;
+// Distance from the top of a line to its baseline, in ems.
+const BASELINE = 0.95;
+// Text that overflows its box is shrunk, down to this fraction of its size.
+const MIN_FIT = 0.5;
+
+// Page furniture for notes pages and handouts, in points.
+const PAGE_MARGIN = 40;
+const PAGE_TEXT_COLOR = '#1f2937';
+const PAGE_MUTED_COLOR = '#6b7280';
+const PAGE_RULE_COLOR = '#d1d5db';
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type FontStyle = 'normal' | 'bold' | 'italic';
+
+// Writing systems the export has fonts for. Han characters are drawn in the
+// Japanese font when the deck also contains kana, and in Chinese otherwise.
+type Script = 'latin' | 'cyrillic' | 'greek' | 'arabic' | 'hebrew' | 'devanagari' | 'thai' | 'japanese' | 'korean' | 'chinese';
+
+const SCRIPT_PATTERNS: [Exclude<Script, 'latin'>, RegExp][] = [
+  ['japanese', /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ['korean', /\p{Script=Hangul}/u],
+  ['chinese', /\p{Script=Han}/u],
+  ['arabic', /\p{Script=Arabic}/u],
+  ['hebrew', /\p{Script=Hebrew}/u],
+  ['devanagari', /\p{Script=Devanagari}/u],
+  ['thai', /\p{Script=Thai}/u],
+  ['cyrillic', /\p{Script=Cyrillic}/u],
+  ['greek', /\p{Script=Greek}/u],
+];
+
+// A letter from a script none of the fonts below cover. Script extensions
+// count shared marks such as the Japanese long-vowel sign as supported.
+const UNSUPPORTED_LETTER = /(?![\p{scx=Latin}\p{scx=Cyrillic}\p{scx=Greek}\p{scx=Arabic}\p{scx=Hebrew}\p{scx=Devanagari}\p{scx=Thai}\p{scx=Hiragana}\p{scx=Katakana}\p{scx=Hangul}\p{scx=Han}])\p{L}/u;
+
+interface FontSource {
+  // Package name under @expo-google-fonts, which ships complete TrueType files.
+  id: string;
+  version: string;
+  file: string;
+  hasItalic: boolean;
+  // Scripts other than Latin the font covers.
+  scripts: Script[];
+}
+
+const fontSource = (id: string, version: string, file: string, scripts: Script[], hasItalic = true): FontSource =>
+  ({ id, version, file, hasItalic, scripts });
+
+// Open-licensed stand-ins for the theme fonts, plus a Noto font for each
+// script they lack. Arimo, Tinos, Cousine and Gelasio share the metrics of the
+// fonts they replace, so text wraps as it does on screen. Versions are pinned
+// so the same deck always exports the same PDF.
+const FONT_SOURCES: Record<string, FontSource> = {
+  poppins: fontSource('poppins', '0.4.1', 'Poppins', []),
+  arimo: fontSource('arimo', '0.4.3', 'Arimo', ['cyrillic', 'greek', 'hebrew']),
+  gelasio: fontSource('gelasio', '0.4.1', 'Gelasio', []),
+  tinos: fontSource('tinos', '0.4.2', 'Tinos', ['cyrillic', 'greek', 'hebrew']),
+  'fira-sans': fontSource('fira-sans', '0.4.1', 'FiraSans', ['cyrillic', 'greek']),
+  'noto-sans': fontSource('noto-sans', '0.4.2', 'NotoSans', ['cyrillic', 'greek']),
+  cousine: fontSource('cousine', '0.4.3', 'Cousine', ['cyrillic', 'greek', 'hebrew']),
+  'noto-sans-arabic': fontSource('noto-sans-arabic', '0.4.3', 'NotoSansArabic', ['arabic'], false),
+  'noto-sans-hebrew': fontSource('noto-sans-hebrew', '0.4.1', 'NotoSansHebrew', ['hebrew'], false),
+  'noto-sans-devanagari': fontSource('noto-sans-devanagari', '0.4.1', 'NotoSansDevanagari', ['devanagari'], false),
+  'noto-sans-thai': fontSource('noto-sans-thai', '0.4.2', 'NotoSansThai', ['thai'], false),
+  'noto-sans-jp': fontSource('noto-sans-jp', '0.4.3', 'NotoSansJP', ['japanese'], false),
+  'noto-sans-kr': fontSource('noto-sans-kr', '0.4.3', 'NotoSansKR', ['korean'], false),
+  'noto-sans-sc': fontSource('noto-sans-sc', '0.4.3', 'NotoSansSC', ['chinese'], false),
+};
+
+const THEME_FONT_SOURCES: Record<string, string> = {
+  Poppins: 'poppins',
+  Arial: 'arimo',
+  Helvetica: 'arimo',
+  Georgia: 'gelasio',
+  'Times New Roman': 'tinos',
+  'Trebuchet MS': 'fira-sans',
+  Verdana: 'noto-sans',
+  'Courier New': 'cousine',
+};
+const FALLBACK_FONT_SOURCE = 'noto-sans';
+
+const SCRIPT_FONT_SOURCES: Record<Exclude<Script, 'latin'>, string> = {
+  cyrillic: 'noto-sans',
+  greek: 'noto-sans',
+  arabic: 'noto-sans-arabic',
+  hebrew: 'noto-sans-hebrew',
+  devanagari: 'noto-sans-devanagari',
+  thai: 'noto-sans-thai',
+  japanese: 'noto-sans-jp',
+  korean: 'noto-sans-kr',
+  chinese: 'noto-sans-sc',
+};
+
+// Thrown when the deck contains text the export cannot draw faithfully,
+// instead of writing a PDF with missing or garbled characters.
+export class PdfFontError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfFontError';
+  }
+}
+
+// Every piece of text the export draws in the theme fonts.
+const deckText = (presentation: Presentation, theme: Theme): string[] => [
+  theme.footer.text,
+  ...presentation.flatMap(slide => [
+    slide.title,
+    slide.subtitle ?? '',
+    slide.speakerNotes,
+    ...slide.content,
+    ...(slide.columns ?? []).flatMap(column => [column.heading, ...column.points]),
+    slide.stat?.value ?? '',
+    slide.stat?.label ?? '',
+    slide.quote?.text ?? '',
+    slide.quote?.attribution ?? '',
+  ]),
+];
+
+// Returns the script each paragraph is drawn in. jsPDF sets a paragraph in a
+// single font, so one that mixes scripts uses the font for its non-Latin one.
+const scriptDetector = (texts: string[]): ((text: string) => Script) => {
+  const all = texts.join('\n');
+  const unsupported = all.match(UNSUPPORTED_LETTER);
+  if (unsupported) {
+    throw new PdfFontError(`The PDF export has no font for some of the text in this deck (for example "${unsupported[0]}").`);
+  }
+  const hanScript: Script = SCRIPT_PATTERNS[0][1].test(all) ? 'japanese' : 'chinese';
+  return text => {
+    const script = SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'latin';
+    return script === 'chinese' ? hanScript : script;
+  };
+};
+
+// The font source used for `script` text set in the theme font `font`.
+const sourceFor = (font: string, script: Script): FontSource => {
+  const themeSource = FONT_SOURCES[THEME_FONT_SOURCES[font] ?? FALLBACK_FONT_SOURCE];
+  if (script === 'latin' || themeSource.scripts.includes(script)) return themeSource;
+  return FONT_SOURCES[SCRIPT_FONT_SOURCES[script]];
+};
+
+const FONT_STYLES: FontStyle[] = ['normal', 'bold', 'italic'];
+
+const fontUrl = (source: FontSource, style: FontStyle) => {
+  const face = style === 'bold' ? '700Bold' : style === 'italic' && source.hasItalic ? '400Regular_Italic' : '400Regular';
+  return `https://cdn.jsdelivr.net/npm/@expo-google-fonts/${source.id}@${source.version}/${face}/${source.file}_${face}.ttf`;
+};
+
+// Downloaded fonts are reused by later exports; failures are retried.
+const fontFiles = new Map<string, Promise<string>>();
+
+const fetchFontFile = (url: string): Promise<string> => {
+  let file = fontFiles.get(url);
+  if (!file) {
+    file = fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.blob();
+      })
+      .then(blobToDataUrl)
+      .then(dataUrlToBase64)
+      .catch(error => {
+        fontFiles.delete(url);
+        throw error;
+      });
+    fontFiles.set(url, file);
+  }
+  return file;
+};
+
+// Embeds every font the deck needs, in all three styles, and returns how to
+// pick the PDF font family for a piece of text.
+const registerFonts = async (pdf: jsPDF, themeFonts: string[], texts: string[]): Promise<Fonts> => {
+  const scriptOf = scriptDetector(texts);
+  const scripts = new Set(texts.map(scriptOf));
+  const sources = new Set(themeFonts.flatMap(font => [...scripts].map(script => sourceFor(font, script))));
+  for (const source of sources) {
+    let files: string[];
+    try {
+      files = await Promise.all(FONT_STYLES.map(style => fetchFontFile(fontUrl(source, style))));
+    } catch (error) {
+      console.error(`Could not download font ${source.id}:`, error);
+      throw new PdfFontError(`Could not download the "${source.file}" font the PDF needs. Check your connection and try again.`);
+    }
+    FONT_STYLES.forEach((style, index) => {
+      const fileName = `${source.id}-${style}.ttf`;
+      pdf.addFileToVFS(fileName, files[index]);
+      pdf.addFont(fileName, source.id, style);
+    });
+  }
+  return { family: (font, text) => sourceFor(font, scriptOf(text)).id };
+};
+
+// "#abc" / "#aabbcc" -> "#aabbcc", which jsPDF's color setters expect.
+const hexColor = (color: string): string => {
+  const hex = color.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(hex)) return `#${hex.split('').map(c => c + c).join('')}`;
+  return /^[0-9a-f]{6}$/i.test(hex) ? `#${hex}` : '#000000';
+};
+
+const rgb = (color: string): number[] => {
+  const hex = hexColor(color).slice(1);
+  return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16));
+};
+
+interface PdfImage {
+  data: string;
+  format: 'PNG' | 'JPEG';
+  width: number;
+  height: number;
+  // jsPDF embeds an image once per alias, however often it is drawn.
+  alias: string;
+}
+
+// The image types jsPDF embeds without trouble.
+const PDF_IMAGE_TYPES = ['image/png', 'image/jpeg'];
+
+const prepareImage = async (src: string, alias: string): Promise<PdfImage> => {
+  const { dataUrl, mimeType, width, height } = await encodeImage(src, PDF_IMAGE_TYPES);
+  return { data: dataUrl, format: mimeType === 'image/jpeg' ? 'JPEG' : 'PNG', width, height, alias };
+};
+
+interface Fonts {
+  // PDF font family for `text` set in the theme font `font`.
+  family: (font: string, text: string) => string;
+}
+
+// Everything needed to draw slides into a PDF, shared by all pages.
+interface Painter {
+  pdf: jsPDF;
+  theme: Theme;
+  fonts: Fonts;
+  images: Map<UploadedImage, PdfImage>;
+  logo: PdfImage | undefined;
+  gradientCount: number;
+}
+
+// Where a slide is drawn: its top-left corner on the page and the number of
+// points per slide pixel. Layout code works in slide pixels throughout.
+interface Frame {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const toPage = (frame: Frame, box: Box): Box => ({
+  x: frame.x + box.x * frame.scale,
+  y: frame.y + box.y * frame.scale,
+  width: box.width * frame.scale,
+  height: box.height * frame.scale,
+});
+
+// Fills a page rectangle with a linear gradient along `line` (x1, y1, x2, y2),
+// or clips it to whatever clipping path is active, such as gradient text.
+const fillGradient = (painter: Painter, rect: Box, from: string, to: string, line: number[]) => {
+  const key = `gradient${painter.gradientCount++}`;
+  painter.pdf.advancedAPI(pdf => {
+    pdf.addShadingPattern(key, new ShadingPattern('axial', line, [
+      { offset: 0, color: rgb(from) },
+      { offset: 1, color: rgb(to) },
+    ]));
+    pdf.rect(rect.x, rect.y, rect.width, rect.height, null);
+    pdf.fill({ key, matrix: pdf.unitMatrix });
+  });
+};
+
+const drawBackground = (painter: Painter, frame: Frame) => {
+  const { pdf, theme } = painter;
+  const rect = toPage(frame, { x: 0, y: 0, width: SLIDE_WIDTH, height: SLIDE_HEIGHT });
+  if (theme.colors.backgroundGradientTo) {
+    // CSS 135deg: top-left to bottom-right, with the gradient line sized so
+    // the corners get the end colors.
+    const reach = (rect.width + rect.height) / 4;
+    const centerX = rect.x + rect.width / 2;
+    const centerY = rect.y + rect.height / 2;
+    fillGradient(painter, rect, theme.colors.background, theme.colors.backgroundGradientTo,
+      [centerX - reach, centerY - reach, centerX + reach, centerY + reach]);
+  } else {
+    pdf.setFillColor(hexColor(theme.colors.background));
+    pdf.rect(rect.x, rect.y, rect.width, rect.height, 'F');
+  }
+};
+
+interface TextStyle {
+  font: string;
+  style?: FontStyle;
+  // In slide pixels.
+  size: number;
+  color: string;
+  gradientTo?: string | null;
+  align?: 'left' | 'center' | 'right';
+}
+
+interface Paragraph {
+  text: string;
+  style: TextStyle;
+  // Space above the paragraph, in slide pixels.
+  spaceBefore?: number;
+  marker?: { kind: 'bullet'; char: string } | { kind: 'number'; value: number };
+}
+
+// `text` picks the font for its script; page furniture is plain Latin.
+const useFont = (painter: Painter, style: TextStyle, sizeInPoints: number, text = '') => {
+  painter.pdf.setFont(painter.fonts.family(style.font, text), style.style ?? 'normal');
+  painter.pdf.setFontSize(sizeInPoints);
+};
+
+// Vector versions of the theme's bullet markers, centered on the first
+// line's x-height. Unknown markers are drawn as text.
+const drawMarker = (painter: Painter, marker: string, x: number, baseline: number, size: number, color: string) => {
+  const { pdf } = painter;
+  const middle = baseline - size * 0.33;
+  const center = x + size * 0.25;
+  pdf.setFillColor(hexColor(color));
+  pdf.setDrawColor(hexColor(color));
+  pdf.setLineWidth(size * 0.08);
+  switch (marker) {
+    case '•':
+      pdf.circle(center, middle, size * 0.14, 'F');
+      break;
+    case '■':
+      pdf.rect(center - size * 0.16, middle - size * 0.16, size * 0.32, size * 0.32, 'F');
+      break;
+    case '▸':
+      pdf.triangle(center - size * 0.14, middle - size * 0.18, center - size * 0.14, middle + size * 0.18, center + size * 0.2, middle, 'F');
+      break;
+    case '–':
+      pdf.line(center - size * 0.25, middle, center + size * 0.25, middle);
+      break;
+    case '✓':
+      pdf.line(center - size * 0.22, middle, center - size * 0.06, middle + size * 0.16);
+      pdf.line(center - size * 0.06, middle + size * 0.16, center + size * 0.26, middle - size * 0.2);
+      break;
+    case '→':
+      pdf.line(center - size * 0.25, middle, center + size * 0.22, middle);
+      pdf.line(center + size * 0.08, middle - size * 0.14, center + size * 0.24, middle);
+      pdf.line(center + size * 0.08, middle + size * 0.14, center + size * 0.24, middle);
+      break;
+    default:
+      pdf.setTextColor(hexColor(color));
+      pdf.text(marker, x, baseline);
+  }
+};
+
+// Numbered agenda items get a ring around the number, as on screen.
+const drawNumberMarker = (painter: Painter, value: number, x: number, baseline: number, size: number, style: TextStyle) => {
+  const { pdf, theme } = painter;
+  const radius = size * 0.7;
+  const middle = baseline - size * 0.33;
+  pdf.setDrawColor(hexColor(theme.colors.accent));
+  pdf.setLineWidth(Math.max(0.5, size * 0.06));
+  pdf.circle(x + radius, middle, radius, 'S');
+  useFont(painter, { ...style, style: 'bold' }, size * 0.8);
+  pdf.setTextColor(hexColor(theme.colors.accent));
+  pdf.text(String(value), x + radius, middle + size * 0.28, { align: 'center' });
+};
+
+const drawTextLine = (painter: Painter, text: string, x: number, baseline: number, style: TextStyle, span: { left: number; right: number }) => {
+  const { pdf } = painter;
+  const align = style.align ?? 'left';
+  if (!style.gradientTo) {
+    pdf.setTextColor(hexColor(style.color));
+    pdf.text(text, x, baseline, { align });
+    return;
+  }
+  // Gradient text: the glyphs become a clipping path that a horizontal
+  // gradient across the text box is painted through.
+  pdf.saveGraphicsState();
+  pdf.text(text, x, baseline, { align, renderingMode: 'addToPathForClipping' });
+  const fontSize = pdf.getFontSize();
+  fillGradient(painter, { x: span.left, y: baseline - fontSize * 1.2, width: span.right - span.left, height: fontSize * 1.6 },
+    style.color, style.gradientTo, [span.left, 0, span.right, 0]);
+  pdf.restoreGraphicsState();
+};
+
+// Lays out and draws paragraphs inside a text box, shrinking them when they
+// would overflow it.
+const drawTextBox = (painter: Painter, frame: Frame, box: Box, paragraphs: Paragraph[], anchor: 'top' | 'middle' | 'bottom' = 'top') => {
+  const { pdf } = painter;
+  const content = toPage(frame, { x: box.x + INSET_X, y: box.y + INSET_Y, width: box.width - INSET_X * 2, height: box.height - INSET_Y * 2 });
+  const indent = BULLET_INDENT * frame.scale;
+
+  const layout = (fit: number) => {
+    let height = 0;
+    const blocks = paragraphs.map(paragraph => {
+      const size = paragraph.style.size * frame.scale * fit;
+      useFont(painter, paragraph.style, size, paragraph.text);
+      const width = content.width - (paragraph.marker ? indent : 0);
+      const lines: string[] = paragraph.text ? pdf.splitTextToSize(paragraph.text, width) : [];
+      const spaceBefore = (paragraph.spaceBefore ?? 0) * frame.scale * fit;
+      height += spaceBefore + Math.max(1, lines.length) * size * LINE_HEIGHT;
+      return { paragraph, size, lines, spaceBefore };
+    });
+    return { blocks, height };
+  };
+
+  let fit = 1;
+  let laidOut = layout(fit);
+  while (laidOut.height > content.height && fit > MIN_FIT) {
+    fit = Math.max(MIN_FIT, fit - 0.1);
+    laidOut = layout(fit);
+  }
+
+  let top = content.y;
+  if (anchor === 'middle') top += (content.height - laidOut.height) / 2;
+  if (anchor === 'bottom') top += content.height - laidOut.height;
+
+  for (const { paragraph, size, lines, spaceBefore } of laidOut.blocks) {
+    top += spaceBefore;
+    const { marker, style } = paragraph;
+    if (marker) {
+      const baseline = top + size * BASELINE;
+      if (marker.kind === 'bullet') drawMarker(painter, marker.char, content.x, baseline, size, painter.theme.colors.accent);
+      else drawNumberMarker(painter, marker.value, content.x, baseline, size, style);
+    }
+    const left = content.x + (marker ? indent : 0);
+    const right = content.x + content.width;
+    const x = style.align === 'center' ? (left + right) / 2 : style.align === 'right' ? right : left;
+    useFont(painter, style, size, paragraph.text);
+    for (const line of lines) {
+      drawTextLine(painter, line, x, top + size * BASELINE, style, { left, right });
+      top += size * LINE_HEIGHT;
+    }
+    if (lines.length === 0) top += size * LINE_HEIGHT;
+  }
+};
+
+const drawImage = (painter: Painter, frame: Frame, image: PdfImage, box: Box) => {
+  const fitted = fitContain(image.width, image.height, toPage(frame, box));
+  painter.pdf.addImage(image.data, image.format, fitted.x, fitted.y, fitted.width, fitted.height, image.alias);
+};
+
+const titleParagraph = (title: string, theme: Theme, scale = 1): Paragraph => ({
+  text: theme.title.uppercase ? title.toUpperCase() : title,
+  style: {
+    font: theme.fonts.heading,
+    style: theme.title.weight >= 600 ? 'bold' : 'normal',
+    size: theme.title.size * scale,
+    color: theme.colors.title,
+    gradientTo: theme.colors.titleGradientTo,
+    align: theme.title.align,
+  },
+});
+
+const bodyStyle = (theme: Theme, scale = 1, changes: Partial<TextStyle> = {}): TextStyle => ({
+  font: theme.fonts.body,
+  size: theme.bullets.size * scale,
+  color: theme.colors.text,
+  ...changes,
+});
+
+const bulletParagraphs = (points: string[], theme: Theme, numbered = false): Paragraph[] =>
+  points.map((point, index) => ({
+    text: point,
+    style: bodyStyle(theme),
+    spaceBefore: index > 0 ? theme.bullets.spacing : 0,
+    marker: numbered ? { kind: 'number', value: index + 1 } : { kind: 'bullet', char: theme.bullets.marker },
+  }));
+
+// Mirrors layoutShapes in the PPTX exporter.
+const drawLayout = (painter: Painter, frame: Frame, slide: Slide, image: PdfImage | undefined) => {
+  const { theme } = painter;
+  const titleBox = { x: MARGIN, y: MARGIN, width: FULL_WIDTH, height: TITLE_HEIGHT };
+  const leftColumn = { x: MARGIN, y: BODY_TOP, width: COLUMN_WIDTH, height: BODY_HEIGHT };
+  const rightColumn = { x: MARGIN * 2 + COLUMN_WIDTH, y: BODY_TOP, width: COLUMN_WIDTH, height: BODY_HEIGHT };
+  const align = theme.title.align;
+  const drawTitle = () => drawTextBox(painter, frame, titleBox, [titleParagraph(slide.title, theme)], 'middle');
+
+  switch (getSlideLayout(slide)) {
+    case 'title':
+    case 'section': {
+      const isTitle = getSlideLayout(slide) === 'title';
+      const heroTop = SLIDE_HEIGHT * (image && isTitle ? 0.18 : 0.3);
+      drawTextBox(painter, frame, { x: MARGIN, y: heroTop, width: FULL_WIDTH, height: 144 }, [titleParagraph(slide.title, theme, isTitle ? 1.5 : 1.3)], 'bottom');
+      if (slide.subtitle) {
+        drawTextBox(painter, frame, { x: MARGIN, y: heroTop + 144, width: FULL_WIDTH, height: 76.8 }, [{ text: slide.subtitle, style: bodyStyle(theme, 1.2, { align }) }]);
+      }
+      if (!isTitle) {
+        const bar = toPage(frame, { x: align === 'center' ? (SLIDE_WIDTH - 96) / 2 : MARGIN + INSET_X, y: heroTop - 4 - 19.2, width: 96, height: 4 });
+        painter.pdf.setFillColor(hexColor(theme.colors.accent));
+        painter.pdf.rect(bar.x, bar.y, bar.width, bar.height, 'F');
+      } else if (image) {
+        const top = heroTop + 144 + 76.8 + 19.2;
+        drawImage(painter, frame, image, { x: SLIDE_WIDTH / 3, y: top, width: SLIDE_WIDTH / 3, height: SLIDE_HEIGHT - top - MARGIN });
+      }
+      return;
+    }
+    case 'two-column': {
+      drawTitle();
+      [leftColumn, rightColumn].forEach((box, index) => {
+        const { heading = '', points = [] } = slide.columns?.[index] ?? {};
+        const headingParagraphs: Paragraph[] = heading
+          ? [{ text: heading, style: { font: theme.fonts.heading, style: 'bold', size: theme.bullets.size, color: theme.colors.accent } }]
+          : [];
+        const bullets = bulletParagraphs(points, theme);
+        if (heading && bullets.length > 0) bullets[0].spaceBefore = theme.bullets.spacing;
+        drawTextBox(painter, frame, box, [...headingParagraphs, ...bullets]);
+      });
+      return;
+    }
+    case 'image-left':
+    case 'image-right': {
+      const imageLeft = getSlideLayout(slide) === 'image-left';
+      drawTitle();
+      drawTextBox(painter, frame, imageLeft ? rightColumn : leftColumn, bulletParagraphs(slide.content, theme), 'middle');
+      if (image) drawImage(painter, frame, image, imageLeft ? leftColumn : rightColumn);
+      return;
+    }
+    case 'stat': {
+      const statHeight = 240;
+      drawTitle();
+      drawTextBox(painter, frame, { x: MARGIN, y: BODY_TOP, width: FULL_WIDTH, height: statHeight }, [
+        { text: slide.stat?.value ?? '', style: { font: theme.fonts.heading, style: 'bold', size: theme.title.size * 3, color: theme.colors.accent, align: 'center' } },
+        ...(slide.stat?.label ? [{ text: slide.stat.label, style: bodyStyle(theme, 1.2, { align: 'center' }) }] : []),
+      ], 'middle');
+      if (slide.content.length > 0) {
+        drawTextBox(painter, frame, { x: MARGIN * 3, y: BODY_TOP + statHeight, width: FULL_WIDTH - MARGIN * 4, height: BODY_HEIGHT - statHeight }, bulletParagraphs(slide.content, theme));
+      }
+      return;
+    }
+    case 'quote': {
+      if (slide.title) drawTitle();
+      drawTextBox(painter, frame, { x: MARGIN * 2, y: BODY_TOP, width: FULL_WIDTH - MARGIN * 2, height: BODY_HEIGHT }, [
+        { text: `“${slide.quote?.text ?? ''}”`, style: bodyStyle(theme, 1.5, { style: 'italic' }) },
+        ...(slide.quote?.attribution ? [{ text: `— ${slide.quote.attribution}`, style: bodyStyle(theme, 1, { align: 'right' as const }), spaceBefore: theme.bullets.spacing }] : []),
+      ], 'middle');
+      return;
+    }
+    case 'agenda':
+      drawTitle();
+      drawTextBox(painter, frame, { x: MARGIN * 2, y: BODY_TOP, width: FULL_WIDTH - MARGIN * 2, height: BODY_HEIGHT }, bulletParagraphs(slide.content, theme, true));
+      return;
+    default:
+      drawTitle();
+      if (image) {
+        drawTextBox(painter, frame, leftColumn, bulletParagraphs(slide.content, theme));
+        drawImage(painter, frame, image, rightColumn);
+      } else {
+        drawTextBox(painter, frame, { x: MARGIN, y: BODY_TOP, width: FULL_WIDTH, height: BODY_HEIGHT }, bulletParagraphs(slide.content, theme));
+      }
+  }
+};
+
+// Logo and footer, as in SlideDecorations.
+const drawDecorations = (painter: Painter, frame: Frame, slideNumber: number) => {
+  const { theme, logo } = painter;
+  if (logo && theme.logo) {
+    const scale = Math.min(160 / logo.width, 48 / logo.height, 1);
+    const width = logo.width * scale;
+    const height = logo.height * scale;
+    const position = theme.logo.position;
+    drawImage(painter, frame, logo, {
+      x: position.endsWith('left') ? 16 : SLIDE_WIDTH - 16 - width,
+      y: position.startsWith('top') ? 16 : SLIDE_HEIGHT - 16 - height,
+      width,
+      height,
+    });
+  }
+  const width = (SLIDE_WIDTH - 96) / 2;
+  const footer = (text: string, x: number, align: 'left' | 'right') =>
+    drawTextBox(painter, frame, { x, y: SLIDE_HEIGHT - 12 - 36, width, height: 36 }, [{ text, style: bodyStyle(theme, 1, { size: 14, align }) }], 'middle');
+  if (theme.footer.text) footer(theme.footer.text, 48, 'left');
+  if (theme.footer.showSlideNumber) footer(String(slideNumber), 48 + width, 'right');
+};
+
+const drawSlide = (painter: Painter, frame: Frame, slide: Slide, slideNumber: number, images: UploadedImage[]) => {
+  const image = resolveSlideImage(slide, images);
+  drawBackground(painter, frame);
+  drawLayout(painter, frame, slide, image ? painter.images.get(image) : undefined);
+  drawDecorations(painter, frame, slideNumber);
+};
+
+// A thin rule around slides drawn on white paper, so light slides keep an edge.
+const drawSlideBorder = (painter: Painter, frame: Frame) => {
+  const rect = toPage(frame, { x: 0, y: 0, width: SLIDE_WIDTH, height: SLIDE_HEIGHT });
+  painter.pdf.setDrawColor(PAGE_RULE_COLOR);
+  painter.pdf.setLineWidth(0.5);
+  painter.pdf.rect(rect.x, rect.y, rect.width, rect.height, 'S');
+};
+
+const pageTextStyle = (theme: Theme, changes: Partial<TextStyle> = {}): TextStyle => ({
+  font: theme.fonts.body,
+  size: 11,
+  color: PAGE_TEXT_COLOR,
+  ...changes,
+});
+
+// One slide at the top of each page with its speaker notes below, running
+// onto further pages when the notes are long.
+const drawNotesPages = (painter: Painter, presentation: Presentation, images: UploadedImage[], paperSize: PdfPaperSize) => {
+  const { pdf, theme } = painter;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const width = pageWidth - PAGE_MARGIN * 2;
+  const frame = { x: PAGE_MARGIN, y: PAGE_MARGIN, scale: width / SLIDE_WIDTH };
+
+  presentation.forEach((slide, index) => {
+    if (index > 0) pdf.addPage(paperSize, 'portrait');
+    drawSlide(painter, frame, slide, index + 1, images);
+    drawSlideBorder(painter, frame);
+
+    let y = PAGE_MARGIN + SLIDE_HEIGHT * frame.scale + 28;
+    useFont(painter, pageTextStyle(theme, { style: 'bold' }), 12);
+    pdf.setTextColor(PAGE_TEXT_COLOR);
+    pdf.text(`Slide ${index + 1}`, PAGE_MARGIN, y);
+    y += 22;
+
+    const notes = slide.speakerNotes.trim();
+    const style = pageTextStyle(theme, notes ? {} : { style: 'italic', color: PAGE_MUTED_COLOR });
+    useFont(painter, style, style.size, notes);
+    pdf.setTextColor(hexColor(style.color));
+    const lines: string[] = pdf.splitTextToSize(notes || 'No speaker notes.', width);
+    for (const line of lines) {
+      if (y > pageHeight - PAGE_MARGIN) {
+        pdf.addPage(paperSize, 'portrait');
+        y = PAGE_MARGIN + style.size;
+        useFont(painter, style, style.size, notes);
+        pdf.setTextColor(hexColor(style.color));
+      }
+      pdf.text(line, PAGE_MARGIN, y);
+      y += style.size * 1.5;
+    }
+  });
+};
+
+// N slides per portrait page in a grid, each labelled with its number. With
+// three per page the right half of each row is ruled for notes.
+const drawHandoutPages = (painter: Painter, presentation: Presentation, images: UploadedImage[], options: PdfExportOptions) => {
+  const { pdf, theme } = painter;
+  const grid = HANDOUT_GRIDS[options.slidesPerPage] ?? HANDOUT_GRIDS[DEFAULT_PDF_EXPORT_OPTIONS.slidesPerPage];
+  const perPage = grid.columns * grid.rows;
+  const withRules = perPage === 3;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const gap = 16;
+  const caption = 18;
+  const cellWidth = (pageWidth - PAGE_MARGIN * 2 - gap * (grid.columns - 1)) / grid.columns;
+  const cellHeight = (pageHeight - PAGE_MARGIN * 2 - gap * (grid.rows - 1)) / grid.rows;
+  const slideArea = { width: withRules ? cellWidth * 0.55 : cellWidth, height: cellHeight - caption };
+  const scale = Math.min(slideArea.width / SLIDE_WIDTH, slideArea.height / SLIDE_HEIGHT);
+  const pageCount = Math.ceil(presentation.length / perPage);
+
+  presentation.forEach((slide, index) => {
+    const position = index % perPage;
+    if (index > 0 && position === 0) pdf.addPage(options.paperSize, 'portrait');
+    const cellX = PAGE_MARGIN + (position % grid.columns) * (cellWidth + gap);
+    const cellY = PAGE_MARGIN + Math.floor(position / grid.columns) * (cellHeight + gap);
+    const slideWidth = SLIDE_WIDTH * scale;
+    const frame = { x: withRules ? cellX : cellX + (cellWidth - slideWidth) / 2, y: cellY + caption, scale };
+
+    useFont(painter, pageTextStyle(theme, { style: 'bold' }), 9);
+    pdf.setTextColor(PAGE_MUTED_COLOR);
+    pdf.text(`Slide ${index + 1}`, frame.x, cellY + caption - 6);
+    drawSlide(painter, frame, slide, index + 1, images);
+    drawSlideBorder(painter, frame);
+
+    if (withRules) {
+      const left = cellX + slideWidth + gap;
+      pdf.setDrawColor(PAGE_RULE_COLOR);
+      pdf.setLineWidth(0.5);
+      for (let y = frame.y + 20; y <= frame.y + SLIDE_HEIGHT * scale; y += 20) {
+        pdf.line(left, y, cellX + cellWidth, y);
+      }
+    }
+
+    if (position === perPage - 1 || index === presentation.length - 1) {
+      useFont(painter, pageTextStyle(theme), 9);
+      pdf.setTextColor(PAGE_MUTED_COLOR);
+      pdf.text(`${Math.floor(index / perPage) + 1} / ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - PAGE_MARGIN / 2, { align: 'right' });
+    }
+  });
+};
+
+export const exportPresentationToPdf = async (
+  presentation: Presentation,
+  images: UploadedImage[],
+  theme: Theme,
+  options: PdfExportOptions = DEFAULT_PDF_EXPORT_OPTIONS
+): Promise<Blob> => {
+  const slidePages = options.layout === 'slides';
+  const pdf = slidePages
+    ? new jsPDF({ orientation: 'landscape', unit: 'pt', format: [SLIDE_WIDTH * SLIDE_PAGE_SCALE, SLIDE_HEIGHT * SLIDE_PAGE_SCALE] })
+    : new jsPDF({ orientation: 'portrait', unit: 'pt', format: options.paperSize });
+  pdf.setDocumentProperties({ title: presentation[0]?.title ?? 'Presentation', creator: 'Voice to Presentation Generator' });
+
+  // One alias per upload, however many slides show it.
+  const embedded = new Map<UploadedImage, PdfImage>();
+  for (const slide of presentation) {
+    const image = resolveSlideImage(slide, images);
+    if (image && !embedded.has(image)) {
+      embedded.set(image, await prepareImage(image.base64, `image${embedded.size + 1}`));
+    }
+  }
+
+  const painter: Painter = {
+    pdf,
+    theme,
+    fonts: await registerFonts(pdf, [theme.fonts.heading, theme.fonts.body], deckText(presentation, theme)),
+    images: embedded,
+    logo: theme.logo ? await prepareImage(theme.logo.src, 'logo') : undefined,
+    gradientCount: 0,
+  };
+
+  if (options.layout === 'notes') {
+    drawNotesPages(painter, presentation, images, options.paperSize);
+  } else if (options.layout === 'handout') {
+    drawHandoutPages(painter, presentation, images, options);
+  } else {
+    const size: [number, number] = [SLIDE_WIDTH * SLIDE_PAGE_SCALE, SLIDE_HEIGHT * SLIDE_PAGE_SCALE];
+    presentation.forEach((slide, index) => {
+      if (index > 0) pdf.addPage(size, 'landscape');
+      drawSlide(painter, { x: 0, y: 0, scale: SLIDE_PAGE_SCALE }, slide, index + 1, images);
+    });
+  }
+
+  return pdf.output('blob');
+};
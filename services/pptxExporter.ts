@@ -0,0 +1,498 @@
+import JSZip from 'jszip';
+import type { Presentation, Slide, Theme, UploadedImage } from '../types';
+import { resolveSlideImage, encodeImage, fitContain } from '../utils/slideImages';
+import { dataUrlToBase64 } from '../utils/download';
+import { getSlideLayout } from '../utils/slideLayouts';
+
+// Writes a Presentation as an Office Open XML (.pptx) package. Titles and
+// bullets become editable text boxes, speaker notes go into notes pages and
+// uploaded images are embedded as pictures. Each slide layout is laid out to
+// match SlideContent, and colors, fonts, logo and footer come from the theme.
+
+// 16:9 slide size in EMUs (English Metric Units, 914400 per inch).
+const SLIDE_WIDTH = 12192000;
+const SLIDE_HEIGHT = 6858000;
+const NOTES_WIDTH = 6858000;
+const NOTES_HEIGHT = 9144000;
+const MARGIN = 457200;
+// The on-screen slide is 1280px wide, so one CSS pixel is 9525 EMUs and
+// 0.75pt (font sizes are in hundredths of a point).
+const PX = SLIDE_WIDTH / 1280;
+const pxToFontSize = (px: number) => Math.round(px * 75);
+
+const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_P = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+interface EmbeddedImage {
+  fileName: string;
+  width: number;
+  height: number;
+  description: string;
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Strip control characters that are not allowed in XML 1.0.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const emu = (value: number) => Math.round(value);
+
+// "#abc" / "#aabbcc" -> "AABBCC", as DrawingML expects.
+const hexColor = (color: string): string => {
+  const hex = color.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(hex)) return hex.split('').map(c => c + c).join('').toUpperCase();
+  return /^[0-9a-f]{6}$/i.test(hex) ? hex.toUpperCase() : '000000';
+};
+
+const solidFill = (color: string) => `<a:solidFill><a:srgbClr val="${hexColor(color)}"/></a:solidFill>`;
+
+// `angle` is in 60000ths of a degree, measured clockwise from the x axis.
+const fill = (from: string, to: string | null, angle: number) =>
+  to
+    ? `<a:gradFill rotWithShape="1"><a:gsLst><a:gs pos="0"><a:srgbClr val="${hexColor(from)}"/></a:gs>` +
+      `<a:gs pos="100000"><a:srgbClr val="${hexColor(to)}"/></a:gs></a:gsLst><a:lin ang="${angle}" scaled="0"/></a:gradFill>`
+    : solidFill(from);
+
+const relationships = (rels: { id: string; type: string; target: string }[]) =>
+  `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${rels
+    .map(rel => `<Relationship Id="${rel.id}" Type="${rel.type.startsWith('http') ? rel.type : `${REL}/${rel.type}`}" Target="${rel.target}"/>`)
+    .join('')}</Relationships>`;
+
+const runProps = (
+  font: string,
+  size: number,
+  colorFill: string,
+  options: { bold?: boolean; italic?: boolean; uppercase?: boolean } = {}
+) =>
+  `<a:rPr lang="en-US" sz="${size}"${options.bold ? ' b="1"' : ''}${options.italic ? ' i="1"' : ''}${options.uppercase ? ' cap="all"' : ''} dirty="0">` +
+  `${colorFill}<a:latin typeface="${escapeXml(font)}"/><a:cs typeface="${escapeXml(font)}"/></a:rPr>`;
+
+const textBox = (
+  id: number,
+  name: string,
+  box: { x: number; y: number; width: number; height: number },
+  paragraphs: string,
+  anchor: 't' | 'ctr' | 'b' = 't'
+) =>
+  `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${escapeXml(name)}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>` +
+  `<p:spPr><a:xfrm><a:off x="${emu(box.x)}" y="${emu(box.y)}"/><a:ext cx="${emu(box.width)}" cy="${emu(box.height)}"/></a:xfrm>` +
+  `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr>` +
+  `<p:txBody><a:bodyPr wrap="square" lIns="91440" tIns="45720" rIns="91440" bIns="45720" anchor="${anchor}"><a:normAutofit/></a:bodyPr><a:lstStyle/>${paragraphs}</p:txBody></p:sp>`;
+
+const titleParagraph = (title: string, theme: Theme, scale = 1) => {
+  const props = runProps(
+    theme.fonts.heading,
+    pxToFontSize(theme.title.size * scale),
+    fill(theme.colors.title, theme.colors.titleGradientTo, 0),
+    { bold: theme.title.weight >= 600, uppercase: theme.title.uppercase }
+  );
+  return `<a:p><a:pPr algn="${theme.title.align === 'center' ? 'ctr' : 'l'}"/><a:r>${props}<a:t>${escapeXml(title)}</a:t></a:r></a:p>`;
+};
+
+const textParagraph = (text: string, props: string, align: 'l' | 'ctr' | 'r' = 'l') =>
+  `<a:p><a:pPr algn="${align}"/><a:r>${props}<a:t>${escapeXml(text)}</a:t></a:r></a:p>`;
+
+const bulletParagraphs = (points: string[], theme: Theme, numbered = false) => {
+  const size = pxToFontSize(theme.bullets.size);
+  const marker = numbered
+    ? `<a:buFont typeface="+mj-lt"/><a:buAutoNum type="arabicPeriod"/>`
+    : `<a:buFont typeface="Arial"/><a:buChar char="${escapeXml(theme.bullets.marker)}"/>`;
+  return points.length === 0
+    ? `<a:p><a:endParaRPr lang="en-US" sz="${size}"/></a:p>`
+    : points
+        .map(
+          point =>
+            `<a:p><a:pPr marL="342900" indent="-342900"><a:spcBef><a:spcPts val="${pxToFontSize(theme.bullets.spacing)}"/></a:spcBef>` +
+            `<a:buClr><a:srgbClr val="${hexColor(theme.colors.accent)}"/></a:buClr>${marker}</a:pPr>` +
+            `<a:r>${runProps(theme.fonts.body, size, solidFill(theme.colors.text))}<a:t>${escapeXml(point)}</a:t></a:r></a:p>`
+        )
+        .join('');
+};
+
+// Footer text on the left and a live slide-number field on the right,
+// mirroring SlideDecorations.
+const footerShapes = (theme: Theme, slideNumber: number) => {
+  const size = pxToFontSize(14);
+  const props = runProps(theme.fonts.body, size, solidFill(theme.colors.text));
+  const height = 36 * PX;
+  const y = SLIDE_HEIGHT - 12 * PX - height;
+  const width = (SLIDE_WIDTH - 96 * PX) / 2;
+  const shapes: string[] = [];
+  if (theme.footer.text) {
+    shapes.push(textBox(90, 'Footer', { x: 48 * PX, y, width, height },
+      `<a:p><a:r>${props}<a:t>${escapeXml(theme.footer.text)}</a:t></a:r></a:p>`, 'ctr'));
+  }
+  if (theme.footer.showSlideNumber) {
+    shapes.push(textBox(91, 'Slide Number', { x: 48 * PX + width, y, width, height },
+      `<a:p><a:pPr algn="r"/><a:fld id="{B6F15528-21DE-4FAA-801E-634DDDAF4B2B}" type="slidenum">${props}<a:t>${slideNumber}</a:t></a:fld></a:p>`, 'ctr'));
+  }
+  return shapes.join('');
+};
+
+// Same box as the logo in SlideDecorations: at most 160x48px, 16px from the corner.
+const logoBox = (logo: EmbeddedImage, position: NonNullable<Theme['logo']>['position']) => {
+  const scale = Math.min(160 / logo.width, 48 / logo.height, 1);
+  const width = logo.width * scale * PX;
+  const height = logo.height * scale * PX;
+  const inset = 16 * PX;
+  return {
+    x: position.endsWith('left') ? inset : SLIDE_WIDTH - inset - width,
+    y: position.startsWith('top') ? inset : SLIDE_HEIGHT - inset - height,
+    width,
+    height,
+  };
+};
+
+const picture = (
+  id: number,
+  relId: string,
+  image: EmbeddedImage,
+  box: { x: number; y: number; width: number; height: number }
+) => {
+  const fitted = fitContain(image.width, image.height, box);
+  return (
+    `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="Picture ${id}" descr="${escapeXml(image.description)}"/>` +
+    `<p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>` +
+    `<p:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+    `<p:spPr><a:xfrm><a:off x="${emu(fitted.x)}" y="${emu(fitted.y)}"/><a:ext cx="${emu(fitted.width)}" cy="${emu(fitted.height)}"/></a:xfrm>` +
+    `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`
+  );
+};
+
+const groupRoot = `<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>`;
+
+const accentBar = (id: number, box: { x: number; y: number; width: number; height: number }, color: string) =>
+  `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Accent ${id}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>` +
+  `<p:spPr><a:xfrm><a:off x="${emu(box.x)}" y="${emu(box.y)}"/><a:ext cx="${emu(box.width)}" cy="${emu(box.height)}"/></a:xfrm>` +
+  `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>${solidFill(color)}<a:ln><a:noFill/></a:ln></p:spPr></p:sp>`;
+
+// The shapes for one slide layout; ids from 2 upwards, the image is always rId2.
+const layoutShapes = (slide: Slide, image: EmbeddedImage | undefined, theme: Theme): string[] => {
+  const titleBox = { x: MARGIN, y: MARGIN, width: SLIDE_WIDTH - MARGIN * 2, height: 1143000 };
+  const bodyTop = titleBox.y + titleBox.height + 182880;
+  const bodyHeight = SLIDE_HEIGHT - bodyTop - MARGIN;
+  const fullWidth = SLIDE_WIDTH - MARGIN * 2;
+  const columnWidth = (fullWidth - MARGIN) / 2;
+  const leftColumn = { x: MARGIN, y: bodyTop, width: columnWidth, height: bodyHeight };
+  const rightColumn = { x: MARGIN * 2 + columnWidth, y: bodyTop, width: columnWidth, height: bodyHeight };
+  const align = theme.title.align === 'center' ? 'ctr' : 'l';
+  const bodyProps = (scale = 1, options: { bold?: boolean; italic?: boolean } = {}, color = theme.colors.text) =>
+    runProps(theme.fonts.body, pxToFontSize(theme.bullets.size * scale), solidFill(color), options);
+  const title = textBox(2, 'Title', titleBox, titleParagraph(slide.title, theme), 'ctr');
+
+  switch (getSlideLayout(slide)) {
+    case 'title':
+    case 'section': {
+      const isTitle = getSlideLayout(slide) === 'title';
+      const heroTop = SLIDE_HEIGHT * (image && isTitle ? 0.18 : 0.3);
+      const shapes = [
+        textBox(2, 'Title', { x: MARGIN, y: heroTop, width: fullWidth, height: 1371600 }, titleParagraph(slide.title, theme, isTitle ? 1.5 : 1.3), 'b'),
+      ];
+      if (slide.subtitle) {
+        shapes.push(textBox(3, 'Subtitle', { x: MARGIN, y: heroTop + 1371600, width: fullWidth, height: 731520 }, textParagraph(slide.subtitle, bodyProps(1.2), align)));
+      }
+      if (!isTitle) {
+        const barWidth = 24 * 4 * PX;
+        shapes.push(accentBar(4, { x: align === 'ctr' ? (SLIDE_WIDTH - barWidth) / 2 : MARGIN + 91440, y: heroTop - 4 * PX - 182880, width: barWidth, height: 4 * PX }, theme.colors.accent));
+      } else if (image) {
+        const top = heroTop + 1371600 + 731520 + 182880;
+        shapes.push(picture(4, 'rId2', image, { x: SLIDE_WIDTH / 3, y: top, width: SLIDE_WIDTH / 3, height: SLIDE_HEIGHT - top - MARGIN }));
+      }
+      return shapes;
+    }
+    case 'two-column': {
+      const [left, right] = slide.columns ?? [];
+      const column = (heading: string, points: string[]) =>
+        (heading ? textParagraph(heading, runProps(theme.fonts.heading, pxToFontSize(theme.bullets.size), solidFill(theme.colors.accent), { bold: true })) : '') +
+        bulletParagraphs(points, theme);
+      return [
+        title,
+        textBox(3, 'Left Column', leftColumn, column(left?.heading ?? '', left?.points ?? [])),
+        textBox(4, 'Right Column', rightColumn, column(right?.heading ?? '', right?.points ?? [])),
+      ];
+    }
+    case 'image-left':
+    case 'image-right': {
+      const imageLeft = getSlideLayout(slide) === 'image-left';
+      const shapes = [title, textBox(3, 'Content', imageLeft ? rightColumn : leftColumn, bulletParagraphs(slide.content, theme), 'ctr')];
+      if (image) shapes.push(picture(4, 'rId2', image, imageLeft ? leftColumn : rightColumn));
+      return shapes;
+    }
+    case 'stat': {
+      const statHeight = 2286000;
+      const shapes = [
+        title,
+        textBox(3, 'Stat', { x: MARGIN, y: bodyTop, width: fullWidth, height: statHeight },
+          textParagraph(slide.stat?.value ?? '', runProps(theme.fonts.heading, pxToFontSize(theme.title.size * 3), solidFill(theme.colors.accent), { bold: true }), 'ctr') +
+          (slide.stat?.label ? textParagraph(slide.stat.label, bodyProps(1.2), 'ctr') : ''), 'ctr'),
+      ];
+      if (slide.content.length > 0) {
+        shapes.push(textBox(4, 'Content', { x: MARGIN * 3, y: bodyTop + statHeight, width: fullWidth - MARGIN * 4, height: bodyHeight - statHeight }, bulletParagraphs(slide.content, theme)));
+      }
+      return shapes;
+    }
+    case 'quote': {
+      const quoteBox = { x: MARGIN * 2, y: bodyTop, width: fullWidth - MARGIN * 2, height: bodyHeight };
+      return [
+        ...(slide.title ? [title] : []),
+        textBox(3, 'Quote', quoteBox,
+          textParagraph(`“${slide.quote?.text ?? ''}”`, bodyProps(1.5, { italic: true })) +
+          (slide.quote?.attribution ? textParagraph(`— ${slide.quote.attribution}`, bodyProps(1), 'r') : ''), 'ctr'),
+      ];
+    }
+    case 'agenda':
+      return [title, textBox(3, 'Agenda', { x: MARGIN * 2, y: bodyTop, width: fullWidth - MARGIN * 2, height: bodyHeight }, bulletParagraphs(slide.content, theme, true))];
+    default:
+      return image
+        ? [title, textBox(3, 'Content', leftColumn, bulletParagraphs(slide.content, theme)), picture(4, 'rId2', image, rightColumn)]
+        : [title, textBox(3, 'Content', { x: MARGIN, y: bodyTop, width: fullWidth, height: bodyHeight }, bulletParagraphs(slide.content, theme))];
+  }
+};
+
+const slideXml = (slide: Slide, slideNumber: number, image: EmbeddedImage | undefined, theme: Theme, logo: EmbeddedImage | undefined) => {
+  const shapes = layoutShapes(slide, image, theme);
+  if (logo && theme.logo) {
+    shapes.push(picture(92, 'rId4', logo, logoBox(logo, theme.logo.position)));
+  }
+  shapes.push(footerShapes(theme, slideNumber));
+
+  return (
+    `${XML_HEADER}<p:sld xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}">` +
+    `<p:cSld><p:bg><p:bgPr>${fill(theme.colors.background, theme.colors.backgroundGradientTo, 2700000)}<a:effectLst/></p:bgPr></p:bg>` +
+    `<p:spTree>${groupRoot}${shapes.join('')}</p:spTree></p:cSld>` +
+    `<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`
+  );
+};
+
+const notesXml = (notes: string) => {
+  const paragraphs = notes
+    .split(/\r?\n/)
+    .map(line =>
+      line
+        ? `<a:p><a:r><a:rPr lang="en-US" dirty="0"/><a:t>${escapeXml(line)}</a:t></a:r></a:p>`
+        : `<a:p><a:endParaRPr lang="en-US" dirty="0"/></a:p>`
+    )
+    .join('');
+  return (
+    `${XML_HEADER}<p:notes xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"><p:cSld><p:spTree>${groupRoot}` +
+    `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr/></p:sp>` +
+    `<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr/>` +
+    `<p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs || '<a:p><a:endParaRPr lang="en-US" dirty="0"/></a:p>'}</p:txBody></p:sp>` +
+    `</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>`
+  );
+};
+
+const themeXml = (name: string, theme: Theme) =>
+  `${XML_HEADER}<a:theme xmlns:a="${NS_A}" name="${name}"><a:themeElements>` +
+  `<a:clrScheme name="${name}"><a:dk1><a:srgbClr val="000000"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1>` +
+  `<a:dk2><a:srgbClr val="${hexColor(theme.colors.background)}"/></a:dk2><a:lt2><a:srgbClr val="${hexColor(theme.colors.text)}"/></a:lt2>` +
+  `<a:accent1><a:srgbClr val="${hexColor(theme.colors.accent)}"/></a:accent1><a:accent2><a:srgbClr val="3B82F6"/></a:accent2><a:accent3><a:srgbClr val="8B5CF6"/></a:accent3>` +
+  `<a:accent4><a:srgbClr val="EC4899"/></a:accent4><a:accent5><a:srgbClr val="F59E0B"/></a:accent5><a:accent6><a:srgbClr val="10B981"/></a:accent6>` +
+  `<a:hlink><a:srgbClr val="22D3EE"/></a:hlink><a:folHlink><a:srgbClr val="A78BFA"/></a:folHlink></a:clrScheme>` +
+  `<a:fontScheme name="${name}"><a:majorFont><a:latin typeface="${escapeXml(theme.fonts.heading)}"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>` +
+  `<a:minorFont><a:latin typeface="${escapeXml(theme.fonts.body)}"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme>` +
+  `<a:fmtScheme name="${name}"><a:fillStyleLst>` +
+  `<a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill>` +
+  `</a:fillStyleLst><a:lnStyleLst>` +
+  `<a:ln w="6350"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln><a:ln w="12700"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln><a:ln w="19050"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>` +
+  `</a:lnStyleLst><a:effectStyleLst>` +
+  `<a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle>` +
+  `</a:effectStyleLst><a:bgFillStyleLst>` +
+  `<a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill><a:solidFill><a:schemeClr val="phClr"/></a:solidFill>` +
+  `</a:bgFillStyleLst></a:fmtScheme></a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>`;
+
+const clrMap = `<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>`;
+
+const slideMasterXml =
+  `${XML_HEADER}<p:sldMaster xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}">` +
+  `<p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${groupRoot}</p:spTree></p:cSld>${clrMap}` +
+  `<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>` +
+  `<p:txStyles><p:titleStyle><a:lvl1pPr><a:defRPr sz="3600"/></a:lvl1pPr></p:titleStyle>` +
+  `<p:bodyStyle><a:lvl1pPr><a:defRPr sz="2000"/></a:lvl1pPr></p:bodyStyle>` +
+  `<p:otherStyle><a:lvl1pPr><a:defRPr sz="1800"/></a:lvl1pPr></p:otherStyle></p:txStyles></p:sldMaster>`;
+
+const slideLayoutXml =
+  `${XML_HEADER}<p:sldLayout xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}" type="blank" preserve="1">` +
+  `<p:cSld name="Blank"><p:spTree>${groupRoot}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`;
+
+const notesMasterXml =
+  `${XML_HEADER}<p:notesMaster xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}">` +
+  `<p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${groupRoot}` +
+  `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg" idx="2"/></p:nvPr></p:nvSpPr>` +
+  `<p:spPr><a:xfrm><a:off x="685800" y="1143000"/><a:ext cx="5486400" cy="3086100"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr></p:sp>` +
+  `<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" sz="quarter" idx="3"/></p:nvPr></p:nvSpPr>` +
+  `<p:spPr><a:xfrm><a:off x="685800" y="4400550"/><a:ext cx="5486400" cy="3600450"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>` +
+  `<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="en-US"/></a:p></p:txBody></p:sp>` +
+  `</p:spTree></p:cSld>${clrMap}<p:notesStyle><a:lvl1pPr marL="0" algn="l"><a:defRPr sz="1200"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill><a:latin typeface="+mn-lt"/></a:defRPr></a:lvl1pPr></p:notesStyle></p:notesMaster>`;
+
+const presentationXml = (slideCount: number) => {
+  const slideIds = Array.from(
+    { length: slideCount },
+    (_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 3}"/>`
+  ).join('');
+  return (
+    `${XML_HEADER}<p:presentation xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}" saveSubsetFonts="1">` +
+    `<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>` +
+    `<p:notesMasterIdLst><p:notesMasterId r:id="rId2"/></p:notesMasterIdLst>` +
+    `<p:sldIdLst>${slideIds}</p:sldIdLst>` +
+    `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="${NOTES_WIDTH}" cy="${NOTES_HEIGHT}"/>` +
+    `<p:defaultTextStyle><a:lvl1pPr><a:defRPr lang="en-US"/></a:lvl1pPr></p:defaultTextStyle></p:presentation>`
+  );
+};
+
+const contentTypesXml = (slideCount: number) => {
+  const perSlide = Array.from({ length: slideCount }, (_, i) =>
+    `<Override PartName="/ppt/slides/slide${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>` +
+    `<Override PartName="/ppt/notesSlides/notesSlide${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.notesSlide+xml"/>`
+  ).join('');
+  return (
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+    `<Default Extension="xml" ContentType="application/xml"/>` +
+    `<Default Extension="png" ContentType="image/png"/>` +
+    `<Default Extension="jpeg" ContentType="image/jpeg"/>` +
+    `<Default Extension="gif" ContentType="image/gif"/>` +
+    `<Override PartName="/ppt/presentation.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml"/>` +
+    `<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml"/>` +
+    `<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml"/>` +
+    `<Override PartName="/ppt/notesMasters/notesMaster1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.notesMaster+xml"/>` +
+    `<Override PartName="/ppt/theme/theme1.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/>` +
+    `<Override PartName="/ppt/theme/theme2.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/>` +
+    `<Override PartName="/ppt/presProps.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presProps+xml"/>` +
+    `<Override PartName="/ppt/viewProps.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.viewProps+xml"/>` +
+    `<Override PartName="/ppt/tableStyles.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.tableStyles+xml"/>` +
+    `<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>` +
+    `<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>` +
+    `${perSlide}</Types>`
+  );
+};
+
+const corePropsXml = (title: string) => {
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return (
+    `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:dcmitype="http://purl.org/dc/dcmitype/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">` +
+    `<dc:title>${escapeXml(title)}</dc:title><dc:creator>Voice to Presentation Generator</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>` +
+    `</cp:coreProperties>`
+  );
+};
+
+const appPropsXml = (slideCount: number) =>
+  `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties" xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes">` +
+  `<Application>Voice to Presentation Generator</Application><Slides>${slideCount}</Slides><Notes>${slideCount}</Notes><PresentationFormat>Widescreen</PresentationFormat></Properties>`;
+
+// The image types PowerPoint reliably renders.
+const PPTX_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif'];
+
+const prepareImage = async (src: string, baseName: string, description: string) => {
+  const { dataUrl, mimeType, width, height } = await encodeImage(src, PPTX_IMAGE_TYPES);
+  return {
+    data: dataUrlToBase64(dataUrl),
+    embedded: {
+      fileName: `${baseName}.${mimeType.split('/')[1]}`,
+      width,
+      height,
+      description,
+    } as EmbeddedImage,
+  };
+};
+
+export const exportPresentationToPptx = async (
+  presentation: Presentation,
+  images: UploadedImage[],
+  theme: Theme
+): Promise<Blob> => {
+  const zip = new JSZip();
+  // Folder entries are not OPC parts, so keep them out of the package.
+  const addPart = (path: string, data: string) => zip.file(path, data, { createFolders: false });
+  const slideCount = presentation.length;
+
+  // Embed each referenced image once, no matter how many slides use it.
+  const embedded = new Map<UploadedImage, EmbeddedImage>();
+  for (const slide of presentation) {
+    const image = resolveSlideImage(slide, images);
+    if (image && !embedded.has(image)) {
+      const prepared = await prepareImage(image.base64, `image${embedded.size + 1}`, image.description);
+      zip.file(`ppt/media/${prepared.embedded.fileName}`, prepared.data, { base64: true, createFolders: false });
+      embedded.set(image, prepared.embedded);
+    }
+  }
+
+  let logo: EmbeddedImage | undefined;
+  if (theme.logo) {
+    const prepared = await prepareImage(theme.logo.src, 'logo', 'Logo');
+    zip.file(`ppt/media/${prepared.embedded.fileName}`, prepared.data, { base64: true, createFolders: false });
+    logo = prepared.embedded;
+  }
+
+  addPart('[Content_Types].xml', contentTypesXml(slideCount));
+  addPart('_rels/.rels', relationships([
+    { id: 'rId1', type: 'officeDocument', target: 'ppt/presentation.xml' },
+    { id: 'rId2', type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+    { id: 'rId3', type: 'extended-properties', target: 'docProps/app.xml' },
+  ]));
+  addPart('docProps/core.xml', corePropsXml(presentation[0]?.title ?? 'Presentation'));
+  addPart('docProps/app.xml', appPropsXml(slideCount));
+
+  addPart('ppt/presentation.xml', presentationXml(slideCount));
+  addPart('ppt/_rels/presentation.xml.rels', relationships([
+    { id: 'rId1', type: 'slideMaster', target: 'slideMasters/slideMaster1.xml' },
+    { id: 'rId2', type: 'notesMaster', target: 'notesMasters/notesMaster1.xml' },
+    ...presentation.map((_, i) => ({ id: `rId${i + 3}`, type: 'slide', target: `slides/slide${i + 1}.xml` })),
+    { id: `rId${slideCount + 3}`, type: 'presProps', target: 'presProps.xml' },
+    { id: `rId${slideCount + 4}`, type: 'viewProps', target: 'viewProps.xml' },
+    { id: `rId${slideCount + 5}`, type: 'theme', target: 'theme/theme1.xml' },
+    { id: `rId${slideCount + 6}`, type: 'tableStyles', target: 'tableStyles.xml' },
+  ]));
+  addPart('ppt/presProps.xml', `${XML_HEADER}<p:presentationPr xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"/>`);
+  addPart('ppt/viewProps.xml', `${XML_HEADER}<p:viewPr xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"><p:gridSpacing cx="76200" cy="76200"/></p:viewPr>`);
+  addPart('ppt/tableStyles.xml', `${XML_HEADER}<a:tblStyleLst xmlns:a="${NS_A}" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`);
+  addPart('ppt/theme/theme1.xml', themeXml('Slides', theme));
+  addPart('ppt/theme/theme2.xml', themeXml('Notes', theme));
+
+  addPart('ppt/slideMasters/slideMaster1.xml', slideMasterXml);
+  addPart('ppt/slideMasters/_rels/slideMaster1.xml.rels', relationships([
+    { id: 'rId1', type: 'slideLayout', target: '../slideLayouts/slideLayout1.xml' },
+    { id: 'rId2', type: 'theme', target: '../theme/theme1.xml' },
+  ]));
+  addPart('ppt/slideLayouts/slideLayout1.xml', slideLayoutXml);
+  addPart('ppt/slideLayouts/_rels/slideLayout1.xml.rels', relationships([
+    { id: 'rId1', type: 'slideMaster', target: '../slideMasters/slideMaster1.xml' },
+  ]));
+  addPart('ppt/notesMasters/notesMaster1.xml', notesMasterXml);
+  addPart('ppt/notesMasters/_rels/notesMaster1.xml.rels', relationships([
+    { id: 'rId1', type: 'theme', target: '../theme/theme2.xml' },
+  ]));
+
+  presentation.forEach((slide, i) => {
+    const number = i + 1;
+    const uploaded = resolveSlideImage(slide, images);
+    const image = uploaded ? embedded.get(uploaded) : undefined;
+
+    addPart(`ppt/slides/slide${number}.xml`, slideXml(slide, number, image, theme, logo));
+    addPart(`ppt/slides/_rels/slide${number}.xml.rels`, relationships([
+      { id: 'rId1', type: 'slideLayout', target: '../slideLayouts/slideLayout1.xml' },
+      ...(image ? [{ id: 'rId2', type: 'image', target: `../media/${image.fileName}` }] : []),
+      { id: 'rId3', type: 'notesSlide', target: `../notesSlides/notesSlide${number}.xml` },
+      ...(logo ? [{ id: 'rId4', type: 'image', target: `../media/${logo.fileName}` }] : []),
+    ]));
+    addPart(`ppt/notesSlides/notesSlide${number}.xml`, notesXml(slide.speakerNotes));
+    addPart(`ppt/notesSlides/_rels/notesSlide${number}.xml.rels`, relationships([
+      { id: 'rId1', type: 'notesMaster', target: '../notesMasters/notesMaster1.xml' },
+      { id: 'rId2', type: 'slide', target: `../slides/slide${number}.xml` },
+    ]));
+  });
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    compression: 'DEFLATE',
+  });
+};
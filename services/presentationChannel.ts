@@ -0,0 +1,54 @@
+import type { Presentation, Theme, UploadedImage } from '../types';
+
+// Keeps the editor, the audience window and the presenter window in sync.
+// The editor (App) owns the deck and the current slide; the other windows
+// ask it for state on load and send navigation requests back.
+
+export type PresentationView = 'audience' | 'presenter';
+
+export type PresentationMessage =
+  | { type: 'request-state' }
+  | { type: 'deck'; title: string; presentation: Presentation; images: UploadedImage[]; theme: Theme; currentSlide: number }
+  | { type: 'slide'; currentSlide: number }
+  | { type: 'navigate'; index: number }
+  | { type: 'end' };
+
+const channelName = (sessionId: string) => `ppt-audio-present-${sessionId}`;
+
+export interface PresentationChannel {
+  post: (message: PresentationMessage) => void;
+  close: () => void;
+}
+
+export const openPresentationChannel = (
+  sessionId: string,
+  onMessage: (message: PresentationMessage) => void
+): PresentationChannel | null => {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  const channel = new BroadcastChannel(channelName(sessionId));
+  channel.onmessage = (event: MessageEvent<PresentationMessage>) => onMessage(event.data);
+  return {
+    post: message => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+};
+
+export const presentationViewUrl = (view: PresentationView, sessionId: string): string => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set('view', view);
+  url.searchParams.set('session', sessionId);
+  return url.toString();
+};
+
+// Reads `?view=...&session=...` so index.tsx can decide what to mount.
+export const getPresentationViewFromUrl = (): { view: PresentationView; sessionId: string } | null => {
+  const params = new URLSearchParams(window.location.search);
+  const view = params.get('view');
+  const sessionId = params.get('session');
+  if ((view === 'audience' || view === 'presenter') && sessionId) {
+    return { view, sessionId };
+  }
+  return null;
+};
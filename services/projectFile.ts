@@ -0,0 +1,299 @@
+import type { AiProviderId, GenerationOptions, Project, Slide, Theme, TranscriptSegment, UploadedImage } from '../types';
+import { normalizeGenerationOptions } from './generationOptions';
+import { createEmptyProject } from './projectStore';
+import { normalizeTheme } from './themeService';
+import { dataUrlToBase64 } from '../utils/download';
+import { SLIDE_LAYOUTS, isSlideLayout } from '../utils/slideLayouts';
+
+// Portable, versioned `.json` representation of a project, so decks can be
+// shared between teammates or checked into git. See docs/project-file-format.md.
+
+export const PROJECT_FILE_FORMAT = 'ppt-audio-project';
+export const PROJECT_FILE_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = '.pptaudio.json';
+
+export interface ProjectFileImage {
+  // Matches the `imagePlaceholder` used by slides, e.g. "IMAGE_1".
+  id: string;
+  name: string;
+  mimeType: string;
+  description: string;
+  // Base64 payload without the data URL prefix.
+  data: string;
+}
+
+export interface ProjectFileGeneration {
+  providerId: AiProviderId;
+  model: string;
+  // Version 2+: the generation controls (audience, tone, slide range, …).
+  options?: GenerationOptions;
+}
+
+export interface ProjectFileV1 {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  project: {
+    name: string;
+    transcript: string;
+    // Optional: only high-accuracy transcriptions are timed.
+    transcriptSegments?: TranscriptSegment[];
+    slides: Slide[];
+    images: ProjectFileImage[];
+    // Optional so files written before themes existed stay valid.
+    theme?: Theme;
+    generation?: ProjectFileGeneration;
+  };
+}
+
+// Version 2 added `project.generation.options`.
+export interface ProjectFileV2 extends Omit<ProjectFileV1, 'version'> {
+  version: 2;
+}
+
+export type ProjectFile = ProjectFileV2;
+
+// Thrown when a file cannot be loaded; `issues` lists every problem found,
+// each prefixed with the JSON path it refers to.
+export class ProjectFileError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n${issues.map(issue => `• ${issue}`).join('\n')}` : message);
+    this.name = 'ProjectFileError';
+    this.issues = issues;
+  }
+}
+
+// Upgrades a parsed file from version N to N + 1. When the `Slide` type or the
+// file layout changes, bump PROJECT_FILE_VERSION and register the step here.
+type Migration = (file: Record<string, unknown>) => Record<string, unknown>;
+const MIGRATIONS: Record<number, Migration> = {
+  // The layout is unchanged; version 1 files simply have no generation options.
+  1: file => ({ ...file, version: 2 }),
+};
+
+const migrate = (file: Record<string, unknown>): Record<string, unknown> => {
+  let current = file;
+  let version = current.version as number;
+  while (version < PROJECT_FILE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      throw new ProjectFileError(`No migration available from project file version ${version}.`);
+    }
+    current = step(current);
+    version = current.version as number;
+  }
+  return current;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateSlide = (slide: unknown, path: string, imageIds: Set<string>, issues: string[]) => {
+  if (!isObject(slide)) {
+    issues.push(`${path} must be an object.`);
+    return;
+  }
+  if (typeof slide.title !== 'string') issues.push(`${path}.title must be a string.`);
+  if (!Array.isArray(slide.content)) {
+    issues.push(`${path}.content must be an array of strings.`);
+  } else {
+    slide.content.forEach((point, i) => {
+      if (typeof point !== 'string') issues.push(`${path}.content[${i}] must be a string.`);
+    });
+  }
+  if (typeof slide.speakerNotes !== 'string') issues.push(`${path}.speakerNotes must be a string.`);
+  if (slide.imagePlaceholder !== undefined) {
+    if (typeof slide.imagePlaceholder !== 'string') {
+      issues.push(`${path}.imagePlaceholder must be a string.`);
+    } else if (!imageIds.has(slide.imagePlaceholder)) {
+      issues.push(`${path}.imagePlaceholder references unknown image "${slide.imagePlaceholder}".`);
+    }
+  }
+  if (slide.imagePrompt !== undefined && typeof slide.imagePrompt !== 'string') issues.push(`${path}.imagePrompt must be a string.`);
+  if (slide.layout !== undefined && !isSlideLayout(slide.layout)) {
+    issues.push(`${path}.layout must be one of ${SLIDE_LAYOUTS.map(layout => `"${layout.id}"`).join(', ')}.`);
+  }
+  if (slide.subtitle !== undefined && typeof slide.subtitle !== 'string') issues.push(`${path}.subtitle must be a string.`);
+  if (slide.columns !== undefined) {
+    if (!Array.isArray(slide.columns)) {
+      issues.push(`${path}.columns must be an array.`);
+    } else {
+      slide.columns.forEach((column, i) => {
+        if (!isObject(column) || typeof column.heading !== 'string' || !Array.isArray(column.points) || column.points.some(point => typeof point !== 'string')) {
+          issues.push(`${path}.columns[${i}] must have a string "heading" and an array of string "points".`);
+        }
+      });
+    }
+  }
+  if (slide.stat !== undefined && (!isObject(slide.stat) || typeof slide.stat.value !== 'string' || typeof slide.stat.label !== 'string')) {
+    issues.push(`${path}.stat must have string "value" and "label" fields.`);
+  }
+  if (slide.quote !== undefined && (!isObject(slide.quote) || typeof slide.quote.text !== 'string' || typeof slide.quote.attribution !== 'string')) {
+    issues.push(`${path}.quote must have string "text" and "attribution" fields.`);
+  }
+};
+
+const validateSegment = (segment: unknown, path: string, issues: string[]) => {
+  if (!isObject(segment)) {
+    issues.push(`${path} must be an object.`);
+    return;
+  }
+  if (typeof segment.start !== 'number' || typeof segment.end !== 'number') {
+    issues.push(`${path} must have numeric "start" and "end" fields.`);
+  } else if (segment.end < segment.start) {
+    issues.push(`${path}.end must not be before its start.`);
+  }
+  if (typeof segment.text !== 'string') issues.push(`${path}.text must be a string.`);
+  if (segment.speaker !== undefined && typeof segment.speaker !== 'string') issues.push(`${path}.speaker must be a string.`);
+};
+
+const validateImage = (image: unknown, path: string, issues: string[]) => {
+  if (!isObject(image)) {
+    issues.push(`${path} must be an object.`);
+    return;
+  }
+  for (const key of ['id', 'name', 'mimeType', 'description', 'data']) {
+    if (typeof image[key] !== 'string') issues.push(`${path}.${key} must be a string.`);
+  }
+  if (typeof image.mimeType === 'string' && !image.mimeType.startsWith('image/')) {
+    issues.push(`${path}.mimeType must be an image type, got "${image.mimeType}".`);
+  }
+  if (typeof image.data === 'string' && !/^[A-Za-z0-9+/=\s]*$/.test(image.data)) {
+    issues.push(`${path}.data must be base64-encoded.`);
+  }
+};
+
+export const validateProjectFile = (data: unknown): ProjectFile => {
+  if (!isObject(data)) {
+    throw new ProjectFileError("The file does not contain a JSON object.");
+  }
+  if (data.format !== PROJECT_FILE_FORMAT) {
+    throw new ProjectFileError(`This is not a project file (expected "format": "${PROJECT_FILE_FORMAT}").`);
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new ProjectFileError("The project file has a missing or invalid \"version\".");
+  }
+  if (data.version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(`This project file was saved by a newer version of the app (file version ${data.version}, supported up to ${PROJECT_FILE_VERSION}).`);
+  }
+
+  const file = migrate(data);
+  const issues: string[] = [];
+  const project = file.project;
+  if (!isObject(project)) {
+    throw new ProjectFileError("The project file is invalid.", ["project must be an object."]);
+  }
+
+  if (typeof project.name !== 'string') issues.push("project.name must be a string.");
+  if (typeof project.transcript !== 'string') issues.push("project.transcript must be a string.");
+  if (project.transcriptSegments !== undefined) {
+    if (!Array.isArray(project.transcriptSegments)) {
+      issues.push("project.transcriptSegments must be an array.");
+    } else {
+      project.transcriptSegments.forEach((segment, i) => validateSegment(segment, `project.transcriptSegments[${i}]`, issues));
+    }
+  }
+
+  const imageIds = new Set<string>();
+  if (!Array.isArray(project.images)) {
+    issues.push("project.images must be an array.");
+  } else {
+    project.images.forEach((image, i) => {
+      validateImage(image, `project.images[${i}]`, issues);
+      if (isObject(image) && typeof image.id === 'string') {
+        if (image.id !== `IMAGE_${i + 1}`) issues.push(`project.images[${i}].id must be "IMAGE_${i + 1}".`);
+        imageIds.add(image.id);
+      }
+    });
+  }
+
+  if (!Array.isArray(project.slides)) {
+    issues.push("project.slides must be an array.");
+  } else {
+    project.slides.forEach((slide, i) => validateSlide(slide, `project.slides[${i}]`, imageIds, issues));
+  }
+
+  if (project.theme !== undefined && !isObject(project.theme)) {
+    issues.push("project.theme must be an object.");
+  }
+
+  if (project.generation !== undefined) {
+    const generation = project.generation;
+    if (!isObject(generation) || typeof generation.providerId !== 'string' || typeof generation.model !== 'string') {
+      issues.push("project.generation must have string \"providerId\" and \"model\" fields.");
+    } else if (generation.options !== undefined && !isObject(generation.options)) {
+      issues.push("project.generation.options must be an object.");
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ProjectFileError("The project file is invalid.", issues);
+  }
+  return file as unknown as ProjectFile;
+};
+
+const base64ToFile = (base64: string, name: string, mimeType: string): File => {
+  const binary = atob(base64.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new File([bytes], name, { type: mimeType });
+};
+
+export const serializeProject = (project: Project, generation?: ProjectFileGeneration): string => {
+  const file: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      name: project.name,
+      transcript: project.transcript,
+      ...(project.transcriptSegments ? { transcriptSegments: project.transcriptSegments } : {}),
+      slides: project.presentation ?? [],
+      images: project.images.map((image: UploadedImage, index) => ({
+        id: `IMAGE_${index + 1}`,
+        name: image.file.name,
+        mimeType: image.file.type,
+        description: image.description,
+        data: dataUrlToBase64(image.base64),
+      })),
+      theme: project.theme,
+      ...(generation ? { generation } : {}),
+    },
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Parses and validates file text, returning a fresh project (new id) plus the
+// generation settings it was saved with.
+export const parseProjectFile = (text: string): { project: Project; generation?: ProjectFileGeneration } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ProjectFileError(`The file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const file = validateProjectFile(data);
+  const project = createEmptyProject(file.project.name || undefined);
+  project.transcript = file.project.transcript;
+  project.transcriptSegments = file.project.transcriptSegments ?? null;
+  project.images = file.project.images.map(image => ({
+    file: base64ToFile(image.data, image.name, image.mimeType),
+    base64: `data:${image.mimeType};base64,${image.data.replace(/\s/g, '')}`,
+    description: image.description,
+  }));
+  project.presentation = file.project.slides.length > 0 ? file.project.slides : null;
+  if (file.project.theme) project.theme = normalizeTheme(file.project.theme);
+  const generation = file.project.generation;
+  // Unknown or out-of-range options fall back to the defaults, as they do in storage.
+  return {
+    project,
+    generation: generation && {
+      providerId: generation.providerId,
+      model: generation.model,
+      ...(generation.options !== undefined ? { options: normalizeGenerationOptions(generation.options) } : {}),
+    },
+  };
+};
@@ -0,0 +1,119 @@
+import type { Project, ProjectSummary } from '../types';
+import { DEFAULT_THEME } from './themeService';
+
+// Stores whole projects (including image Files and the recording Blob, which
+// IndexedDB can clone natively) in the browser so a reload loses nothing.
+
+const DB_NAME = 'ppt-audio';
+const DB_VERSION = 1;
+const STORE = 'projects';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. blocked upgrade).
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, mode);
+  const result = promisify(run(transaction.objectStore(STORE)));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted."));
+  });
+  return result;
+};
+
+export const createProjectId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const DEFAULT_PROJECT_NAME = 'Untitled project';
+
+export const createEmptyProject = (name = DEFAULT_PROJECT_NAME): Project => {
+  const now = Date.now();
+  return {
+    id: createProjectId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    transcript: '',
+    transcriptSegments: null,
+    images: [],
+    presentation: null,
+    theme: DEFAULT_THEME,
+    audio: null,
+  };
+};
+
+const toSummary = (project: Project): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+  slideCount: project.presentation?.length ?? 0,
+  imageCount: project.images.length,
+  hasAudio: !!project.audio,
+});
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await withStore<Project[]>('readonly', store => store.getAll());
+  return projects.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<Project | null> => {
+  const project = await withStore<Project | undefined>('readonly', store => store.get(id));
+  return project ?? null;
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  await withStore('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await getProject(id);
+  if (!project) throw new Error("Project not found.");
+  await saveProject({ ...project, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<Project> => {
+  const project = await getProject(id);
+  if (!project) throw new Error("Project not found.");
+  const now = Date.now();
+  const copy: Project = { ...project, id: createProjectId(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now };
+  await saveProject(copy);
+  return copy;
+};
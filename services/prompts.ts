@@ -0,0 +1,321 @@
+import type { GenerationOptions, Outline, OutlineEntry, Presentation, Slide, UploadedImage } from '../types';
+import type { TranscribedSegment } from './aiProvider';
+import { BULLET_DENSITIES, GENERATION_TONES } from './generationOptions';
+import { transcriptionLanguageLabel } from './transcriptionLanguage';
+import { AiResponseError } from './aiErrors';
+import { repairDeck, repairSlide } from './deckValidation';
+import { SLIDE_LAYOUTS, isSlideLayout } from '../utils/slideLayouts';
+
+// Prompt text and response parsing shared by every AI provider, so switching
+// providers only changes the transport and never the shape of the deck.
+
+const TRANSCRIBE_PROMPT = `Transcribe this audio recording accurately. Split the transcript into segments at sentence or speaker boundaries, each at most about 20 seconds long. For every segment give its 'start' and 'end' time in the recording as "MM:SS.s", the 'speaker' (label speakers "Speaker 1", "Speaker 2" and so on in order of appearance) and the transcribed 'text'.`;
+
+export const buildTranscribePrompt = (language?: string) =>
+  language
+    ? `${TRANSCRIBE_PROMPT} The speech is in ${transcriptionLanguageLabel(language)} (${language}); transcribe it in that language and do not translate it.`
+    : TRANSCRIBE_PROMPT;
+
+// Reads "MM:SS", "H:MM:SS" (with optional fractions) or plain seconds.
+const parseTimestamp = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : undefined;
+  if (typeof value !== 'string' || !/^\d+(?::\d+){0,2}(?:\.\d+)?$/.test(value.trim())) return undefined;
+  return value.trim().split(':').reduce((total, part) => total * 60 + Number(part), 0);
+};
+
+// Parses a timed transcription reply. A reply that is not JSON is taken to be
+// the plain transcript, so providers that ignore the format still work.
+export const parseTranscriptJson = (reply: string): TranscribedSegment[] => {
+  const cleaned = reply.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch {
+    return cleaned ? [{ text: cleaned }] : [];
+  }
+  const items = Array.isArray(parsed) ? parsed : (parsed as { segments?: unknown } | null)?.segments;
+  if (!Array.isArray(items)) {
+    throw new AiResponseError("The AI response did not match the expected transcript format.", ['Expected a "segments" array.']);
+  }
+  return items.flatMap((item): TranscribedSegment[] => {
+    const text = typeof item?.text === 'string' ? item.text.trim() : '';
+    if (!text) return [];
+    const start = parseTimestamp(item.start);
+    const end = parseTimestamp(item.end);
+    const speaker = typeof item.speaker === 'string' && item.speaker.trim() ? item.speaker.trim() : undefined;
+    return [{
+      text,
+      ...(start !== undefined ? { start } : {}),
+      ...(end !== undefined && (start === undefined || end >= start) ? { end } : {}),
+      ...(speaker ? { speaker } : {}),
+    }];
+  });
+};
+
+const LAYOUT_LIST = `Choose a 'layout' for every slide so the deck has visual variety:
+${SLIDE_LAYOUTS.map(layout => `- '${layout.id}': ${layout.description}`).join('\n')}`;
+
+const LAYOUT_GUIDE = `${LAYOUT_LIST}
+Fill in the fields the layout needs: 'subtitle' for 'title' and 'section'; 'columns' (exactly two, each with a 'heading' and 'points') for 'two-column'; 'stat' ('value' such as "42%" and a 'label') for 'stat'; 'quote' ('text' and 'attribution') for 'quote'; 'imagePlaceholder' for 'image-left' and 'image-right'. 'content' holds the bullet points, or the agenda items for 'agenda', and may be empty for layouts that do not show bullets.
+When a slide has no 'imagePlaceholder' but a picture would help it, add an 'imagePrompt': one sentence describing an illustration for the slide (its subject, composition and style), written for an image generator. Describe pictures, not charts with real figures, and never ask for text in the image.`;
+
+// Wraps a slide's image prompt for an image model, so generated pictures sit
+// well on a slide and carry no garbled lettering.
+export const buildImageGenerationPrompt = (prompt: string) =>
+  `${prompt.trim().replace(/[.\s]+$/, '')}. Illustration for a presentation slide: clean, uncluttered composition with space around the subject, no text, letters or logos.`;
+
+// Turns the generation controls into instructions shared by the outline and
+// deck prompts, so both stages plan the same kind of deck.
+const buildGenerationGuidance = (options: GenerationOptions): string => {
+  const tone = GENERATION_TONES.find(candidate => candidate.id === options.tone) ?? GENERATION_TONES[0];
+  const density = BULLET_DENSITIES.find(candidate => candidate.id === options.bulletDensity) ?? BULLET_DENSITIES[1];
+  const length = options.minSlides === options.maxSlides
+    ? `exactly ${options.minSlides}`
+    : `between ${options.minSlides} and ${options.maxSlides}`;
+  const lines = [
+    `- Audience: ${options.audience.trim() || 'a general professional audience'}.`,
+    `- Tone: ${tone.label.toLowerCase()}. ${tone.instruction}`,
+    `- Length: ${length} slides in total, counting any title, agenda and summary slides.`,
+    `- Bullets: ${density.instruction}`,
+    `- Language: ${options.language.trim() ? `write every title, bullet and speaker note in ${options.language.trim()}, even if the transcript is in another language` : 'use the language of the transcript'}.`,
+    options.includeTitleSlide
+      ? "- The first slide must be a 'title' slide with a captivating title for the overall presentation."
+      : "- Do not add a title slide; start directly with the content.",
+    options.includeAgenda
+      ? `- Include an 'agenda' slide ${options.includeTitleSlide ? 'right after the title slide' : 'first'} listing the topics that follow.`
+      : "- Do not add an agenda slide.",
+    options.includeSummary
+      ? "- End with a summary slide recapping the key takeaways."
+      : "- Do not add a closing summary slide.",
+  ];
+  return `Follow these requirements:\n${lines.join('\n')}`;
+};
+
+export const buildDeckSystemInstruction = (options: GenerationOptions) => `You are an expert presentation creator. Your task is to take the user's raw text transcript and structure it into a professional and coherent presentation. The presentation should have a logical flow. For each slide, create a concise title, a list of key bullet points (as an array of strings), and detailed speaker notes. If the user provides images, incorporate them into relevant slides. Use the provided image descriptions to guide their placement. When you use an image on a slide, set the 'imagePlaceholder' property in the JSON to the corresponding image identifier (e.g., 'IMAGE_1').
+
+${buildGenerationGuidance(options)}
+
+${LAYOUT_GUIDE}`;
+
+// `correction` explains what was wrong with a previous attempt when the deck
+// is requested again.
+export const buildDeckPrompt = (text: string, images: UploadedImage[], outline?: Outline, correction?: string): string => {
+  let textPrompt = `Here is the transcript:\n\n${text}`;
+
+  if (images.length > 0) {
+    textPrompt += `\n\n---\n\nHere are the user-provided images to include in the presentation. Use their descriptions to place them on the most relevant slides:`;
+    images.forEach((image, index) => {
+      textPrompt += `\nIMAGE_${index + 1}: ${image.description || 'An image provided by the user.'}`;
+    });
+  }
+
+  if (outline) {
+    textPrompt += `\n\n---\n\nThe user has approved this outline. Write exactly one slide per entry, in this order, keeping each title, layout and image assignment, and use the intent to decide the content:`;
+    outline.forEach((entry, index) => {
+      textPrompt += `\n${index + 1}. ${entry.title} [layout: ${entry.layout ?? 'bullets'}${entry.imagePlaceholder ? `, image: ${entry.imagePlaceholder}` : ''}] — ${entry.intent}`;
+    });
+  }
+
+  if (correction) {
+    textPrompt += `\n\n---\n\n${correction}`;
+  }
+
+  return textPrompt;
+};
+
+export const buildOutlineSystemInstruction = (options: GenerationOptions) => `You are an expert presentation planner. Turn the user's raw transcript into the outline of a professional presentation with a logical flow. Do not write bullet points or speaker notes yet. For each planned slide give a concise 'title', a one-line 'intent' saying what the slide should get across, a 'layout' and, when one of the user's images fits the slide, its identifier in 'imagePlaceholder' (e.g. 'IMAGE_1'). Use each image at most once.
+
+${buildGenerationGuidance(options)}
+
+${LAYOUT_LIST}`;
+
+export const outlineJsonSchema = {
+  type: 'object',
+  properties: {
+    outline: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          intent: { type: 'string' },
+          layout: { type: 'string', enum: SLIDE_LAYOUTS.map(layout => layout.id) },
+          imagePlaceholder: { type: 'string' },
+        },
+        required: ['title', 'intent', 'layout'],
+      },
+    },
+  },
+  required: ['outline'],
+};
+
+// Strips a Markdown code fence and parses the JSON, reporting a syntax error
+// as a (retryable) response error.
+const parseJsonReply = (jsonString: string): unknown => {
+  const cleaned = jsonString.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  if (!cleaned) throw new AiResponseError("The AI returned an empty response.");
+  try {
+    return JSON.parse(cleaned);
+  } catch (error) {
+    throw new AiResponseError("The AI returned malformed JSON.", [error instanceof Error ? error.message : String(error)]);
+  }
+};
+
+// Accepts a bare array or an object wrapping it in `outline` (or `slides`).
+export const parseOutlineJson = (jsonString: string): Outline => {
+  const parsed = parseJsonReply(jsonString) as { outline?: unknown; slides?: unknown } | null;
+  const entries = Array.isArray(parsed) ? parsed : parsed?.outline ?? parsed?.slides;
+
+  if (!Array.isArray(entries) || !entries.every(entry => entry && typeof entry === 'object' && typeof entry.title === 'string')) {
+    throw new AiResponseError("The AI response did not match the expected outline format.", ['Expected an "outline" array of entries with a string "title".']);
+  }
+  return entries.map((entry): OutlineEntry => ({
+    title: entry.title,
+    intent: typeof entry.intent === 'string' ? entry.intent : '',
+    ...(isSlideLayout(entry.layout) ? { layout: entry.layout } : {}),
+    ...(typeof entry.imagePlaceholder === 'string' && entry.imagePlaceholder ? { imagePlaceholder: entry.imagePlaceholder } : {}),
+  }));
+};
+
+// Plain JSON Schema equivalent of the Gemini `presentationSchema`, for
+// providers that accept standard structured-output schemas.
+export const slideJsonSchema = {
+  type: 'object',
+  properties: {
+    layout: { type: 'string', enum: SLIDE_LAYOUTS.map(layout => layout.id) },
+    title: { type: 'string' },
+    content: { type: 'array', items: { type: 'string' } },
+    speakerNotes: { type: 'string' },
+    imagePlaceholder: { type: 'string' },
+    imagePrompt: { type: 'string' },
+    subtitle: { type: 'string' },
+    columns: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { heading: { type: 'string' }, points: { type: 'array', items: { type: 'string' } } },
+        required: ['heading', 'points'],
+      },
+    },
+    stat: {
+      type: 'object',
+      properties: { value: { type: 'string' }, label: { type: 'string' } },
+      required: ['value', 'label'],
+    },
+    quote: {
+      type: 'object',
+      properties: { text: { type: 'string' }, attribution: { type: 'string' } },
+      required: ['text', 'attribution'],
+    },
+  },
+  required: ['layout', 'title', 'content', 'speakerNotes'],
+};
+
+export const presentationJsonSchema = {
+  type: 'object',
+  properties: {
+    slides: { type: 'array', items: slideJsonSchema },
+  },
+  required: ['slides'],
+};
+
+// Accepts either a bare slide array or an object wrapping it in `slides`,
+// since JSON-mode endpoints often refuse to return a top-level array. Slides
+// are repaired field by field; image references are checked later, by the
+// caller that knows which images exist.
+export const parsePresentationJson = (jsonString: string): Presentation => {
+  const parsed = parseJsonReply(jsonString) as { slides?: unknown } | null;
+  const presentationData = Array.isArray(parsed) ? parsed : parsed?.slides;
+
+  if (!Array.isArray(presentationData)) {
+    throw new AiResponseError("The AI response did not match the expected presentation format.", ['Expected a "slides" array.']);
+  }
+  const { slides, repairs } = repairDeck(presentationData);
+  if (repairs.length > 0) console.warn("Repaired AI response:", repairs);
+  return slides;
+};
+
+// Incrementally extracts complete slides from a streamed JSON reply (a bare
+// array or `{"slides": [...]}`), so each slide can be shown as soon as its
+// closing brace arrives instead of after the whole response.
+export const createSlideStreamParser = (onSlide: (slide: Slide, index: number) => void) => {
+  let text = '';
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // Nesting depth of the slides array once its `[` has been seen.
+  let arrayDepth: number | null = null;
+  let slideStart = -1;
+  let isDone = false;
+  let count = 0;
+
+  const emit = (json: string) => {
+    try {
+      const slide = repairSlide(JSON.parse(json), count, {}, []);
+      if (slide) onSlide(slide, count++);
+    } catch {
+      // A malformed slide is left for the final parse to report.
+    }
+  };
+
+  const push = (chunk: string) => {
+    text += chunk;
+    for (; position < text.length && !isDone; position++) {
+      const char = text[position];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+        if (arrayDepth === null && char === '[') arrayDepth = depth;
+        else if (depth === (arrayDepth ?? -1) + 1 && char === '{') slideStart = position;
+      } else if (char === '}' || char === ']') {
+        if (char === '}' && depth === (arrayDepth ?? -1) + 1 && slideStart >= 0) {
+          emit(text.slice(slideStart, position + 1));
+          slideStart = -1;
+        }
+        if (char === ']' && depth === arrayDepth) isDone = true;
+        depth--;
+      }
+    }
+  };
+
+  return { push, text: () => text };
+};
+
+export const REWRITE_SYSTEM_INSTRUCTION = `You are an expert presentation editor. You will receive one slide from an existing presentation, the slides around it for context, the original transcript and an instruction from the user. Rewrite only the target slide according to the instruction. Keep the same JSON shape: each slide has a concise title, an array of bullet point strings, detailed speaker notes, an optional 'imagePlaceholder' referencing one of the listed images (e.g. 'IMAGE_1'), an optional 'imagePrompt' and a 'layout' with its layout-specific fields. Keep the slide's layout unless the instruction asks for a different one.\n\n${LAYOUT_GUIDE} Return an array of slides: usually exactly one, but more than one if the instruction asks to split or expand the slide. Never return the neighbouring slides.`;
+
+export interface RewriteSlideContext {
+  slide: Slide;
+  previousSlide?: Slide;
+  nextSlide?: Slide;
+  transcript: string;
+  instruction: string;
+  images: UploadedImage[];
+}
+
+export const buildRewritePrompt = ({ slide, previousSlide, nextSlide, transcript, instruction, images }: RewriteSlideContext): string => {
+  let textPrompt = `Instruction: ${instruction}\n\nTarget slide:\n${JSON.stringify(slide, null, 2)}`;
+  if (previousSlide) {
+    textPrompt += `\n\nPrevious slide (context only):\n${JSON.stringify(previousSlide, null, 2)}`;
+  }
+  if (nextSlide) {
+    textPrompt += `\n\nNext slide (context only):\n${JSON.stringify(nextSlide, null, 2)}`;
+  }
+  if (transcript.trim()) {
+    textPrompt += `\n\n---\n\nOriginal transcript:\n\n${transcript}`;
+  }
+  if (images.length > 0) {
+    textPrompt += `\n\n---\n\nAvailable images:`;
+    images.forEach((image, index) => {
+      textPrompt += `\nIMAGE_${index + 1}: ${image.description || 'An image provided by the user.'}`;
+    });
+  }
+  return textPrompt;
+};
@@ -0,0 +1,41 @@
+// Microphone and auto-stop choices for recording, kept in the browser.
+
+const RECORDING_PREFERENCES_STORAGE_KEY = 'ppt-audio.recording-preferences';
+
+export interface RecordingPreferences {
+  // Empty for the system default microphone.
+  deviceId: string;
+  // Stop after this many seconds of silence; 0 never stops.
+  silenceStopSeconds: number;
+}
+
+export const SILENCE_STOP_CHOICES = [0, 3, 5, 10, 20, 30];
+
+export const DEFAULT_RECORDING_PREFERENCES: RecordingPreferences = {
+  deviceId: '',
+  silenceStopSeconds: 0,
+};
+
+export const loadRecordingPreferences = (): RecordingPreferences => {
+  try {
+    const value = JSON.parse(localStorage.getItem(RECORDING_PREFERENCES_STORAGE_KEY) ?? 'null');
+    if (typeof value !== 'object' || value === null) return DEFAULT_RECORDING_PREFERENCES;
+    return {
+      deviceId: typeof value.deviceId === 'string' ? value.deviceId : DEFAULT_RECORDING_PREFERENCES.deviceId,
+      silenceStopSeconds: SILENCE_STOP_CHOICES.includes(value.silenceStopSeconds)
+        ? value.silenceStopSeconds
+        : DEFAULT_RECORDING_PREFERENCES.silenceStopSeconds,
+    };
+  } catch (error) {
+    console.warn("Ignoring unreadable recording preferences:", error);
+    return DEFAULT_RECORDING_PREFERENCES;
+  }
+};
+
+export const saveRecordingPreferences = (preferences: RecordingPreferences) => {
+  try {
+    localStorage.setItem(RECORDING_PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn("Could not persist recording preferences:", error);
+  }
+};
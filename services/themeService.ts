@@ -0,0 +1,188 @@
+import type { Theme, ThemeLogoPosition } from '../types';
+
+// Built-in themes plus user-made custom themes, which are kept in
+// localStorage so they are available to every project.
+
+export const THEME_FONTS = ['Poppins', 'Arial', 'Helvetica', 'Georgia', 'Times New Roman', 'Trebuchet MS', 'Verdana', 'Courier New'];
+
+export const BULLET_MARKERS = ['•', '▸', '–', '✓', '■', '→'];
+
+export const THEME_LOGO_POSITIONS: ThemeLogoPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+const midnight: Theme = {
+  id: 'midnight',
+  name: 'Midnight',
+  fonts: { heading: 'Poppins', body: 'Poppins' },
+  colors: {
+    background: '#0f172a',
+    backgroundGradientTo: '#1e293b',
+    title: '#67e8f9',
+    titleGradientTo: '#c084fc',
+    text: '#e5e7eb',
+    accent: '#22d3ee',
+  },
+  title: { size: 36, weight: 700, align: 'center', uppercase: false },
+  bullets: { size: 24, marker: '•', spacing: 24 },
+  logo: null,
+  footer: { text: '', showSlideNumber: false },
+};
+
+export const BUILT_IN_THEMES: Theme[] = [
+  midnight,
+  {
+    id: 'paper',
+    name: 'Paper',
+    fonts: { heading: 'Georgia', body: 'Georgia' },
+    colors: {
+      background: '#fdfbf7',
+      backgroundGradientTo: null,
+      title: '#1f2937',
+      titleGradientTo: null,
+      text: '#374151',
+      accent: '#b45309',
+    },
+    title: { size: 40, weight: 700, align: 'left', uppercase: false },
+    bullets: { size: 24, marker: '–', spacing: 20 },
+    logo: null,
+    footer: { text: '', showSlideNumber: true },
+  },
+  {
+    id: 'corporate',
+    name: 'Corporate',
+    fonts: { heading: 'Arial', body: 'Arial' },
+    colors: {
+      background: '#ffffff',
+      backgroundGradientTo: '#e8eef7',
+      title: '#1e3a8a',
+      titleGradientTo: null,
+      text: '#1f2937',
+      accent: '#2563eb',
+    },
+    title: { size: 34, weight: 700, align: 'left', uppercase: true },
+    bullets: { size: 22, marker: '■', spacing: 18 },
+    logo: null,
+    footer: { text: 'Confidential', showSlideNumber: true },
+  },
+  {
+    id: 'sunset',
+    name: 'Sunset',
+    fonts: { heading: 'Trebuchet MS', body: 'Verdana' },
+    colors: {
+      background: '#3b0764',
+      backgroundGradientTo: '#be123c',
+      title: '#fde68a',
+      titleGradientTo: '#fb923c',
+      text: '#fff7ed',
+      accent: '#fbbf24',
+    },
+    title: { size: 40, weight: 700, align: 'center', uppercase: false },
+    bullets: { size: 24, marker: '▸', spacing: 24 },
+    logo: null,
+    footer: { text: '', showSlideNumber: false },
+  },
+  {
+    id: 'terminal',
+    name: 'Terminal',
+    fonts: { heading: 'Courier New', body: 'Courier New' },
+    colors: {
+      background: '#0a0a0a',
+      backgroundGradientTo: null,
+      title: '#4ade80',
+      titleGradientTo: null,
+      text: '#d1d5db',
+      accent: '#4ade80',
+    },
+    title: { size: 36, weight: 700, align: 'left', uppercase: false },
+    bullets: { size: 22, marker: '→', spacing: 18 },
+    logo: null,
+    footer: { text: '', showSlideNumber: true },
+  },
+];
+
+export const DEFAULT_THEME = midnight;
+
+const CUSTOM_THEMES_STORAGE_KEY = 'ppt-audio.custom-themes';
+
+export const isBuiltInTheme = (id: string) => BUILT_IN_THEMES.some(theme => theme.id === id);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const fieldsOf = (value: unknown): Record<string, unknown> => (isObject(value) ? value : {});
+
+const nonEmptyText = (value: unknown, fallback: string) =>
+  typeof value === 'string' && value.trim() ? value : fallback;
+
+// Gradient end colors are optional: null turns the gradient off.
+const optionalColor = (value: unknown, fallback: string | null) =>
+  value === null || (typeof value === 'string' && value.trim()) ? value as string | null : fallback;
+
+const positiveNumber = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+// Checks every field of a stored or imported theme and replaces anything
+// missing or malformed with the default theme's value, so older or
+// hand-edited themes always render.
+export const normalizeTheme = (value: unknown): Theme => {
+  if (!isObject(value)) return DEFAULT_THEME;
+  const base = DEFAULT_THEME;
+  const fonts = fieldsOf(value.fonts);
+  const colors = fieldsOf(value.colors);
+  const title = fieldsOf(value.title);
+  const bullets = fieldsOf(value.bullets);
+  const footer = fieldsOf(value.footer);
+  const logo = fieldsOf(value.logo);
+  return {
+    id: nonEmptyText(value.id, base.id),
+    name: nonEmptyText(value.name, base.name),
+    fonts: {
+      heading: nonEmptyText(fonts.heading, base.fonts.heading),
+      body: nonEmptyText(fonts.body, base.fonts.body),
+    },
+    colors: {
+      background: nonEmptyText(colors.background, base.colors.background),
+      backgroundGradientTo: optionalColor(colors.backgroundGradientTo, base.colors.backgroundGradientTo),
+      title: nonEmptyText(colors.title, base.colors.title),
+      titleGradientTo: optionalColor(colors.titleGradientTo, base.colors.titleGradientTo),
+      text: nonEmptyText(colors.text, base.colors.text),
+      accent: nonEmptyText(colors.accent, base.colors.accent),
+    },
+    title: {
+      size: positiveNumber(title.size, base.title.size),
+      weight: positiveNumber(title.weight, base.title.weight),
+      align: title.align === 'left' || title.align === 'center' ? title.align : base.title.align,
+      uppercase: typeof title.uppercase === 'boolean' ? title.uppercase : base.title.uppercase,
+    },
+    bullets: {
+      size: positiveNumber(bullets.size, base.bullets.size),
+      marker: nonEmptyText(bullets.marker, base.bullets.marker),
+      spacing: positiveNumber(bullets.spacing, base.bullets.spacing),
+    },
+    logo: typeof logo.src === 'string' && logo.src
+      ? { src: logo.src, position: THEME_LOGO_POSITIONS.find(position => position === logo.position) ?? 'top-right' }
+      : null,
+    footer: {
+      text: typeof footer.text === 'string' ? footer.text : base.footer.text,
+      showSlideNumber: typeof footer.showSlideNumber === 'boolean' ? footer.showSlideNumber : base.footer.showSlideNumber,
+    },
+  };
+};
+
+export const loadCustomThemes = (): Theme[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_THEMES_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.map(normalizeTheme) : [];
+  } catch (error) {
+    console.warn("Ignoring unreadable custom themes:", error);
+    return [];
+  }
+};
+
+export const saveCustomThemes = (themes: Theme[]) => {
+  try {
+    localStorage.setItem(CUSTOM_THEMES_STORAGE_KEY, JSON.stringify(themes));
+  } catch (error) {
+    console.error("Could not save custom themes:", error);
+    throw new Error("Could not save the theme. The logo image may be too large.");
+  }
+};
@@ -0,0 +1,57 @@
+// The spoken language of recordings, shared by live and high-accuracy
+// transcription. Codes are BCP 47 tags as used by the Web Speech API.
+
+const TRANSCRIPTION_LANGUAGE_STORAGE_KEY = 'ppt-audio.transcription-language';
+
+export const TRANSCRIPTION_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en-US', label: 'English (United States)' },
+  { code: 'en-GB', label: 'English (United Kingdom)' },
+  { code: 'en-AU', label: 'English (Australia)' },
+  { code: 'en-IN', label: 'English (India)' },
+  { code: 'es-ES', label: 'Spanish (Spain)' },
+  { code: 'es-MX', label: 'Spanish (Mexico)' },
+  { code: 'fr-FR', label: 'French (France)' },
+  { code: 'fr-CA', label: 'French (Canada)' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'it-IT', label: 'Italian' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'pt-PT', label: 'Portuguese (Portugal)' },
+  { code: 'nl-NL', label: 'Dutch' },
+  { code: 'sv-SE', label: 'Swedish' },
+  { code: 'pl-PL', label: 'Polish' },
+  { code: 'ru-RU', label: 'Russian' },
+  { code: 'tr-TR', label: 'Turkish' },
+  { code: 'ar-SA', label: 'Arabic' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'ja-JP', label: 'Japanese' },
+  { code: 'ko-KR', label: 'Korean' },
+  { code: 'zh-CN', label: 'Chinese (Mandarin, Simplified)' },
+  { code: 'zh-TW', label: 'Chinese (Mandarin, Traditional)' },
+];
+
+export const DEFAULT_TRANSCRIPTION_LANGUAGE = 'en-US';
+
+const isKnownLanguage = (code: unknown): code is string =>
+  TRANSCRIPTION_LANGUAGES.some(language => language.code === code);
+
+export const transcriptionLanguageLabel = (code: string) =>
+  TRANSCRIPTION_LANGUAGES.find(language => language.code === code)?.label ?? code;
+
+// The saved choice, else the browser's language when it is in the list.
+export const loadTranscriptionLanguage = (): string => {
+  try {
+    const saved = localStorage.getItem(TRANSCRIPTION_LANGUAGE_STORAGE_KEY);
+    if (isKnownLanguage(saved)) return saved;
+  } catch (error) {
+    console.warn("Could not read the transcription language:", error);
+  }
+  return isKnownLanguage(navigator.language) ? navigator.language : DEFAULT_TRANSCRIPTION_LANGUAGE;
+};
+
+export const saveTranscriptionLanguage = (code: string) => {
+  try {
+    localStorage.setItem(TRANSCRIPTION_LANGUAGE_STORAGE_KEY, code);
+  } catch (error) {
+    console.warn("Could not persist the transcription language:", error);
+  }
+};
@@ -1,22 +1,197 @@
+// How a slide is arranged. Slides saved before layouts existed have none and
+// render as 'bullets'.
+export type SlideLayout =
+  | 'title'
+  | 'bullets'
+  | 'two-column'
+  | 'image-left'
+  | 'image-right'
+  | 'stat'
+  | 'quote'
+  | 'agenda'
+  | 'section';
+
+export interface SlideColumn {
+  heading: string;
+  points: string[];
+}
+
+export interface SlideStat {
+  // The headline figure, e.g. "42%" or "$1.2M".
+  value: string;
+  label: string;
+}
+
+export interface SlideQuote {
+  text: string;
+  attribution: string;
+}
+
 export interface Slide {
+  layout?: SlideLayout;
   title: string;
+  // Bullet points; the numbered items of an 'agenda'; supporting points of a 'stat'.
   content: string[];
   speakerNotes: string;
   imagePlaceholder?: string;
+  // Describes a picture that would suit the slide, proposed by the AI for
+  // slides without an uploaded image; it can be turned into one later.
+  imagePrompt?: string;
+  // Layout-specific fields, ignored by layouts that do not use them.
+  subtitle?: string;        // 'title', 'section'
+  columns?: SlideColumn[];  // 'two-column' (always two)
+  stat?: SlideStat;         // 'stat'
+  quote?: SlideQuote;       // 'quote'
 }
 
 export type Presentation = Slide[];
 
-export type RecordingState = 'idle' | 'recording' | 'stopped';
+// One planned slide in the outline-first flow, before its content is written.
+export interface OutlineEntry {
+  title: string;
+  // One line on what the slide should get across.
+  intent: string;
+  layout?: SlideLayout;
+  imagePlaceholder?: string;
+}
+
+export type Outline = OutlineEntry[];
+
+export type GenerationTone = 'executive' | 'technical' | 'teaching';
+
+export type BulletDensity = 'sparse' | 'balanced' | 'dense';
+
+// User-chosen controls that shape every deck and outline generation.
+export interface GenerationOptions {
+  // Free-form description, e.g. "new hires" or "board of directors".
+  audience: string;
+  tone: GenerationTone;
+  minSlides: number;
+  maxSlides: number;
+  bulletDensity: BulletDensity;
+  // Output language; empty means the transcript's language.
+  language: string;
+  includeTitleSlide: boolean;
+  includeAgenda: boolean;
+  includeSummary: boolean;
+  temperature: number;
+}
+
+export type RecordingState = 'idle' | 'recording' | 'paused' | 'stopped';
+
+// Where a new recording goes when there is already a transcript.
+export type TakePlacement = 'replace' | 'append' | 'insert';
 
 export type TranscriptionMode = 'live' | 'high-accuracy';
 
+// A stretch of the transcript tied to its place in the recording, so it can
+// be played back and corrected before slides are generated.
+export interface TranscriptSegment {
+  // Seconds from the start of the recording.
+  start: number;
+  end: number;
+  // E.g. "Speaker 1", when the provider tells speakers apart.
+  speaker?: string;
+  text: string;
+}
+
+// One time-bounded piece of a long high-accuracy recording, transcribed on
+// its own and stitched back together with its neighbours.
+export interface TranscriptionChunk {
+  // Offsets into the recording, in seconds.
+  start: number;
+  end: number;
+  status: 'pending' | 'transcribing' | 'done' | 'error';
+  // Timed relative to the whole recording once the chunk is done.
+  segments: TranscriptSegment[];
+  error?: string;
+}
+
 export interface UploadedImage {
   file: File;
   base64: string;
   description: string;
 }
 
+export type ThemeLogoPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// Visual styling for slides. Sizes are in CSS pixels on the 1280×720 slide
+// canvas that every renderer and exporter shares.
+export interface Theme {
+  id: string;
+  name: string;
+  fonts: {
+    heading: string;
+    body: string;
+  };
+  colors: {
+    background: string;
+    // When set, the background is a 135° gradient from `background` to this.
+    backgroundGradientTo: string | null;
+    title: string;
+    // When set, titles use a horizontal gradient from `title` to this.
+    titleGradientTo: string | null;
+    text: string;
+    accent: string;
+  };
+  title: {
+    size: number;
+    weight: number;
+    align: 'left' | 'center';
+    uppercase: boolean;
+  };
+  bullets: {
+    size: number;
+    marker: string;
+    spacing: number;
+  };
+  logo: {
+    src: string;
+    position: ThemeLogoPosition;
+  } | null;
+  footer: {
+    text: string;
+    showSlideNumber: boolean;
+  };
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  transcript: string;
+  // Timed version of `transcript` for high-accuracy transcriptions; null for
+  // typed or live transcripts.
+  transcriptSegments: TranscriptSegment[] | null;
+  images: UploadedImage[];
+  presentation: Presentation | null;
+  theme: Theme;
+  // The last high-accuracy recording, kept so the project can be re-transcribed.
+  audio: Blob | null;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  slideCount: number;
+  imageCount: number;
+  hasAudio: boolean;
+}
+
+export type AiProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface AiProviderSettings {
+  providerId: AiProviderId;
+  model: string;
+  // Only used by providers that talk to a configurable endpoint.
+  baseUrl: string;
+  // Overrides the build-time VITE_API_KEY when set.
+  apiKey: string;
+}
+
 // === Web Speech API types for live transcription ===
 // These are not always present in standard TypeScript lib definitions.
 declare global {
@@ -25,6 +200,12 @@ declare global {
     readonly results: SpeechRecognitionResultList;
   }
 
+  interface SpeechRecognitionErrorEvent extends Event {
+    // e.g. "no-speech", "network", "not-allowed", "audio-capture".
+    readonly error: string;
+    readonly message: string;
+  }
+
   interface SpeechRecognitionResultList {
     readonly length: number;
     item(index: number): SpeechRecognitionResult;
@@ -62,7 +243,7 @@ declare global {
     onaudiostart: ((this: SpeechRecognition, ev: Event) => any) | null;
     onaudioend: ((this: SpeechRecognition, ev: Event) => any) | null;
     onend: ((this: SpeechRecognition, ev: Event) => any) | null;
-    onerror: ((this: SpeechRecognition, ev: Event) => any) | null;
+    onerror: ((this: SpeechRecognition, ev: SpeechRecognitionErrorEvent) => any) | null;
     onnomatch: ((this: SpeechRecognition, ev: SpeechRecognitionEvent) => any) | null;
     onresult: ((this: SpeechRecognition, ev: SpeechRecognitionEvent) => any) | null;
     onsoundstart: ((this: SpeechRecognition, ev: Event) => any) | null;
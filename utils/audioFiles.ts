@@ -0,0 +1,90 @@
+import { TRANSCRIPTION_SAMPLE_RATE, decodeToMono, encodeWav } from './audioSegments';
+
+// Checks and preparation for recordings uploaded from disk rather than
+// captured from the microphone.
+
+export const ACCEPTED_AUDIO_EXTENSIONS = ['mp3', 'm4a', 'wav', 'webm', 'mp4'];
+export const AUDIO_FILE_ACCEPT = [
+  ...ACCEPTED_AUDIO_EXTENSIONS.map(extension => `.${extension}`),
+  'audio/mpeg', 'audio/mp4', 'audio/x-m4a', 'audio/wav', 'audio/x-wav', 'audio/webm', 'video/webm', 'video/mp4',
+].join(',');
+
+// The whole file is decoded in memory before it is split, which bounds both.
+export const MAX_AUDIO_FILE_BYTES = 200 * 1024 * 1024;
+export const MAX_AUDIO_FILE_SECONDS = 60 * 60;
+
+export const formatFileSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+export const isVideoFile = (file: File) => file.type.startsWith('video/') || extensionOf(file.name) === 'mp4';
+
+// Returns why the file cannot be used, or null when it looks acceptable.
+export const checkAudioFile = (file: File): string | null => {
+  const isMedia = file.type.startsWith('audio/') || file.type.startsWith('video/');
+  if (!isMedia && !ACCEPTED_AUDIO_EXTENSIONS.includes(extensionOf(file.name))) {
+    return `"${file.name}" is not a supported file. Use ${ACCEPTED_AUDIO_EXTENSIONS.map(extension => extension.toUpperCase()).join(', ')}.`;
+  }
+  if (file.size > MAX_AUDIO_FILE_BYTES) {
+    return `"${file.name}" is ${formatFileSize(file.size)}; the limit is ${formatFileSize(MAX_AUDIO_FILE_BYTES)}.`;
+  }
+  return null;
+};
+
+// Reads the duration from the file's metadata without decoding it; null when
+// the metadata does not say.
+export const readMediaDuration = (file: Blob): Promise<number | null> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const media = document.createElement('video');
+    media.preload = 'metadata';
+    const finish = () => {
+      URL.revokeObjectURL(url);
+      media.removeAttribute('src');
+    };
+    media.onloadedmetadata = () => {
+      // Some webm files report Infinity until played through.
+      const duration = Number.isFinite(media.duration) ? media.duration : null;
+      finish();
+      resolve(duration);
+    };
+    media.onerror = () => {
+      finish();
+      reject(new Error('The browser cannot read this file.'));
+    };
+    media.src = url;
+  });
+
+// Like readMediaDuration, but decodes the file when its metadata has no
+// duration. Still null when the browser cannot decode it either.
+export const readAudioFileDuration = async (file: Blob): Promise<number | null> => {
+  const duration = await readMediaDuration(file);
+  if (duration !== null) return duration;
+  try {
+    const decoded = await new OfflineAudioContext(1, 1, TRANSCRIPTION_SAMPLE_RATE).decodeAudioData(await file.arrayBuffer());
+    return decoded.duration;
+  } catch (error) {
+    console.warn("Could not decode the file to measure its length:", error);
+    return null;
+  }
+};
+
+// Replaces a video with just its soundtrack, as compact 16 kHz mono WAV, so
+// the project does not store the picture.
+export const extractAudioTrack = async (file: File): Promise<Blob> =>
+  encodeWav(await decodeToMono(file), TRANSCRIPTION_SAMPLE_RATE);
+
+// Adds a new take to the end of an earlier recording, so a project keeps a
+// single recording across sittings. `offset` is where the take starts, in
+// seconds. Both are re-encoded as 16 kHz mono WAV.
+export const appendRecording = async (recording: Blob, take: Blob): Promise<{ audio: Blob; offset: number }> => {
+  const [earlier, added] = await Promise.all([decodeToMono(recording), decodeToMono(take)]);
+  const joined = new Float32Array(earlier.length + added.length);
+  joined.set(earlier);
+  joined.set(added, earlier.length);
+  return {
+    audio: encodeWav(joined, TRANSCRIPTION_SAMPLE_RATE),
+    offset: earlier.length / TRANSCRIPTION_SAMPLE_RATE,
+  };
+};
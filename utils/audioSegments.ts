@@ -0,0 +1,123 @@
+// Splits long recordings into transcription-sized pieces. The planning and
+// encoding work on plain sample arrays; only `decodeToMono` needs the Web
+// Audio API.
+
+// 16 kHz mono is all speech recognition needs and keeps each WAV segment
+// to roughly 2 MB per minute.
+export const TRANSCRIPTION_SAMPLE_RATE = 16000;
+
+export interface AudioSegment {
+  // Offsets into the recording, in seconds.
+  start: number;
+  end: number;
+}
+
+export interface SegmentPlanOptions {
+  // Segments are cut no later than this...
+  maxSeconds?: number;
+  // ...and no earlier than this, so a pause right at the start is not used.
+  minSeconds?: number;
+  // Audio shared by neighbouring segments, so words at a cut are not lost.
+  overlapSeconds?: number;
+}
+
+// Length of the windows whose loudness is compared when looking for a pause.
+const ENERGY_WINDOW_SECONDS = 0.05;
+// Number of windows averaged together, so a pause must last ~0.3 s to count.
+const SMOOTHING_WINDOWS = 6;
+
+const windowEnergies = (samples: Float32Array, windowSize: number): Float32Array => {
+  const energies = new Float32Array(Math.ceil(samples.length / windowSize));
+  for (let w = 0; w < energies.length; w++) {
+    let sum = 0;
+    const end = Math.min(samples.length, (w + 1) * windowSize);
+    for (let i = w * windowSize; i < end; i++) sum += samples[i] * samples[i];
+    energies[w] = sum / Math.max(1, end - w * windowSize);
+  }
+  return energies;
+};
+
+// Plans where to cut: each cut lands in the quietest stretch between
+// `minSeconds` and `maxSeconds` after the previous one, and segments overlap
+// by `overlapSeconds` around every cut.
+export const planSegments = (
+  samples: Float32Array,
+  sampleRate: number,
+  { maxSeconds = 60, minSeconds = 30, overlapSeconds = 1.5 }: SegmentPlanOptions = {}
+): AudioSegment[] => {
+  const duration = samples.length / sampleRate;
+  if (duration <= maxSeconds) return [{ start: 0, end: duration }];
+
+  const windowSize = Math.max(1, Math.round(sampleRate * ENERGY_WINDOW_SECONDS));
+  const energies = windowEnergies(samples, windowSize);
+  const windowSeconds = windowSize / sampleRate;
+  const half = overlapSeconds / 2;
+
+  const segments: AudioSegment[] = [];
+  let start = 0;
+  let cursor = 0;
+  while (duration - cursor > maxSeconds) {
+    const from = Math.floor((cursor + minSeconds) / windowSeconds);
+    const to = Math.min(energies.length - SMOOTHING_WINDOWS, Math.floor((cursor + maxSeconds) / windowSeconds));
+    let best = to;
+    let bestEnergy = Infinity;
+    for (let w = from; w <= to; w++) {
+      let sum = 0;
+      for (let k = 0; k < SMOOTHING_WINDOWS; k++) sum += energies[w + k];
+      // `<=` prefers the later of equally quiet spots, giving longer segments.
+      if (sum <= bestEnergy) {
+        bestEnergy = sum;
+        best = w;
+      }
+    }
+    const cut = (best + SMOOTHING_WINDOWS / 2) * windowSeconds;
+    segments.push({ start, end: Math.min(duration, cut + half) });
+    start = Math.max(0, cut - half);
+    cursor = cut;
+  }
+  segments.push({ start, end: duration });
+  return segments;
+};
+
+// Encodes mono samples as a 16-bit PCM WAV file.
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+export const sliceSegment = (samples: Float32Array, sampleRate: number, segment: AudioSegment): Float32Array =>
+  samples.subarray(Math.floor(segment.start * sampleRate), Math.ceil(segment.end * sampleRate));
+
+// Decodes any browser-supported audio (or video) file and resamples it to a
+// single channel at `sampleRate`.
+export const decodeToMono = async (blob: Blob, sampleRate = TRANSCRIPTION_SAMPLE_RATE): Promise<Float32Array> => {
+  const decoded = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(await blob.arrayBuffer());
+  const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * sampleRate)), sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+};
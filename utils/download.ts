@@ -0,0 +1,27 @@
+// Triggers a browser download for an in-memory blob.
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Strips a data URL prefix, leaving only the base64 payload.
+export const dataUrlToBase64 = (dataUrl: string): string => dataUrl.split(',')[1] ?? '';
+
+export const dataUrlToMimeType = (dataUrl: string): string => {
+  const match = dataUrl.match(/^data:([^;,]+)/);
+  return match ? match[1] : 'application/octet-stream';
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read file.'));
+    reader.readAsDataURL(blob);
+  });
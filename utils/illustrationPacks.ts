@@ -0,0 +1,222 @@
+import type { Theme } from '../types';
+
+// Icon and illustration packs bundled with the app, so slides can get a
+// picture without an image model or stock photos. Every picture is an SVG
+// drawn in the theme's colors and is picked by keywords matched against the
+// slide's image prompt and title.
+
+export interface IllustrationColors {
+  primary: string;
+  secondary: string;
+  ink: string;
+}
+
+export interface Illustration {
+  id: string;
+  label: string;
+  keywords: string[];
+  // SVG elements, drawn inside the pack's viewBox.
+  draw: (colors: IllustrationColors) => string;
+}
+
+export interface IllustrationPack {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  items: Illustration[];
+}
+
+// Used where no theme is at hand, e.g. by the offline mock provider.
+export const DEFAULT_ILLUSTRATION_COLORS: IllustrationColors = {
+  primary: '#06b6d4',
+  secondary: '#a855f7',
+  ink: '#334155',
+};
+
+export const illustrationColors = (theme: Theme): IllustrationColors => ({
+  primary: theme.colors.accent,
+  secondary: theme.colors.titleGradientTo ?? theme.colors.title,
+  ink: theme.colors.text,
+});
+
+// Line icons on a 24×24 grid, stroked in the primary color.
+const icon = (id: string, label: string, keywords: string[], paths: string): Illustration => ({
+  id,
+  label,
+  keywords,
+  draw: ({ primary }) =>
+    `<g fill="none" stroke="${primary}" stroke-width="1.75" stroke-linecap="round" stroke-linejoin="round">${paths}</g>`,
+});
+
+const ICONS: Illustration[] = [
+  icon('idea', 'Idea', ['idea', 'innovation', 'insight', 'creative', 'concept', 'brainstorm', 'solution'],
+    '<path d="M9 18h6M10 21h4"/><path d="M12 3a6 6 0 0 0-3.5 10.9c.6.5 1 1.2 1 2.1h5c0-.9.4-1.6 1-2.1A6 6 0 0 0 12 3z"/>'),
+  icon('growth', 'Growth', ['growth', 'increase', 'trend', 'progress', 'improve', 'revenue', 'results', 'performance'],
+    '<path d="M3 3v18h18"/><path d="M7 15l4-4 3 3 6-6"/><path d="M16 8h4v4"/>'),
+  icon('metrics', 'Metrics', ['metrics', 'statistics', 'kpi', 'numbers', 'report', 'dashboard', 'comparison', 'survey'],
+    '<path d="M6 20V11M12 20V5M18 20v-6M3 20h18"/>'),
+  icon('target', 'Target', ['target', 'goal', 'objective', 'focus', 'aim', 'strategy', 'mission'],
+    '<circle cx="12" cy="12" r="9"/><circle cx="12" cy="12" r="5"/><circle cx="12" cy="12" r="1"/>'),
+  icon('team', 'Team', ['team', 'people', 'collaboration', 'staff', 'hiring', 'community', 'users', 'culture'],
+    '<circle cx="9" cy="8" r="3.5"/><path d="M2.5 20v-.5A5.5 5.5 0 0 1 8 14h2a5.5 5.5 0 0 1 5.5 5.5v.5"/><path d="M16 4.5a3.5 3.5 0 0 1 0 7M21.5 20v-.5a5.5 5.5 0 0 0-3.5-5.1"/>'),
+  icon('launch', 'Launch', ['launch', 'startup', 'release', 'rocket', 'kickoff', 'accelerate', 'scale'],
+    '<path d="M12 2.5c2.8 2 4.5 5.5 4.5 9.5l-2 4.5h-5l-2-4.5c0-4 1.7-7.5 4.5-9.5z"/><circle cx="12" cy="10" r="1.75"/><path d="M9.5 16.5L7 20M14.5 16.5L17 20M12 16.5V21"/>'),
+  icon('process', 'Process', ['process', 'operations', 'settings', 'workflow', 'automation', 'system', 'engineering'],
+    '<circle cx="12" cy="12" r="3"/><circle cx="12" cy="12" r="7"/><path d="M12 2v3M12 19v3M2 12h3M19 12h3M4.9 4.9L7 7M17 17l2.1 2.1M4.9 19.1L7 17M17 7l2.1-2.1"/>'),
+  icon('security', 'Security', ['security', 'safety', 'privacy', 'protection', 'risk', 'compliance', 'trust'],
+    '<path d="M12 2.5l7.5 3v5.5c0 4.6-3.2 8.4-7.5 10.5-4.3-2.1-7.5-5.9-7.5-10.5V5.5z"/><path d="M8.75 12l2.25 2.25 4.25-4.5"/>'),
+  icon('time', 'Time', ['time', 'deadline', 'schedule', 'speed', 'efficiency', 'history', 'hours'],
+    '<circle cx="12" cy="12" r="9"/><path d="M12 7v5l3 3"/>'),
+  icon('global', 'Global', ['global', 'world', 'international', 'market', 'expansion', 'travel', 'regions'],
+    '<circle cx="12" cy="12" r="9"/><path d="M3 12h18M12 3c2.5 2.5 3.8 5.5 3.8 9s-1.3 6.5-3.8 9M12 3c-2.5 2.5-3.8 5.5-3.8 9s1.3 6.5 3.8 9"/>'),
+  icon('finance', 'Finance', ['finance', 'money', 'budget', 'cost', 'price', 'investment', 'funding', 'profit', 'sales'],
+    '<rect x="2.5" y="6" width="19" height="12" rx="2"/><circle cx="12" cy="12" r="3"/><path d="M6 10v4M18 10v4"/>'),
+  icon('conversation', 'Conversation', ['communication', 'conversation', 'feedback', 'discussion', 'support', 'customer', 'questions', 'chat'],
+    '<path d="M20.5 12a8 8 0 0 1-11.7 7.1L3.5 20.5l1.4-5.2A8 8 0 1 1 20.5 12z"/><path d="M8.5 12h.01M12 12h.01M15.5 12h.01"/>'),
+  icon('calendar', 'Calendar', ['plan', 'planning', 'timeline', 'roadmap', 'calendar', 'event', 'quarter', 'milestones'],
+    '<rect x="3" y="5" width="18" height="16" rx="2"/><path d="M3 10h18M8 3v4M16 3v4"/>'),
+  icon('learning', 'Learning', ['learning', 'training', 'education', 'knowledge', 'course', 'research', 'documentation', 'book'],
+    '<path d="M4 5a2 2 0 0 1 2-2h14v15H6a2 2 0 0 0-2 2z"/><path d="M4 20a2 2 0 0 0 2 2h14v-4"/>'),
+  icon('care', 'Care', ['health', 'care', 'wellbeing', 'wellness', 'love', 'values', 'empathy', 'patients'],
+    '<path d="M12 20.5s-8-4.8-8-10.5a4.5 4.5 0 0 1 8-2.8 4.5 4.5 0 0 1 8 2.8c0 5.7-8 10.5-8 10.5z"/>'),
+  icon('quality', 'Quality', ['quality', 'excellence', 'highlight', 'favorite', 'rating', 'review', 'best'],
+    '<path d="M12 2.5l2.9 5.9 6.6.9-4.8 4.6 1.2 6.5L12 17.3l-5.9 3.1 1.2-6.5-4.8-4.6 6.6-.9z"/>'),
+  icon('done', 'Done', ['done', 'complete', 'success', 'approved', 'checklist', 'requirements', 'summary', 'conclusion'],
+    '<circle cx="12" cy="12" r="9"/><path d="M8 12.5l3 3 5-6"/>'),
+  icon('award', 'Award', ['award', 'achievement', 'win', 'winner', 'trophy', 'competition', 'recognition', 'celebrate'],
+    '<path d="M8 3.5h8v6a4 4 0 0 1-8 0z"/><path d="M8 5.5H5a3 3 0 0 0 3 4M16 5.5h3a3 3 0 0 1-3 4M12 13.5V17M8 21h8M9.5 17h5v4h-5z"/>'),
+  icon('data', 'Data', ['data', 'database', 'storage', 'infrastructure', 'records', 'analytics', 'information'],
+    '<ellipse cx="12" cy="5.5" rx="7.5" ry="3"/><path d="M4.5 5.5v13c0 1.7 3.4 3 7.5 3s7.5-1.3 7.5-3v-13M4.5 12c0 1.7 3.4 3 7.5 3s7.5-1.3 7.5-3"/>'),
+  icon('cloud', 'Cloud', ['cloud', 'online', 'digital', 'internet', 'platform', 'saas', 'hosting'],
+    '<path d="M7 19h10a4.5 4.5 0 0 0 .8-8.9A6 6 0 0 0 6.3 10.2 4.5 4.5 0 0 0 7 19z"/>'),
+  icon('sustainability', 'Sustainability', ['sustainability', 'environment', 'green', 'climate', 'nature', 'energy', 'eco'],
+    '<path d="M5 19c0-8.5 5-13.5 15-15-1 10-6 15-15 15z"/><path d="M5 19l8-8"/>'),
+  icon('research', 'Research', ['search', 'analysis', 'investigate', 'discovery', 'audit', 'explore', 'study'],
+    '<circle cx="10.5" cy="10.5" r="6.5"/><path d="M15.5 15.5l5 5"/>'),
+  icon('milestone', 'Milestone', ['milestone', 'achievement', 'start', 'finish', 'phase', 'next steps', 'priorities'],
+    '<path d="M5 21V3.5M5 4h12l-2.5 4.5L17 13H5"/>'),
+  icon('commerce', 'Commerce', ['commerce', 'retail', 'shopping', 'ecommerce', 'purchase', 'order', 'store'],
+    '<circle cx="9" cy="20" r="1.5"/><circle cx="18" cy="20" r="1.5"/><path d="M2 3h3l2.4 12h12.1l2-8H5.9"/>'),
+  icon('software', 'Software', ['software', 'code', 'developer', 'technology', 'programming', 'api', 'integration'],
+    '<path d="M8 7l-5 5 5 5M16 7l5 5-5 5M14 4l-4 16"/>'),
+  icon('marketing', 'Marketing', ['marketing', 'announcement', 'campaign', 'brand', 'promotion', 'awareness', 'news'],
+    '<path d="M3 9.5v5h3l9 5V4.5l-9 5z"/><path d="M18.5 9a4 4 0 0 1 0 6M6 14.5l1.5 5.5h3L9 15.8"/>'),
+  icon('question', 'Question', ['question', 'faq', 'why', 'problem', 'challenge', 'unknown', 'q&a'],
+    '<circle cx="12" cy="12" r="9"/><path d="M9.5 9.25a2.5 2.5 0 1 1 3.6 2.25c-.7.35-1.1.9-1.1 1.7v.55M12 17h.01"/>'),
+];
+
+// Flat spot illustrations on a 400×300 canvas: a soft backdrop behind one
+// filled subject, in the primary and secondary colors.
+const backdrop = ({ primary, secondary }: IllustrationColors) =>
+  `<ellipse cx="200" cy="160" rx="175" ry="125" fill="${primary}" fill-opacity=".1"/>`
+  + `<circle cx="52" cy="64" r="7" fill="${secondary}" fill-opacity=".6"/><circle cx="352" cy="228" r="10" fill="${secondary}" fill-opacity=".45"/>`
+  + `<path d="M340 48v20M330 58h20" stroke="${primary}" stroke-opacity=".5" stroke-width="4" stroke-linecap="round"/>`;
+
+const scene = (id: string, label: string, keywords: string[], subject: (colors: IllustrationColors) => string): Illustration => ({
+  id,
+  label,
+  keywords,
+  draw: colors => backdrop(colors) + subject(colors),
+});
+
+const SCENES: Illustration[] = [
+  scene('growth-chart', 'Growth chart', ['growth', 'increase', 'trend', 'progress', 'revenue', 'results', 'performance', 'metrics'], ({ primary, secondary, ink }) =>
+    `<rect x="90" y="190" width="40" height="60" rx="6" fill="${primary}" fill-opacity=".45"/>`
+    + `<rect x="150" y="150" width="40" height="100" rx="6" fill="${primary}" fill-opacity=".65"/>`
+    + `<rect x="210" y="115" width="40" height="135" rx="6" fill="${primary}" fill-opacity=".85"/>`
+    + `<rect x="270" y="75" width="40" height="175" rx="6" fill="${primary}"/>`
+    + `<path d="M80 170L160 120l55 20 85-80M272 58h30v30" fill="none" stroke="${secondary}" stroke-width="8" stroke-linecap="round" stroke-linejoin="round"/>`
+    + `<path d="M70 252h260" stroke="${ink}" stroke-opacity=".6" stroke-width="4" stroke-linecap="round"/>`),
+  scene('team', 'Team', ['team', 'people', 'collaboration', 'staff', 'hiring', 'community', 'users', 'culture', 'customers'], ({ primary, secondary, ink }) =>
+    `<circle cx="125" cy="125" r="26" fill="${secondary}" fill-opacity=".75"/><path d="M80 235a45 45 0 0 1 90 0z" fill="${secondary}" fill-opacity=".75"/>`
+    + `<circle cx="275" cy="125" r="26" fill="${secondary}" fill-opacity=".75"/><path d="M230 235a45 45 0 0 1 90 0z" fill="${secondary}" fill-opacity=".75"/>`
+    + `<circle cx="200" cy="105" r="32" fill="${primary}"/><path d="M145 240a55 55 0 0 1 110 0z" fill="${primary}"/>`
+    + `<path d="M70 242h260" stroke="${ink}" stroke-opacity=".6" stroke-width="4" stroke-linecap="round"/>`),
+  scene('idea', 'Idea', ['idea', 'innovation', 'insight', 'creative', 'concept', 'brainstorm', 'solution', 'vision'], ({ primary, secondary, ink }) =>
+    `<path d="M200 60a62 62 0 0 0-36 112.5c5 4 8 10 8 17v3h56v-3c0-7 3-13 8-17A62 62 0 0 0 200 60z" fill="${primary}"/>`
+    + `<path d="M183 150l9-22 8 16 8-16 9 22" fill="none" stroke="#fff" stroke-opacity=".85" stroke-width="5" stroke-linecap="round" stroke-linejoin="round"/>`
+    + `<rect x="174" y="200" width="52" height="13" rx="5" fill="${ink}" fill-opacity=".75"/><rect x="182" y="218" width="36" height="13" rx="5" fill="${ink}" fill-opacity=".75"/>`
+    + `<path d="M200 22v16M118 56l12 12M282 56l-12 12M92 124h16M292 124h16" stroke="${secondary}" stroke-width="7" stroke-linecap="round"/>`),
+  scene('launch', 'Rocket launch', ['launch', 'startup', 'release', 'rocket', 'kickoff', 'accelerate', 'scale', 'future'], ({ primary, secondary, ink }) =>
+    `<path d="M180 205q20 70 40 0z" fill="${secondary}" fill-opacity=".8"/>`
+    + `<path d="M165 165l-32 45 36-6zM235 165l32 45-36-6z" fill="${secondary}"/>`
+    + `<path d="M200 35c35 32 45 90 35 170h-70c-10-80 0-138 35-170z" fill="${primary}"/>`
+    + `<circle cx="200" cy="112" r="19" fill="#fff" stroke="${ink}" stroke-opacity=".75" stroke-width="6"/>`
+    + `<circle cx="105" cy="90" r="4" fill="${ink}" fill-opacity=".5"/><circle cx="300" cy="140" r="5" fill="${ink}" fill-opacity=".5"/><circle cx="130" cy="205" r="4" fill="${ink}" fill-opacity=".5"/>`),
+  scene('target', 'Target', ['target', 'goal', 'objective', 'focus', 'aim', 'strategy', 'mission', 'accuracy'], ({ primary, secondary, ink }) =>
+    `<circle cx="190" cy="160" r="100" fill="${primary}" fill-opacity=".25"/><circle cx="190" cy="160" r="72" fill="${primary}" fill-opacity=".5"/>`
+    + `<circle cx="190" cy="160" r="44" fill="${primary}" fill-opacity=".8"/><circle cx="190" cy="160" r="16" fill="${ink}" fill-opacity=".85"/>`
+    + `<path d="M192 158L320 50" stroke="${secondary}" stroke-width="8" stroke-linecap="round"/>`
+    + `<path d="M300 48l24-4-4 24M318 64l-4 24" fill="none" stroke="${secondary}" stroke-width="8" stroke-linecap="round" stroke-linejoin="round"/>`),
+  scene('shield', 'Security', ['security', 'safety', 'privacy', 'protection', 'risk', 'compliance', 'trust', 'reliability'], ({ primary, secondary }) =>
+    `<path d="M200 35l95 36v72c0 62-40 102-95 125-55-23-95-63-95-125V71z" fill="${primary}"/>`
+    + `<path d="M200 62l70 27v54c0 45-28 77-70 96z" fill="${secondary}" fill-opacity=".35"/>`
+    + `<path d="M158 150l30 30 56-62" fill="none" stroke="#fff" stroke-width="16" stroke-linecap="round" stroke-linejoin="round"/>`),
+  scene('globe', 'World', ['global', 'world', 'international', 'market', 'expansion', 'travel', 'regions', 'network'], ({ primary, secondary }) =>
+    `<circle cx="200" cy="150" r="95" fill="${primary}"/>`
+    + `<g fill="none" stroke="#fff" stroke-opacity=".6" stroke-width="4"><ellipse cx="200" cy="150" rx="42" ry="95"/><path d="M105 150h190M118 102h164M118 198h164M200 55v190"/></g>`
+    + `<ellipse cx="200" cy="150" rx="160" ry="42" fill="none" stroke="${secondary}" stroke-width="6" transform="rotate(-18 200 150)"/>`
+    + `<circle cx="345" cy="100" r="12" fill="${secondary}"/>`),
+  scene('conversation', 'Conversation', ['communication', 'conversation', 'feedback', 'discussion', 'support', 'customer', 'questions', 'interview'], ({ primary, secondary }) =>
+    `<path d="M80 60h160a20 20 0 0 1 20 20v80a20 20 0 0 1-20 20H135l-38 32v-32H80a20 20 0 0 1-20-20V80a20 20 0 0 1 20-20z" fill="${primary}"/>`
+    + `<path d="M95 100h120M95 130h80" stroke="#fff" stroke-opacity=".85" stroke-width="9" stroke-linecap="round"/>`
+    + `<path d="M205 150h115a20 20 0 0 1 20 20v55a20 20 0 0 1-20 20h-5v30l-34-30h-76a20 20 0 0 1-20-20v-55a20 20 0 0 1 20-20z" fill="${secondary}"/>`
+    + `<circle cx="232" cy="198" r="8" fill="#fff"/><circle cx="262" cy="198" r="8" fill="#fff"/><circle cx="292" cy="198" r="8" fill="#fff"/>`),
+  scene('schedule', 'Schedule', ['plan', 'planning', 'timeline', 'roadmap', 'calendar', 'schedule', 'deadline', 'milestones', 'events'], ({ primary, secondary, ink }) =>
+    `<rect x="95" y="55" width="210" height="200" rx="18" fill="${primary}" fill-opacity=".12" stroke="${ink}" stroke-opacity=".6" stroke-width="5"/>`
+    + `<path d="M95 73a18 18 0 0 1 18-18h174a18 18 0 0 1 18 18v32H95z" fill="${primary}"/>`
+    + `<rect x="140" y="38" width="12" height="34" rx="6" fill="${ink}" fill-opacity=".8"/><rect x="248" y="38" width="12" height="34" rx="6" fill="${ink}" fill-opacity=".8"/>`
+    + [0, 1, 2].flatMap(row => [0, 1, 2].map(column =>
+      `<rect x="${120 + column * 56}" y="${122 + row * 42}" width="44" height="30" rx="6" fill="${primary}" fill-opacity="${row === 1 && column === 1 ? 1 : 0.3}"/>`)).join('')
+    + `<path d="M316 212l14 14 26-30" fill="none" stroke="${secondary}" stroke-width="9" stroke-linecap="round" stroke-linejoin="round"/>`),
+  scene('dashboard', 'Dashboard', ['data', 'analytics', 'dashboard', 'report', 'statistics', 'kpi', 'numbers', 'insight', 'comparison'], ({ primary, secondary, ink }) =>
+    `<rect x="70" y="60" width="260" height="180" rx="16" fill="${primary}" fill-opacity=".12" stroke="${ink}" stroke-opacity=".6" stroke-width="5"/>`
+    + `<circle cx="148" cy="150" r="50" fill="${primary}" fill-opacity=".3"/><path d="M148 150V100a50 50 0 0 1 47.6 65.5z" fill="${primary}"/>`
+    + `<rect x="222" y="160" width="20" height="50" rx="4" fill="${secondary}" fill-opacity=".6"/><rect x="252" y="130" width="20" height="80" rx="4" fill="${secondary}" fill-opacity=".8"/>`
+    + `<rect x="282" y="105" width="20" height="105" rx="4" fill="${secondary}"/>`
+    + `<path d="M222 88h80" stroke="${ink}" stroke-opacity=".5" stroke-width="7" stroke-linecap="round"/>`),
+];
+
+export const ILLUSTRATION_PACKS: IllustrationPack[] = [
+  { id: 'spot', label: 'Spot illustrations', width: 400, height: 300, items: SCENES },
+  { id: 'icons', label: 'Line icons', width: 24, height: 24, items: ICONS },
+];
+
+const findPack = (packId: string) => ILLUSTRATION_PACKS.find(pack => pack.id === packId) ?? ILLUSTRATION_PACKS[0];
+
+// Sized to draw sharply when redrawn as a PNG: icons are tiny on their grid.
+const RENDER_WIDTH = 800;
+
+export const illustrationSvg = (packId: string, item: Illustration, colors: IllustrationColors): string => {
+  const pack = findPack(packId);
+  const height = Math.round(RENDER_WIDTH * pack.height / pack.width);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${RENDER_WIDTH}" height="${height}" viewBox="0 0 ${pack.width} ${pack.height}">${item.draw(colors)}</svg>`;
+};
+
+export const illustrationDataUrl = (packId: string, item: Illustration, colors: IllustrationColors): string =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(illustrationSvg(packId, item, colors))}`;
+
+const words = (text: string) => new Set(text.toLowerCase().match(/[a-z&]+/g) ?? []);
+
+// How well an item fits the text: one point per keyword found, matching
+// plurals and other word endings by prefix.
+const scoreIllustration = (item: Illustration, textWords: Set<string>, text: string) =>
+  item.keywords.reduce((score, keyword) => {
+    if (keyword.includes(' ')) return score + (text.includes(keyword) ? 1 : 0);
+    for (const word of textWords) {
+      if (word.startsWith(keyword) || (word.length > 4 && keyword.startsWith(word))) return score + 1;
+    }
+    return score;
+  }, 0);
+
+// The pack's items ordered from best to worst match for `text`; items that
+// match nothing keep their pack order at the end.
+export const rankIllustrations = (packId: string, text: string): { item: Illustration; score: number }[] => {
+  const lower = text.toLowerCase();
+  const textWords = words(lower);
+  return findPack(packId).items
+    .map((item, index) => ({ item, index, score: scoreIllustration(item, textWords, lower) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ item, score }) => ({ item, score }));
+};
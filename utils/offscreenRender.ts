@@ -0,0 +1,113 @@
+import type { ReactNode } from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+import { blobToDataUrl } from './download';
+
+// How long the page's styles must stay unchanged before the rendered content
+// counts as styled, and the longest we wait for that.
+const STYLE_QUIET_MS = 50;
+const STYLE_SETTLE_LIMIT_MS = 2000;
+
+// Resolves once nothing in <head> has changed for STYLE_QUIET_MS. The Tailwind
+// CDN watches the document and rewrites its <style> element after new classes
+// appear, so this is when the rendered content has its CSS.
+const stylesSettled = () =>
+  new Promise<void>(resolve => {
+    let quietTimer: ReturnType<typeof setTimeout>;
+    const finish = () => {
+      observer.disconnect();
+      clearTimeout(quietTimer);
+      clearTimeout(limitTimer);
+      resolve();
+    };
+    const restartQuietTimer = () => {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(finish, STYLE_QUIET_MS);
+    };
+    const observer = new MutationObserver(restartQuietTimer);
+    observer.observe(document.head, { childList: true, subtree: true, characterData: true });
+    const limitTimer = setTimeout(finish, STYLE_SETTLE_LIMIT_MS);
+    restartQuietTimer();
+  });
+
+const imagesLoaded = (container: HTMLElement) =>
+  Promise.all(Array.from(container.querySelectorAll('img')).map(img => img.decode().catch(() => undefined)));
+
+// Renders React content into a hidden, fixed-width container in this page and
+// hands the container to `use` before removing it again. Rendering in the page
+// lets the Tailwind CDN see the classes the content uses and generate their
+// CSS, so captures and exports look like the viewer. `use` runs once that CSS,
+// the web fonts and the images are ready.
+export const withOffscreenRender = async <T>(
+  content: ReactNode,
+  width: number,
+  use: (container: HTMLElement) => T | Promise<T>
+): Promise<T> => {
+  const container = document.createElement('div');
+  container.style.position = 'absolute';
+  container.style.left = '-9999px';
+  container.style.top = '0';
+  container.style.width = `${width}px`;
+  document.body.appendChild(container);
+  const root = createRoot(container);
+  try {
+    const settled = stylesSettled();
+    flushSync(() => root.render(content));
+    await settled;
+    await Promise.all([document.fonts.ready, imagesLoaded(container)]);
+    return await use(container);
+  } finally {
+    root.unmount();
+    document.body.removeChild(container);
+  }
+};
+
+const CSS_URL = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g;
+
+// Cross-origin stylesheets (the web fonts) with their url()s inlined, by href.
+const inlinedSheets = new Map<string, Promise<string>>();
+
+const fetchOk = async (url: string): Promise<Response> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response;
+};
+
+const inlineStylesheet = async (href: string): Promise<string> => {
+  const css = await (await fetchOk(href)).text();
+  const urls = [...new Set(Array.from(css.matchAll(CSS_URL), match => match[2]))]
+    .filter(url => !url.startsWith('data:'));
+  const dataUrls = new Map(await Promise.all(urls.map(async url =>
+    [url, await blobToDataUrl(await (await fetchOk(new URL(url, href).href)).blob())] as const
+  )));
+  return css.replace(CSS_URL, (match, _quote, url) =>
+    dataUrls.has(url) ? `url("${dataUrls.get(url)}")` : match
+  );
+};
+
+const loadInlinedSheet = (href: string): Promise<string> => {
+  let sheet = inlinedSheets.get(href);
+  if (!sheet) {
+    sheet = inlineStylesheet(href).catch(e => {
+      inlinedSheets.delete(href);
+      throw new Error(`Could not embed the stylesheet ${href}: ${e instanceof Error ? e.message : String(e)}`);
+    });
+    inlinedSheets.set(href, sheet);
+  }
+  return sheet;
+};
+
+// The page's CSS, including what the Tailwind CDN generated. Cross-origin
+// stylesheets (web fonts) cannot be read from the page, so they are downloaded
+// with their font files inlined as data URLs, which keeps the result
+// self-contained. Rejects if one of them cannot be downloaded.
+export const collectPageStyles = async (): Promise<string> => {
+  const rules = await Promise.all(Array.from(document.styleSheets).map(sheet => {
+    try {
+      return Array.from(sheet.cssRules).map(rule => rule.cssText).join('\n');
+    } catch {
+      return sheet.href ? loadInlinedSheet(sheet.href) : '';
+    }
+  }));
+  return rules.join('\n');
+};
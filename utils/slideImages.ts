@@ -0,0 +1,108 @@
+import type { Slide, UploadedImage } from '../types';
+
+// Resolves a slide's `imagePlaceholder` (e.g. "IMAGE_2") to the matching uploaded image.
+export const resolveSlideImage = (slide: Slide, images: UploadedImage[]): UploadedImage | undefined => {
+  if (!slide.imagePlaceholder) return undefined;
+  const match = slide.imagePlaceholder.match(/IMAGE_(\d+)/);
+  if (!match) return undefined;
+  const imageIndex = parseInt(match[1], 10) - 1;
+  if (imageIndex >= 0 && imageIndex < images.length) {
+    return images[imageIndex];
+  }
+  return undefined;
+};
+
+// Returns the zero-based image index referenced by a placeholder, or -1.
+export const placeholderToIndex = (placeholder: string | undefined): number => {
+  const match = placeholder?.match(/IMAGE_(\d+)/);
+  return match ? parseInt(match[1], 10) - 1 : -1;
+};
+
+export const indexToPlaceholder = (index: number): string => `IMAGE_${index + 1}`;
+
+// Loads a data URL into an <img> so its natural size is known.
+export const loadImageElement = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load image.'));
+    img.src = src;
+  });
+
+// "data:image/png;base64,…" -> "image/png". Also handles URLs without `;`.
+export const dataUrlMimeType = (dataUrl: string): string => dataUrl.slice(5, dataUrl.search(/[;,]/));
+
+export interface EncodedImage {
+  dataUrl: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+// SVGs without width and height have no natural size; they are drawn at the
+// size browsers give such images on a page.
+const DEFAULT_IMAGE_WIDTH = 300;
+const DEFAULT_IMAGE_HEIGHT = 150;
+
+// Returns the image as is when its type is one of `acceptedTypes`, and
+// redrawn as a PNG through a canvas otherwise (e.g. WebP uploads or SVG logos
+// for file formats that only read a few image types).
+export const encodeImage = async (dataUrl: string, acceptedTypes: string[]): Promise<EncodedImage> => {
+  const img = await loadImageElement(dataUrl);
+  const width = img.naturalWidth || img.width || DEFAULT_IMAGE_WIDTH;
+  const height = img.naturalHeight || img.height || DEFAULT_IMAGE_HEIGHT;
+  const mimeType = dataUrlMimeType(dataUrl);
+  if (acceptedTypes.includes(mimeType)) return { dataUrl, mimeType, width, height };
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not convert the image.');
+  context.drawImage(img, 0, 0, width, height);
+  return { dataUrl: canvas.toDataURL('image/png'), mimeType: 'image/png', width, height };
+};
+
+// Fits a box of the given aspect ratio inside a bounding box, centered.
+export const fitContain = (
+  naturalWidth: number,
+  naturalHeight: number,
+  box: { x: number; y: number; width: number; height: number }
+) => {
+  const scale = Math.min(box.width / naturalWidth, box.height / naturalHeight);
+  const width = naturalWidth * scale;
+  const height = naturalHeight * scale;
+  return {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height,
+  };
+};
+
+// Reads a user-picked file into the same shape ImageUploader produces.
+export const readImageFile = (file: File, description = ''): Promise<UploadedImage> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result === 'string') {
+        resolve({ file, base64: reader.result, description });
+      } else {
+        reject(new Error('Could not read image file.'));
+      }
+    };
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read image file.'));
+    reader.readAsDataURL(file);
+  });
+
+// Formats every AI provider accepts as image input. Anything else, such as
+// the SVG of a bundled illustration, is redrawn as a PNG.
+const PORTABLE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Turns a generated or bundled picture into an uploaded image, so slides,
+// project files and exports treat it like any other upload.
+export const imageFromDataUrl = async (dataUrl: string, name: string, description = ''): Promise<UploadedImage> => {
+  const { dataUrl: portable } = await encodeImage(dataUrl, PORTABLE_IMAGE_TYPES);
+  const blob = await (await fetch(portable)).blob();
+  const extension = blob.type.split('/')[1] ?? 'png';
+  return readImageFile(new File([blob], `${name}.${extension}`, { type: blob.type }), description);
+};
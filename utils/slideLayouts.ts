@@ -0,0 +1,105 @@
+import type { Slide, SlideColumn, SlideLayout } from '../types';
+
+// Layout metadata and the rules that keep a slide's layout-specific fields
+// consistent, shared by the AI response parser, the editor and the exporters.
+
+export const SLIDE_LAYOUTS: { id: SlideLayout; label: string; description: string }[] = [
+  { id: 'title', label: 'Title', description: 'Opening slide with the deck title and a subtitle.' },
+  { id: 'bullets', label: 'Bullets', description: 'Title and a bullet list, with an optional image.' },
+  { id: 'two-column', label: 'Two columns', description: 'Two headed bullet lists side by side, e.g. pros and cons or before and after.' },
+  { id: 'image-left', label: 'Image left', description: 'Image on the left, bullets on the right.' },
+  { id: 'image-right', label: 'Image right', description: 'Bullets on the left, image on the right.' },
+  { id: 'stat', label: 'Big number', description: 'One headline figure with a label and a few supporting points.' },
+  { id: 'quote', label: 'Quote', description: 'A single quotation with its attribution.' },
+  { id: 'agenda', label: 'Agenda', description: 'Numbered list of the topics that follow.' },
+  { id: 'section', label: 'Section', description: 'Divider introducing a new part of the talk.' },
+];
+
+const LAYOUT_IDS = new Set<string>(SLIDE_LAYOUTS.map(layout => layout.id));
+
+export const isSlideLayout = (value: unknown): value is SlideLayout =>
+  typeof value === 'string' && LAYOUT_IDS.has(value);
+
+export const getSlideLayout = (slide: Slide): SlideLayout =>
+  isSlideLayout(slide.layout) ? slide.layout : 'bullets';
+
+// Layouts whose body is the `content` bullet list.
+export const usesBullets = (layout: SlideLayout) =>
+  layout === 'bullets' || layout === 'image-left' || layout === 'image-right' || layout === 'stat' || layout === 'agenda';
+
+export const usesImage = (layout: SlideLayout) =>
+  layout === 'bullets' || layout === 'image-left' || layout === 'image-right' || layout === 'title';
+
+export const usesSubtitle = (layout: SlideLayout) => layout === 'title' || layout === 'section';
+
+const splitIntoColumns = (points: string[]): SlideColumn[] => {
+  const middle = Math.ceil(points.length / 2);
+  return [
+    { heading: '', points: points.slice(0, middle) },
+    { heading: '', points: points.slice(middle) },
+  ];
+};
+
+// Switches a slide to another layout, carrying its text over so nothing is
+// lost: bullets become columns and back, the first bullet seeds a quote, etc.
+export const changeSlideLayout = (slide: Slide, layout: SlideLayout): Slide => {
+  const current = getSlideLayout(slide);
+  if (current === layout) return slide;
+
+  const points = current === 'two-column' && slide.columns
+    ? slide.columns.flatMap(column => column.points)
+    : current === 'quote' && slide.quote && slide.content.length === 0
+      ? [slide.quote.text]
+      : slide.content;
+
+  const next: Slide = { ...slide, layout, content: points };
+  if (layout === 'two-column') {
+    next.columns = splitIntoColumns(points).map((column, i) => ({ ...column, heading: slide.columns?.[i]?.heading ?? '' }));
+    next.content = [];
+  }
+  if (layout === 'stat' && !slide.stat) next.stat = { value: '', label: '' };
+  if (layout === 'quote' && !slide.quote) {
+    next.quote = { text: points[0] ?? '', attribution: '' };
+    next.content = points.slice(1);
+  }
+  if (usesSubtitle(layout) && slide.subtitle === undefined) next.subtitle = '';
+  return next;
+};
+
+// Repairs AI output (or hand-edited files) whose layout is missing the fields
+// it needs, falling back to a layout that can show what is there.
+export const normalizeSlideLayout = (slide: Slide): Slide => {
+  const layout = slide.layout === undefined ? undefined : getSlideLayout(slide);
+  const normalized: Slide = { ...slide, layout };
+  if (layout === undefined) delete normalized.layout;
+
+  switch (layout) {
+    case 'two-column': {
+      const columns = Array.isArray(slide.columns) ? slide.columns.slice(0, 2) : [];
+      if (columns.length === 0) {
+        normalized.columns = splitIntoColumns(slide.content);
+        normalized.content = [];
+      } else {
+        while (columns.length < 2) columns.push({ heading: '', points: [] });
+        normalized.columns = columns.map(column => ({
+          heading: column?.heading ?? '',
+          points: Array.isArray(column?.points) ? column.points : [],
+        }));
+      }
+      break;
+    }
+    case 'stat':
+      if (!slide.stat?.value) normalized.layout = 'bullets';
+      else normalized.stat = { value: slide.stat.value, label: slide.stat.label ?? '' };
+      break;
+    case 'quote':
+      if (!slide.quote?.text) normalized.layout = 'bullets';
+      else normalized.quote = { text: slide.quote.text, attribution: slide.quote.attribution ?? '' };
+      break;
+    case 'image-left':
+    case 'image-right':
+      if (!slide.imagePlaceholder) normalized.layout = 'bullets';
+      break;
+  }
+  return normalized;
+};
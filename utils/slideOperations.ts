@@ -0,0 +1,33 @@
+import type { Presentation, Slide } from '../types';
+
+// Pure deck transformations used by the thumbnail rail. Each returns a new
+// array so the result can be pushed straight onto the undo history.
+
+export const createBlankSlide = (): Slide => ({
+  title: 'New Slide',
+  content: [''],
+  speakerNotes: '',
+});
+
+export const moveSlide = (presentation: Presentation, from: number, to: number): Presentation => {
+  if (from === to || from < 0 || from >= presentation.length) return presentation;
+  const next = [...presentation];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return next;
+};
+
+export const insertSlide = (presentation: Presentation, index: number, slide: Slide = createBlankSlide()): Presentation => {
+  const next = [...presentation];
+  next.splice(index, 0, slide);
+  return next;
+};
+
+export const duplicateSlide = (presentation: Presentation, index: number): Presentation => {
+  const original = presentation[index];
+  if (!original) return presentation;
+  return insertSlide(presentation, index + 1, { ...original, content: [...original.content] });
+};
+
+export const deleteSlide = (presentation: Presentation, index: number): Presentation =>
+  presentation.length <= 1 ? presentation : presentation.filter((_, i) => i !== index);
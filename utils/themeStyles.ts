@@ -0,0 +1,47 @@
+import type React from 'react';
+import type { Theme } from '../types';
+
+// CSS for a theme, shared by every DOM-based renderer (viewer, thumbnails,
+// presenter windows).
+
+export const fontStack = (font: string) => `'${font}', sans-serif`;
+
+export const themeBackground = (theme: Theme): string =>
+  theme.colors.backgroundGradientTo
+    ? `linear-gradient(135deg, ${theme.colors.background} 0%, ${theme.colors.backgroundGradientTo} 100%)`
+    : theme.colors.background;
+
+export const themeTitleStyle = (theme: Theme): React.CSSProperties => ({
+  fontFamily: fontStack(theme.fonts.heading),
+  fontSize: theme.title.size,
+  fontWeight: theme.title.weight,
+  textAlign: theme.title.align,
+  textTransform: theme.title.uppercase ? 'uppercase' : 'none',
+  ...(theme.colors.titleGradientTo
+    ? {
+        backgroundImage: `linear-gradient(to right, ${theme.colors.title}, ${theme.colors.titleGradientTo})`,
+        WebkitBackgroundClip: 'text',
+        backgroundClip: 'text',
+        color: 'transparent',
+      }
+    : { color: theme.colors.title }),
+});
+
+export const themeBulletTextStyle = (theme: Theme): React.CSSProperties => ({
+  fontFamily: fontStack(theme.fonts.body),
+  fontSize: theme.bullets.size,
+  color: theme.colors.text,
+});
+
+export const themeMarkerStyle = (theme: Theme): React.CSSProperties => ({
+  fontFamily: fontStack(theme.fonts.body),
+  fontSize: theme.bullets.size,
+  color: theme.colors.accent,
+});
+
+export const LOGO_POSITION_CLASSES: Record<NonNullable<Theme['logo']>['position'], string> = {
+  'top-left': 'top-4 left-4',
+  'top-right': 'top-4 right-4',
+  'bottom-left': 'bottom-4 left-4',
+  'bottom-right': 'bottom-4 right-4',
+};
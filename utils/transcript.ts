@@ -0,0 +1,29 @@
+import type { TranscriptSegment } from '../types';
+
+// Flattens timed segments into the plain transcript used for generation. A
+// change of speaker starts a new paragraph labelled with the speaker's name.
+export const transcriptFromSegments = (segments: TranscriptSegment[]): string => {
+  let transcript = '';
+  let speaker: string | undefined;
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (!text) continue;
+    if (segment.speaker && segment.speaker !== speaker) {
+      transcript += `${transcript ? '\n\n' : ''}${segment.speaker}: ${text}`;
+    } else {
+      transcript += `${transcript ? ' ' : ''}${text}`;
+    }
+    speaker = segment.speaker ?? speaker;
+  }
+  return transcript;
+};
+
+// Puts a new take between the text before and after it, adding a space where
+// the take would otherwise run into its neighbours.
+export const insertTake = (before: string, take: string, after: string): string => {
+  const text = take.trim();
+  if (!text) return before + after;
+  const lead = before && !/\s$/.test(before) ? ' ' : '';
+  const trail = after && !/^\s/.test(after) ? ' ' : '';
+  return `${before}${lead}${text}${trail}${after}`;
+};